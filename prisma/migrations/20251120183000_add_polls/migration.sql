@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "Poll" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Poll_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PollCountry" (
+    "id" TEXT NOT NULL,
+    "pollId" TEXT NOT NULL,
+    "countryId" TEXT NOT NULL,
+    "votes" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PollCountry_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the default poll that backs the legacy /api/votes routes
+INSERT INTO "Poll" ("id", "title", "description", "updatedAt")
+VALUES ('default', 'Favorite country', 'The original global country vote', CURRENT_TIMESTAMP);
+
+-- Move the existing per-country counters into the default poll
+INSERT INTO "PollCountry" ("id", "pollId", "countryId", "votes", "updatedAt")
+SELECT gen_random_uuid()::TEXT, 'default', "id", "votes", "updatedAt"
+FROM "Country"
+WHERE "votes" > 0;
+
+-- AlterTable
+ALTER TABLE "Country" DROP COLUMN "votes";
+
+-- DropIndex
+DROP INDEX "User_email_key";
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "pollId" TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE "User" ALTER COLUMN "pollId" DROP DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_pollId_email_key" ON "User"("pollId", "email");
+
+-- CreateIndex
+CREATE INDEX "PollCountry_pollId_votes_idx" ON "PollCountry"("pollId", "votes");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PollCountry_pollId_countryId_key" ON "PollCountry"("pollId", "countryId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "Poll"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PollCountry" ADD CONSTRAINT "PollCountry_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "Poll"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PollCountry" ADD CONSTRAINT "PollCountry_countryId_fkey" FOREIGN KEY ("countryId") REFERENCES "Country"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
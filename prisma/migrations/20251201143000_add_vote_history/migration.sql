@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "VoteAction" AS ENUM ('CAST', 'CHANGE', 'WITHDRAW');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "manageTokenHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "VoteHistory" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "action" "VoteAction" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pollId" TEXT NOT NULL,
+    "fromCountryId" TEXT,
+    "toCountryId" TEXT,
+
+    CONSTRAINT "VoteHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill a CAST entry for every vote recorded before history existed
+INSERT INTO "VoteHistory" ("id", "name", "email", "action", "createdAt", "pollId", "toCountryId")
+SELECT gen_random_uuid()::TEXT, "name", "email", 'CAST', "createdAt", "pollId", "countryId"
+FROM "User";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_manageTokenHash_key" ON "User"("manageTokenHash");
+
+-- CreateIndex
+CREATE INDEX "VoteHistory_pollId_email_idx" ON "VoteHistory"("pollId", "email");
+
+-- AddForeignKey
+ALTER TABLE "VoteHistory" ADD CONSTRAINT "VoteHistory_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "Poll"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VoteHistory" ADD CONSTRAINT "VoteHistory_fromCountryId_fkey" FOREIGN KEY ("fromCountryId") REFERENCES "Country"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VoteHistory" ADD CONSTRAINT "VoteHistory_toCountryId_fkey" FOREIGN KEY ("toCountryId") REFERENCES "Country"("id") ON DELETE SET NULL ON UPDATE CASCADE;
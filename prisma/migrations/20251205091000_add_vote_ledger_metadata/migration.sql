@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "PendingVote" ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "userAgent" TEXT;
+
+-- AlterTable
+ALTER TABLE "VoteHistory" ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'api',
+ADD COLUMN     "userAgent" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VoteHistory_pollId_toCountryId_idx" ON "VoteHistory"("pollId", "toCountryId");
+
+-- CreateIndex
+CREATE INDEX "VoteHistory_pollId_fromCountryId_idx" ON "VoteHistory"("pollId", "fromCountryId");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "User_pollId_createdAt_idx" ON "User"("pollId", "createdAt");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "VoteStatus" AS ENUM ('ACTIVE', 'FLAGGED', 'VOIDED');
+
+-- CreateEnum
+CREATE TYPE "ModerationAction" AS ENUM ('FLAG', 'VOID', 'RESTORE');
+
+-- AlterEnum
+ALTER TYPE "VoteAction" ADD VALUE 'VOID';
+ALTER TYPE "VoteAction" ADD VALUE 'RESTORE';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "status" "VoteStatus" NOT NULL DEFAULT 'ACTIVE';
+
+-- CreateTable
+CREATE TABLE "VoteModeration" (
+    "id" TEXT NOT NULL,
+    "voteId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "action" "ModerationAction" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "apiKeyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pollId" TEXT NOT NULL,
+
+    CONSTRAINT "VoteModeration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "User_pollId_status_idx" ON "User"("pollId", "status");
+
+-- CreateIndex
+CREATE INDEX "VoteModeration_pollId_voteId_idx" ON "VoteModeration"("pollId", "voteId");
+
+-- AddForeignKey
+ALTER TABLE "VoteModeration" ADD CONSTRAINT "VoteModeration_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "Poll"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
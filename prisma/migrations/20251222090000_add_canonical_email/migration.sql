@@ -0,0 +1,60 @@
+-- Same rules as canonicalizeEmail (src/shared/utils/email.util.ts)
+CREATE FUNCTION pg_temp.canonical_email(email TEXT) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN split_part(address, '@', 2) IN ('gmail.com', 'googlemail.com')
+      AND replace(split_part(split_part(address, '@', 1), '+', 1), '.', '') <> ''
+      THEN replace(split_part(split_part(address, '@', 1), '+', 1), '.', '') || '@gmail.com'
+    WHEN split_part(address, '@', 2) IN ('outlook.com', 'hotmail.com', 'live.com', 'icloud.com', 'me.com', 'mac.com', 'fastmail.com', 'protonmail.com', 'proton.me')
+      AND split_part(split_part(address, '@', 1), '+', 1) <> ''
+      THEN split_part(split_part(address, '@', 1), '+', 1) || '@' || split_part(address, '@', 2)
+    ELSE address
+  END
+  FROM (SELECT lower(trim(email)) AS address) AS input
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "canonicalEmail" TEXT;
+
+-- AlterTable
+ALTER TABLE "PendingVote" ADD COLUMN     "canonicalEmail" TEXT;
+
+-- Backfill: when earlier votes collapse onto one voter, the vote whose
+-- address is already canonical (or else the oldest) takes the canonical
+-- form and the others keep their address as typed, so they stay unique
+WITH "Ranked" AS (
+  SELECT "id", pg_temp.canonical_email("email") AS "canonical",
+    row_number() OVER (
+      PARTITION BY "pollId", pg_temp.canonical_email("email")
+      ORDER BY ("email" = pg_temp.canonical_email("email")) DESC, "createdAt", "id"
+    ) AS "rank"
+  FROM "User"
+)
+UPDATE "User" SET "canonicalEmail" = CASE WHEN "Ranked"."rank" = 1 THEN "Ranked"."canonical" ELSE "User"."email" END
+FROM "Ranked"
+WHERE "Ranked"."id" = "User"."id";
+
+-- Pending votes that collapse onto one voter are replaced by the newest,
+-- as a new submission would do
+DELETE FROM "PendingVote" AS "older"
+USING "PendingVote" AS "newer"
+WHERE "older"."pollId" = "newer"."pollId"
+  AND pg_temp.canonical_email("older"."email") = pg_temp.canonical_email("newer"."email")
+  AND ("older"."createdAt", "older"."id") < ("newer"."createdAt", "newer"."id");
+
+UPDATE "PendingVote" SET "canonicalEmail" = pg_temp.canonical_email("email");
+
+ALTER TABLE "User" ALTER COLUMN "canonicalEmail" SET NOT NULL;
+
+ALTER TABLE "PendingVote" ALTER COLUMN "canonicalEmail" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "User_pollId_email_key";
+
+-- DropIndex
+DROP INDEX "PendingVote_pollId_email_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_pollId_canonicalEmail_key" ON "User"("pollId", "canonicalEmail");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingVote_pollId_canonicalEmail_key" ON "PendingVote"("pollId", "canonicalEmail");
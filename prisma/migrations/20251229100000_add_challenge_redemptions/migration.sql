@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "ChallengeRedemption" (
+    "id" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChallengeRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChallengeRedemption_expiresAt_idx" ON "ChallengeRedemption"("expiresAt");
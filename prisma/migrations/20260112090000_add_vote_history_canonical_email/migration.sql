@@ -0,0 +1,34 @@
+-- Same rules as canonicalizeEmail (src/shared/utils/email.util.ts)
+CREATE FUNCTION pg_temp.canonical_email(email TEXT) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN split_part(address, '@', 2) IN ('gmail.com', 'googlemail.com')
+      AND replace(split_part(split_part(address, '@', 1), '+', 1), '.', '') <> ''
+      THEN replace(split_part(split_part(address, '@', 1), '+', 1), '.', '') || '@gmail.com'
+    WHEN split_part(address, '@', 2) IN ('outlook.com', 'hotmail.com', 'live.com', 'icloud.com', 'me.com', 'mac.com', 'fastmail.com', 'protonmail.com', 'proton.me')
+      AND split_part(split_part(address, '@', 1), '+', 1) <> ''
+      THEN split_part(split_part(address, '@', 1), '+', 1) || '@' || split_part(address, '@', 2)
+    ELSE address
+  END
+  FROM (SELECT lower(trim(email)) AS address) AS input
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- DropIndex
+DROP INDEX "VoteHistory_pollId_email_idx";
+
+-- AlterTable
+ALTER TABLE "VoteHistory" ADD COLUMN     "canonicalEmail" TEXT;
+
+-- Backfill: entries of a current vote take the canonicalEmail of that vote,
+-- entries of withdrawn votes the canonical form of their address
+UPDATE "VoteHistory" SET "canonicalEmail" = "User"."canonicalEmail"
+FROM "User"
+WHERE "User"."pollId" = "VoteHistory"."pollId"
+  AND "User"."email" = "VoteHistory"."email";
+
+UPDATE "VoteHistory" SET "canonicalEmail" = pg_temp.canonical_email("email")
+WHERE "canonicalEmail" IS NULL;
+
+ALTER TABLE "VoteHistory" ALTER COLUMN "canonicalEmail" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "VoteHistory_pollId_canonicalEmail_idx" ON "VoteHistory"("pollId", "canonicalEmail");
@@ -3,6 +3,8 @@ import axios from 'axios';
 
 const prisma = new PrismaClient();
 
+const DEFAULT_POLL_ID = 'default';
+
 interface RestCountry {
   name: {
     common: string;
@@ -19,10 +21,24 @@ async function main() {
 
   // Clear existing data
   console.log('🗑️  Clearing existing data...');
+  await prisma.voteHistory.deleteMany({});
   await prisma.user.deleteMany({});
+  await prisma.pendingVote.deleteMany({});
+  await prisma.pollCountry.deleteMany({});
   await prisma.country.deleteMany({});
   console.log('✅ Existing data cleared\n');
 
+  // Make sure the default poll exists
+  await prisma.poll.upsert({
+    where: { id: DEFAULT_POLL_ID },
+    create: {
+      id: DEFAULT_POLL_ID,
+      title: 'Favorite country',
+      description: 'The original global country vote',
+    },
+    update: {},
+  });
+
   // Fetch country data from REST Countries API
   console.log('🌍 Fetching country data from REST Countries API...');
   const response = await axios.get<RestCountry[]>(
@@ -50,7 +66,7 @@ async function main() {
     'ZAF', // South Africa
   ];
 
-  // Create countries with initial vote counts
+  // Create countries
   console.log('🏳️  Creating countries...');
   const createdCountries = [];
 
@@ -65,7 +81,6 @@ async function main() {
           capital: countryData.capital?.[0] || 'N/A',
           region: countryData.region,
           subRegion: countryData.subregion || 'N/A',
-          votes: 0, // Will be updated as we create users
         },
       });
       createdCountries.push(country);
@@ -134,14 +149,31 @@ async function main() {
         data: {
           name: userData.name,
           email: userData.email,
+          canonicalEmail: userData.email,
+          pollId: DEFAULT_POLL_ID,
           countryId: country.id,
         },
       });
 
-      // Increment vote count
-      await prisma.country.update({
-        where: { id: country.id },
-        data: { votes: { increment: 1 } },
+      await prisma.voteHistory.create({
+        data: {
+          name: userData.name,
+          email: userData.email,
+          canonicalEmail: userData.email,
+          pollId: DEFAULT_POLL_ID,
+          action: 'CAST',
+          source: 'seed',
+          toCountryId: country.id,
+        },
+      });
+
+      // Increment vote count in the default poll
+      await prisma.pollCountry.upsert({
+        where: {
+          pollId_countryId: { pollId: DEFAULT_POLL_ID, countryId: country.id },
+        },
+        create: { pollId: DEFAULT_POLL_ID, countryId: country.id, votes: 1 },
+        update: { votes: { increment: 1 } },
       });
 
       console.log(
@@ -156,8 +188,8 @@ async function main() {
   console.log('📊 Database Statistics:');
   const totalCountries = await prisma.country.count();
   const totalUsers = await prisma.user.count();
-  const countriesWithVotes = await prisma.country.count({
-    where: { votes: { gt: 0 } },
+  const countriesWithVotes = await prisma.pollCountry.count({
+    where: { pollId: DEFAULT_POLL_ID, votes: { gt: 0 } },
   });
 
   console.log(`  • Total countries: ${totalCountries}`);
@@ -1,17 +1,41 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { SharedModule } from './shared/shared.module';
+import { MetricsModule } from './metrics/metrics.module';
 import { CountriesModule } from './countries/countries.module';
 import { VotesModule } from './votes/votes.module';
+import { PollsModule } from './polls/polls.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
+import { ExportModule } from './export/export.module';
+import { ImportModule } from './import/import.module';
+import { CountrySyncModule } from './country-sync/country-sync.module';
+import { AuthModule } from './auth/auth.module';
+import { IdempotencyModule } from './idempotency/idempotency.module';
+import { ChallengeModule } from './challenge/challenge.module';
+import { ModerationModule } from './moderation/moderation.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     SharedModule,
+    MetricsModule,
+    RateLimitModule,
+    AuthModule,
+    IdempotencyModule,
+    ChallengeModule,
     CountriesModule,
+    PollsModule,
     VotesModule,
+    ReconciliationModule,
+    ExportModule,
+    ImportModule,
+    CountrySyncModule,
+    ModerationModule,
   ],
   controllers: [],
   providers: [],
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyRole } from '@prisma/client';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { PollsController } from '../polls/polls.controller';
+
+type MockApiKeysService = {
+  authenticate: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let reflector: Reflector;
+  let apiKeysService: MockApiKeysService;
+  let loggerService: MockLoggerService;
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const moderatorKey = {
+    id: 'key-1',
+    name: 'Ops team',
+    role: ApiKeyRole.MODERATOR,
+  };
+
+  const createRequest = (headers: Record<string, string> = {}) => ({
+    method: 'POST',
+    originalUrl: '/api/admin/reconciliation/repair',
+    ip: '127.0.0.1',
+    get: (name: string) => headers[name.toLowerCase()],
+  });
+
+  const createContext = (request: ReturnType<typeof createRequest>) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => request,
+      }),
+    } as unknown as ExecutionContext);
+
+  const requireRole = (role?: ApiKeyRole) =>
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(role);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyGuard,
+        Reflector,
+        {
+          provide: ApiKeysService,
+          useValue: { authenticate: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<ApiKeyGuard>(ApiKeyGuard);
+    reflector = module.get<Reflector>(Reflector);
+    apiKeysService = module.get(ApiKeysService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  describe('canActivate', () => {
+    it('should leave routes without a required role anonymous', async () => {
+      requireRole(undefined);
+
+      await expect(
+        guard.canActivate(createContext(createRequest())),
+      ).resolves.toBe(true);
+      expect(apiKeysService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should require an admin API key to create polls', async () => {
+      const context = (handler: (...args: never[]) => unknown) =>
+        ({
+          ...createContext(createRequest()),
+          getHandler: () => handler,
+          getClass: () => PollsController,
+        } as unknown as ExecutionContext);
+
+      await expect(
+        guard.canActivate(context(PollsController.prototype.createPoll)),
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        guard.canActivate(context(PollsController.prototype.getPolls)),
+      ).resolves.toBe(true);
+    });
+
+    it('should reject requests without an API key', async () => {
+      requireRole(ApiKeyRole.READ_ONLY);
+
+      await expect(
+        guard.canActivate(createContext(createRequest())),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Rejected missing API key: POST /api/admin/reconciliation/repair, ip=127.0.0.1',
+      );
+    });
+
+    it('should reject unknown or revoked API keys', async () => {
+      requireRole(ApiKeyRole.READ_ONLY);
+      apiKeysService.authenticate.mockResolvedValue(null);
+
+      await expect(
+        guard.canActivate(
+          createContext(createRequest({ 'x-api-key': 'cva_wrong' })),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(apiKeysService.authenticate).toHaveBeenCalledWith('cva_wrong');
+    });
+
+    it('should reject keys with a lower role', async () => {
+      requireRole(ApiKeyRole.ADMIN);
+      apiKeysService.authenticate.mockResolvedValue(moderatorKey);
+
+      await expect(
+        guard.canActivate(
+          createContext(createRequest({ 'x-api-key': 'cva_secret' })),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should allow keys with the required role or higher', async () => {
+      requireRole(ApiKeyRole.READ_ONLY);
+      apiKeysService.authenticate.mockResolvedValue(moderatorKey);
+      const request = createRequest({ 'x-api-key': 'cva_secret' });
+
+      await expect(guard.canActivate(createContext(request))).resolves.toBe(
+        true,
+      );
+      expect(request).toEqual(
+        expect.objectContaining({ apiKey: moderatorKey }),
+      );
+    });
+  });
+});
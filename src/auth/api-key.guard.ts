@@ -0,0 +1,68 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyRole } from '@prisma/client';
+import { Request } from 'express';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { ApiKeysService, AuthenticatedApiKey } from './api-keys.service';
+import {
+  API_KEY_HEADER,
+  REQUIRED_ROLE_KEY,
+  ROLE_LEVELS,
+} from './require-role.decorator';
+
+export type AuthenticatedRequest = Request & { apiKey?: AuthenticatedApiKey };
+
+/**
+ * Checks the API key of routes marked with RequireRole
+ * Routes without a required role stay anonymous
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredRole = this.reflector.getAllAndOverride<ApiKeyRole>(
+      REQUIRED_ROLE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredRole) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const key = request.get(API_KEY_HEADER);
+    const apiKey = key ? await this.apiKeysService.authenticate(key) : null;
+
+    if (!apiKey) {
+      this.logger.LogWarning(
+        `Rejected ${key ? 'invalid' : 'missing'} API key: ${request.method} ${
+          request.originalUrl
+        }, ip=${request.ip}`,
+      );
+      throw new UnauthorizedException('A valid API key is required');
+    }
+
+    if (ROLE_LEVELS[apiKey.role] < ROLE_LEVELS[requiredRole]) {
+      this.logger.LogWarning(
+        `API key ${apiKey.id} (${apiKey.role}) denied: ${request.method} ${request.originalUrl} requires ${requiredRole}`,
+      );
+      throw new ForbiddenException(
+        `This action requires the ${requiredRole} role`,
+      );
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+}
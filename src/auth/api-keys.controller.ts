@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { ApiKeysService } from './api-keys.service';
+import {
+  ApiKeyDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+} from './dto/api-key.dto';
+import { RequireRole } from './require-role.decorator';
+
+@Controller('admin/api-keys')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.ADMIN)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiCreatedResponse({
+    description:
+      'The API key has been created. The key is only shown in this response.',
+    type: CreatedApiKeyDto,
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async createApiKey(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<{ data: CreatedApiKeyDto }> {
+    const data = await this.apiKeysService.createApiKey(createApiKeyDto);
+    return { data };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys' })
+  @ApiOkResponse({
+    description: 'The API keys have been successfully fetched.',
+    type: [ApiKeyDto],
+  })
+  async getApiKeys(): Promise<{ data: ApiKeyDto[] }> {
+    const data = await this.apiKeysService.getApiKeys();
+    return { data };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiOkResponse({
+    description: 'The API key has been revoked.',
+    type: ApiKeyDto,
+  })
+  @ApiNotFoundResponse({ description: 'The API key does not exist.' })
+  async revokeApiKey(@Param('id') id: string): Promise<{ data: ApiKeyDto }> {
+    const data = await this.apiKeysService.revokeApiKey(id);
+    return { data };
+  }
+}
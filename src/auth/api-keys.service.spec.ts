@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ApiKeyRole } from '@prisma/client';
+import { ApiKeysService } from './api-keys.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { hashToken } from '../shared/utils/token.util';
+
+type MockDatabaseService = {
+  apiKey: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+    findUnique: jest.Mock;
+    update: jest.Mock;
+  };
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let databaseService: MockDatabaseService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    apiKey: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const createdAt = new Date('2025-12-15T10:00:00.000Z');
+
+  const storedKey = {
+    id: 'key-1',
+    name: 'Ops team',
+    role: ApiKeyRole.MODERATOR,
+    keyHash: 'hash',
+    prefix: 'cva_12345678',
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    databaseService = module.get(DatabaseService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createApiKey', () => {
+    it('should store only the hash and return the key once', async () => {
+      databaseService.apiKey.create.mockImplementation(({ data }) =>
+        Promise.resolve({
+          ...storedKey,
+          ...data,
+        }),
+      );
+
+      const result = await service.createApiKey({
+        name: 'Ops team',
+        role: ApiKeyRole.MODERATOR,
+      });
+
+      expect(result.key).toMatch(/^cva_[0-9a-f]{64}$/);
+      expect(result.prefix).toBe(result.key.slice(0, 12));
+      expect(result).not.toHaveProperty('keyHash');
+      expect(databaseService.apiKey.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Ops team',
+          role: ApiKeyRole.MODERATOR,
+          keyHash: hashToken(result.key),
+          prefix: result.prefix,
+        },
+      });
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.apiKey.create.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        service.createApiKey({ name: 'Ops team', role: ApiKeyRole.ADMIN }),
+      ).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to create API key: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should set the revocation date', async () => {
+      databaseService.apiKey.findUnique.mockResolvedValue(storedKey);
+      databaseService.apiKey.update.mockImplementation(({ data }) =>
+        Promise.resolve({ ...storedKey, ...data }),
+      );
+
+      const result = await service.revokeApiKey('key-1');
+
+      expect(result.revokedAt).toEqual(expect.any(Date));
+      expect(databaseService.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should keep the first revocation date', async () => {
+      databaseService.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        revokedAt: createdAt,
+      });
+
+      const result = await service.revokeApiKey('key-1');
+
+      expect(result.revokedAt).toBe(createdAt);
+      expect(databaseService.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if the key does not exist', async () => {
+      databaseService.apiKey.findUnique.mockResolvedValue(null);
+
+      await expect(service.revokeApiKey('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should find the key by its hash and record its use', async () => {
+      databaseService.apiKey.findUnique.mockResolvedValue(storedKey);
+
+      const result = await service.authenticate('cva_secret');
+
+      expect(result).toEqual({
+        id: 'key-1',
+        name: 'Ops team',
+        role: ApiKeyRole.MODERATOR,
+      });
+      expect(databaseService.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: hashToken('cva_secret') },
+      });
+      expect(databaseService.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject revoked keys', async () => {
+      databaseService.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        revokedAt: createdAt,
+      });
+
+      expect(await service.authenticate('cva_secret')).toBeNull();
+      expect(databaseService.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown keys', async () => {
+      databaseService.apiKey.findUnique.mockResolvedValue(null);
+
+      expect(await service.authenticate('cva_unknown')).toBeNull();
+    });
+  });
+});
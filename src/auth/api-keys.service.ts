@@ -0,0 +1,150 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ApiKey, ApiKeyRole } from '@prisma/client';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { generateToken, hashToken } from 'src/shared/utils/token.util';
+import {
+  ApiKeyDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+} from './dto/api-key.dto';
+
+// Makes leaked keys easy to recognize, e.g. by secret scanners
+const API_KEY_PREFIX = 'cva_';
+const DISPLAYED_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/**
+ * The caller of an admin route, attached to the request by ApiKeyGuard
+ */
+export interface AuthenticatedApiKey {
+  id: string;
+  name: string;
+  role: ApiKeyRole;
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Create an API key, the plain key is only returned here
+   */
+  async createApiKey(
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyDto> {
+    const { name, role } = createApiKeyDto;
+    this.logger.LogInfo(`Creating ${role} API key "${name}"`);
+
+    try {
+      const key = `${API_KEY_PREFIX}${generateToken()}`;
+      const apiKey = await this.db.apiKey.create({
+        data: {
+          name,
+          role,
+          keyHash: hashToken(key),
+          prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH),
+        },
+      });
+
+      this.logger.LogInfo(`API key created: ${apiKey.id}`);
+      return { ...this.toDto(apiKey), key };
+    } catch (error) {
+      this.logger.LogError(`Failed to create API key: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  async getApiKeys(): Promise<ApiKeyDto[]> {
+    this.logger.LogInfo('Fetching API keys');
+
+    try {
+      const apiKeys = await this.db.apiKey.findMany({
+        orderBy: {
+          createdAt: 'asc',
+        },
+      });
+
+      return apiKeys.map((apiKey) => this.toDto(apiKey));
+    } catch (error) {
+      this.logger.LogError(`Failed to fetch API keys: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an API key, revoking it again keeps the first revocation date
+   * Throws NotFoundException when the key does not exist
+   */
+  async revokeApiKey(id: string): Promise<ApiKeyDto> {
+    this.logger.LogInfo(`Revoking API key ${id}`);
+
+    try {
+      const apiKey = await this.db.apiKey.findUnique({
+        where: { id },
+      });
+
+      if (!apiKey) {
+        this.logger.LogWarning(`API key not found: ${id}`);
+        throw new NotFoundException(`API key ${id} not found`);
+      }
+
+      if (apiKey.revokedAt) {
+        return this.toDto(apiKey);
+      }
+
+      const revoked = await this.db.apiKey.update({
+        where: { id },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+
+      this.logger.LogInfo(`API key revoked: ${id}`);
+      return this.toDto(revoked);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(`Failed to revoke API key: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the active API key matching a plain key
+   * Returns null for unknown and revoked keys
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+    const apiKey = await this.db.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    await this.db.apiKey.update({
+      where: { id: apiKey.id },
+      data: {
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return { id: apiKey.id, name: apiKey.name, role: apiKey.role };
+  }
+
+  private toDto(apiKey: ApiKey): ApiKeyDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role,
+      prefix: apiKey.prefix,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
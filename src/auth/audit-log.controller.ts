@@ -0,0 +1,25 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogPageDto, AuditLogQueryDto } from './dto/audit-log.dto';
+import { RequireRole } from './require-role.decorator';
+
+@Controller('admin/audit-log')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.ADMIN)
+export class AuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the requests made to the admin API' })
+  @ApiOkResponse({
+    description: 'The audit log has been successfully fetched.',
+    type: AuditLogPageDto,
+  })
+  async getAuditLog(
+    @Query() query: AuditLogQueryDto,
+  ): Promise<AuditLogPageDto> {
+    return this.auditLogService.getAuditLog(query);
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { Observable } from 'rxjs';
+import { AuditLogService } from './audit-log.service';
+import { AuthenticatedRequest } from './api-key.guard';
+
+/**
+ * Records every request authenticated by ApiKeyGuard in the audit log,
+ * including the ones that failed
+ */
+@Injectable()
+export class AuditLogInterceptor implements NestInterceptor {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const { apiKey } = request;
+
+    if (apiKey) {
+      // The status is only final once the response (or the error) is sent,
+      // and streamed exports are only done when the stream ends
+      response.once('close', () => {
+        void this.auditLogService.record({
+          apiKey,
+          method: request.method,
+          path: request.originalUrl,
+          statusCode: response.statusCode,
+          ipAddress: request.ip,
+        });
+      });
+    }
+
+    return next.handle();
+  }
+}
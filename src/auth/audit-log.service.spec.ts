@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiKeyRole } from '@prisma/client';
+import { AuditLogService } from './audit-log.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockDatabaseService = {
+  adminAuditLog: {
+    create: jest.Mock;
+    count: jest.Mock;
+    findMany: jest.Mock;
+  };
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('AuditLogService', () => {
+  let service: AuditLogService;
+  let databaseService: MockDatabaseService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    adminAuditLog: {
+      create: jest.fn(),
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const apiKey = { id: 'key-1', name: 'Ops team', role: ApiKeyRole.ADMIN };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogService>(AuditLogService);
+    databaseService = module.get(DatabaseService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('record', () => {
+    it('should store the key, its role and the request', async () => {
+      await service.record({
+        apiKey,
+        method: 'POST',
+        path: '/api/admin/reconciliation/repair?pollId=default',
+        statusCode: 200,
+        ipAddress: '127.0.0.1',
+      });
+
+      expect(databaseService.adminAuditLog.create).toHaveBeenCalledWith({
+        data: {
+          apiKeyId: 'key-1',
+          actor: 'Ops team',
+          role: ApiKeyRole.ADMIN,
+          method: 'POST',
+          path: '/api/admin/reconciliation/repair?pollId=default',
+          statusCode: 200,
+          ipAddress: '127.0.0.1',
+        },
+      });
+    });
+
+    it('should log database errors without throwing', async () => {
+      databaseService.adminAuditLog.create.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        service.record({
+          apiKey,
+          method: 'GET',
+          path: '/api/admin/audit-log',
+          statusCode: 200,
+        }),
+      ).resolves.toBeUndefined();
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to record admin action GET /api/admin/audit-log by Ops team: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should return a page of entries, newest first', async () => {
+      databaseService.adminAuditLog.count.mockResolvedValue(12);
+      databaseService.adminAuditLog.findMany.mockResolvedValue([]);
+
+      const result = await service.getAuditLog({
+        apiKeyId: 'key-1',
+        limit: 5,
+        offset: 10,
+      });
+
+      expect(result.meta).toEqual({ total: 12, limit: 5, offset: 10 });
+      expect(databaseService.adminAuditLog.findMany).toHaveBeenCalledWith({
+        where: { apiKeyId: 'key-1' },
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        take: 5,
+        skip: 10,
+      });
+    });
+  });
+});
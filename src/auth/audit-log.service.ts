@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { AuthenticatedApiKey } from './api-keys.service';
+import {
+  AuditLogPageDto,
+  AuditLogQueryDto,
+  DEFAULT_AUDIT_LOG_LIMIT,
+} from './dto/audit-log.dto';
+
+export interface AuditLogRecord {
+  apiKey: AuthenticatedApiKey;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress?: string;
+}
+
+@Injectable()
+export class AuditLogService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Append an admin request to the audit log
+   * Failures are logged and never fail the request that was audited
+   */
+  async record({
+    apiKey,
+    method,
+    path,
+    statusCode,
+    ipAddress,
+  }: AuditLogRecord): Promise<void> {
+    try {
+      await this.db.adminAuditLog.create({
+        data: {
+          apiKeyId: apiKey.id,
+          actor: apiKey.name,
+          role: apiKey.role,
+          method,
+          path,
+          statusCode,
+          ipAddress: ipAddress ?? null,
+        },
+      });
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to record admin action ${method} ${path} by ${apiKey.name}: ${error.message}`,
+        500,
+      );
+    }
+  }
+
+  async getAuditLog(query: AuditLogQueryDto = {}): Promise<AuditLogPageDto> {
+    const limit = query.limit ?? DEFAULT_AUDIT_LOG_LIMIT;
+    const offset = query.offset ?? 0;
+    this.logger.LogInfo('Fetching admin audit log');
+
+    try {
+      const where = query.apiKeyId ? { apiKeyId: query.apiKeyId } : {};
+      const [total, entries] = await Promise.all([
+        this.db.adminAuditLog.count({ where }),
+        this.db.adminAuditLog.findMany({
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          take: limit,
+          skip: offset,
+        }),
+      ]);
+
+      return {
+        data: entries,
+        meta: { total, limit, offset },
+      };
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to fetch admin audit log: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { AuditLogController } from './audit-log.controller';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogInterceptor } from './audit-log.interceptor';
+
+@Module({
+  controllers: [ApiKeysController, AuditLogController],
+  providers: [
+    ApiKeysService,
+    AuditLogService,
+    {
+      provide: APP_GUARD,
+      useClass: ApiKeyGuard,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditLogInterceptor,
+    },
+  ],
+  exports: [ApiKeysService],
+})
+export class AuthModule {}
@@ -0,0 +1,48 @@
+import { NestFactory } from '@nestjs/core';
+import { ApiKeyRole } from '@prisma/client';
+import { AppModule } from '../app.module';
+import { ApiKeysService } from './api-keys.service';
+
+const USAGE =
+  'Usage: npm run api-keys:create -- <name> [--role admin|moderator|read_only]';
+
+/**
+ * Create an API key from the command line, e.g. the first admin key
+ * Usage: npm run api-keys:create -- <name> [--role admin|moderator|read_only]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const roleIndex = args.indexOf('--role');
+  const roleArg = roleIndex === -1 ? 'admin' : args[roleIndex + 1];
+  const role = roleArg?.toUpperCase() as ApiKeyRole;
+  const name = args.find(
+    (arg, index) =>
+      !arg.startsWith('--') && (roleIndex === -1 || index !== roleIndex + 1),
+  );
+
+  if (!name || !Object.values(ApiKeyRole).includes(role)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const apiKey = await app.get(ApiKeysService).createApiKey({ name, role });
+
+    console.log(
+      `Created ${apiKey.role} API key "${apiKey.name}" (${apiKey.id})`,
+    );
+    console.log(`  • Key: ${apiKey.key}`);
+    console.log('  The key is not stored and will not be shown again');
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((e) => {
+  console.error('Error creating API key:', e.message);
+  process.exit(1);
+});
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedApiKey } from './api-keys.service';
+import { AuthenticatedRequest } from './api-key.guard';
+
+/**
+ * The API key that authenticated the current request
+ * Only set on routes marked with RequireRole
+ */
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthenticatedApiKey | undefined =>
+    ctx.switchToHttp().getRequest<AuthenticatedRequest>().apiKey,
+);
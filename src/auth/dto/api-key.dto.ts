@@ -0,0 +1,28 @@
+import { ApiKeyRole } from '@prisma/client';
+import { IsEnum, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateApiKeyDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(80)
+  name: string;
+
+  @IsEnum(ApiKeyRole)
+  role: ApiKeyRole;
+}
+
+export class ApiKeyDto {
+  id: string;
+  name: string;
+  role: ApiKeyRole;
+  // First characters of the key
+  prefix: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export class CreatedApiKeyDto extends ApiKeyDto {
+  // Only returned on creation, store it safely
+  key: string;
+}
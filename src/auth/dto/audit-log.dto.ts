@@ -0,0 +1,48 @@
+import { ApiKeyRole } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const DEFAULT_AUDIT_LOG_LIMIT = 50;
+export const MAX_AUDIT_LOG_LIMIT = 200;
+
+export class AuditLogQueryDto {
+  @IsOptional()
+  @IsString()
+  apiKeyId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_AUDIT_LOG_LIMIT)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class AuditLogEntryDto {
+  id: string;
+  apiKeyId: string;
+  // Name of the API key at the time of the request
+  actor: string;
+  role: ApiKeyRole;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
+export class AuditLogPageDto {
+  // Newest entries first
+  data: AuditLogEntryDto[];
+  meta: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
@@ -0,0 +1,33 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import {
+  ApiForbiddenResponse,
+  ApiSecurity,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+
+export const REQUIRED_ROLE_KEY = 'requiredRole';
+export const API_KEY_HEADER = 'X-API-Key';
+// Name of the security scheme registered in the Swagger document
+export const API_KEY_SECURITY = 'api-key';
+
+// Each role can do everything the roles below it can
+export const ROLE_LEVELS: Record<ApiKeyRole, number> = {
+  [ApiKeyRole.READ_ONLY]: 0,
+  [ApiKeyRole.MODERATOR]: 1,
+  [ApiKeyRole.ADMIN]: 2,
+};
+
+/**
+ * Require an API key with this role or a higher one on a route or controller
+ * Method-level roles replace the controller-level one
+ */
+export const RequireRole = (role: ApiKeyRole) =>
+  applyDecorators(
+    SetMetadata(REQUIRED_ROLE_KEY, role),
+    ApiSecurity(API_KEY_SECURITY),
+    ApiUnauthorizedResponse({ description: 'Missing or invalid API key.' }),
+    ApiForbiddenResponse({
+      description: `The API key needs the ${role} role or higher.`,
+    }),
+  );
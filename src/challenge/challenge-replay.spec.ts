@@ -0,0 +1,134 @@
+import { Test } from '@nestjs/testing';
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  INestApplication,
+  Post,
+} from '@nestjs/common';
+import * as request from 'supertest';
+import { ChallengeModule } from './challenge.module';
+import { RequireChallenge } from './require-challenge.decorator';
+import {
+  ChallengeProvider,
+  ChallengeRejectionCode,
+} from './providers/challenge-provider';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import {
+  IdempotencyService,
+  StoredResponse,
+} from '../idempotency/idempotency.service';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { SharedModule } from '../shared/shared.module';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+
+@Controller('replay')
+class ReplayController {
+  calls = 0;
+
+  @Post()
+  @RequireChallenge()
+  @Idempotent()
+  @HttpCode(HttpStatus.CREATED)
+  create() {
+    this.calls++;
+    return { call: this.calls };
+  }
+}
+
+describe('Challenged idempotent requests', () => {
+  let app: INestApplication;
+  let controller: ReplayController;
+
+  // Keeps idempotency keys in memory, with the behavior of the real service
+  const createIdempotencyService = () => {
+    const keys = new Map<string, StoredResponse | null>();
+    return {
+      lookup: jest.fn(async (key: string) => keys.get(key) ?? null),
+      claim: jest.fn(async (key: string) => {
+        if (keys.has(key)) {
+          return keys.get(key);
+        }
+        keys.set(key, null);
+        return null;
+      }),
+      complete: jest.fn(async (key: string, response: StoredResponse) => {
+        keys.set(key, response);
+      }),
+      release: jest.fn(async (key: string) => {
+        keys.delete(key);
+      }),
+    };
+  };
+
+  const challengeProvider = {
+    issue: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const send = (idempotencyKey: string) =>
+    request(app.getHttpServer())
+      .post('/replay')
+      .set('X-Challenge', 'challenge-1')
+      .set('X-Challenge-Solution', '42')
+      .set('Idempotency-Key', idempotencyKey)
+      .send({ country: 'ARG' });
+
+  beforeEach(async () => {
+    // The challenge can only be redeemed once
+    challengeProvider.verify
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue(ChallengeRejectionCode.ALREADY_USED);
+
+    // ChallengeModule is imported first on purpose: its guard must not rely
+    // on IdempotencyGuard running before it
+    const module = await Test.createTestingModule({
+      imports: [SharedModule, ChallengeModule, IdempotencyModule],
+      controllers: [ReplayController],
+    })
+      .overrideProvider(DatabaseService)
+      .useValue({})
+      .overrideProvider(LoggerService)
+      .useValue({
+        LogInfo: jest.fn(),
+        LogWarning: jest.fn(),
+        LogError: jest.fn(),
+      })
+      .overrideProvider(ChallengeProvider)
+      .useValue(challengeProvider)
+      .overrideProvider(IdempotencyService)
+      .useValue(createIdempotencyService())
+      .compile();
+
+    app = module.createNestApplication();
+    await app.init();
+    controller = app.get(ReplayController);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.clearAllMocks();
+  });
+
+  it('should replay a retry without a new challenge', async () => {
+    const first = await send('key-1');
+    const retry = await send('key-1');
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(controller.calls).toBe(1);
+    expect(challengeProvider.verify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still reject a spent challenge on a new request', async () => {
+    await send('key-1');
+    const other = await send('key-2');
+
+    expect(other.status).toBe(403);
+    expect(other.body.code).toBe(ChallengeRejectionCode.ALREADY_USED);
+    expect(controller.calls).toBe(1);
+  });
+});
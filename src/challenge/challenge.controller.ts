@@ -0,0 +1,29 @@
+import { Controller, Get } from '@nestjs/common';
+import {
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { ChallengeProvider } from './providers/challenge-provider';
+import { ChallengeDto } from './dto/challenge.dto';
+
+@Controller('votes/challenge')
+@ApiTags('votes')
+@RateLimit('read-ip')
+@ApiTooManyRequestsResponse({ description: 'Rate limit exceeded.' })
+export class ChallengeController {
+  constructor(private readonly challengeProvider: ChallengeProvider) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get a challenge to solve before voting' })
+  @ApiOkResponse({
+    description:
+      'A signed, expiring challenge. Send it back with its solution in the X-Challenge and X-Challenge-Solution headers when submitting a vote.',
+  })
+  async getChallenge(): Promise<{ data: ChallengeDto }> {
+    const data = await this.challengeProvider.issue();
+    return { data };
+  }
+}
@@ -0,0 +1,259 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { ChallengeGuard } from './challenge.guard';
+import {
+  ChallengeProvider,
+  ChallengeRejectionCode,
+} from './providers/challenge-provider';
+import { ProofOfWorkChallengeProvider } from './providers/proof-of-work.provider';
+import { IdempotencyGuard } from '../idempotency/idempotency.guard';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockDatabaseService = {
+  challengeRedemption: {
+    createMany: jest.Mock;
+    deleteMany: jest.Mock;
+  };
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ChallengeGuard', () => {
+  let guard: ChallengeGuard;
+  let provider: ProofOfWorkChallengeProvider;
+  let reflector: Reflector;
+  let databaseService: MockDatabaseService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    challengeRedemption: {
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const createContext = (headers: Record<string, string>) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          originalUrl: '/api/votes',
+          ip: '203.0.113.7',
+          get: (name: string) => headers[name],
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  const solves = (challenge: string, nonce: string, difficulty: number) =>
+    createHash('sha256')
+      .update(`${challenge}:${nonce}`)
+      .digest('hex')
+      .split('')
+      .map((digit) => parseInt(digit, 16).toString(2).padStart(4, '0'))
+      .join('')
+      .startsWith('0'.repeat(difficulty));
+
+  const findNonce = (challenge: string, solved = true): string => {
+    let nonce = 0;
+    while (solves(challenge, nonce.toString(), 8) !== solved) {
+      nonce++;
+    }
+    return nonce.toString();
+  };
+
+  const rejectionOf = (headers: Record<string, string>) =>
+    guard.canActivate(createContext(headers)).catch((e) => e);
+
+  beforeEach(async () => {
+    process.env.CHALLENGE_DIFFICULTY = '8';
+    process.env.CHALLENGE_SECRET = 'test-secret';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChallengeGuard,
+        Reflector,
+        {
+          provide: ChallengeProvider,
+          useClass: ProofOfWorkChallengeProvider,
+        },
+        {
+          provide: IdempotencyGuard,
+          useValue: { resolve: jest.fn() },
+        },
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<ChallengeGuard>(ChallengeGuard);
+    provider = module.get(ChallengeProvider);
+    reflector = module.get<Reflector>(Reflector);
+    databaseService = module.get(DatabaseService);
+    loggerService = module.get(LoggerService);
+
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+    databaseService.challengeRedemption.createMany.mockResolvedValue({
+      count: 1,
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.CHALLENGE_DIFFICULTY;
+    delete process.env.CHALLENGE_SECRET;
+    jest.useRealTimers();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should let routes without RequireChallenge through', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+    await expect(guard.canActivate(createContext({}))).resolves.toBe(true);
+  });
+
+  it('should issue a signed challenge with the configured difficulty', async () => {
+    const result = await provider.issue();
+
+    expect(result).toEqual({
+      provider: 'proof-of-work',
+      challenge: expect.stringMatching(/^[\w-]+\.[\w-]+$/),
+      expiresAt: expect.any(Date),
+      algorithm: 'sha256',
+      difficulty: 8,
+    });
+  });
+
+  it('should accept a solved challenge and redeem it', async () => {
+    const { challenge } = await provider.issue();
+
+    await expect(
+      guard.canActivate(
+        createContext({
+          'X-Challenge': challenge,
+          'X-Challenge-Solution': findNonce(challenge),
+        }),
+      ),
+    ).resolves.toBe(true);
+    expect(databaseService.challengeRedemption.createMany).toHaveBeenCalledWith(
+      {
+        data: [{ id: expect.any(String), expiresAt: expect.any(Date) }],
+        skipDuplicates: true,
+      },
+    );
+  });
+
+  it('should require a solution', async () => {
+    const error = await rejectionOf({});
+
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect(error.getResponse()).toEqual({
+      statusCode: 403,
+      message: 'A solved challenge from GET /api/votes/challenge is required',
+      error: 'Forbidden',
+      code: ChallengeRejectionCode.REQUIRED,
+    });
+    expect(loggerService.LogWarning).toHaveBeenCalledWith(
+      'Rejected challenge (CHALLENGE_REQUIRED): POST /api/votes, ip=203.0.113.7',
+    );
+  });
+
+  it('should reject a tampered challenge', async () => {
+    const { challenge } = await provider.issue();
+    const [, signature] = challenge.split('.');
+    const forged = `${Buffer.from(
+      JSON.stringify({
+        id: 'forged',
+        difficulty: 0,
+        expiresAt: Date.now() + 1000,
+      }),
+    ).toString('base64url')}.${signature}`;
+
+    const error = await rejectionOf({
+      'X-Challenge': forged,
+      'X-Challenge-Solution': '0',
+    });
+
+    expect(error.getResponse().code).toBe(ChallengeRejectionCode.INVALID);
+    expect(
+      databaseService.challengeRedemption.createMany,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should reject a wrong solution', async () => {
+    const { challenge } = await provider.issue();
+    const error = await rejectionOf({
+      'X-Challenge': challenge,
+      'X-Challenge-Solution': findNonce(challenge, false),
+    });
+
+    expect(error.getResponse().code).toBe(ChallengeRejectionCode.NOT_SOLVED);
+  });
+
+  it('should reject an expired challenge', async () => {
+    jest.useFakeTimers();
+    const { challenge } = await provider.issue();
+    const solution = findNonce(challenge);
+    jest.advanceTimersByTime(301 * 1000);
+
+    const error = await rejectionOf({
+      'X-Challenge': challenge,
+      'X-Challenge-Solution': solution,
+    });
+
+    expect(error.getResponse().code).toBe(ChallengeRejectionCode.EXPIRED);
+  });
+
+  it('should reject a challenge that was already redeemed', async () => {
+    databaseService.challengeRedemption.createMany.mockResolvedValue({
+      count: 0,
+    });
+    const { challenge } = await provider.issue();
+
+    const error = await rejectionOf({
+      'X-Challenge': challenge,
+      'X-Challenge-Solution': findNonce(challenge),
+    });
+
+    expect(error.getResponse().code).toBe(ChallengeRejectionCode.ALREADY_USED);
+  });
+
+  describe('purgeExpiredRedemptions', () => {
+    it('should delete redemptions past their expiry', async () => {
+      databaseService.challengeRedemption.deleteMany.mockResolvedValue({
+        count: 3,
+      });
+
+      await expect(provider.purgeExpiredRedemptions()).resolves.toBe(3);
+      expect(
+        databaseService.challengeRedemption.deleteMany,
+      ).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) } },
+      });
+    });
+  });
+});
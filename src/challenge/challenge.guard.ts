@@ -0,0 +1,97 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  IdempotencyGuard,
+  IdempotentRequest,
+} from 'src/idempotency/idempotency.guard';
+import { LoggerService } from 'src/shared/services/logger.service';
+import {
+  CHALLENGE_HEADER,
+  CHALLENGE_REQUIRED_KEY,
+  CHALLENGE_SOLUTION_HEADER,
+} from './require-challenge.decorator';
+import {
+  ChallengeProvider,
+  ChallengeRejectionCode,
+} from './providers/challenge-provider';
+
+// Longer solutions are rejected without hashing them
+const MAX_SOLUTION_LENGTH = 256;
+
+const REJECTION_MESSAGES: Record<ChallengeRejectionCode, string> = {
+  [ChallengeRejectionCode.REQUIRED]:
+    'A solved challenge from GET /api/votes/challenge is required',
+  [ChallengeRejectionCode.INVALID]: 'The challenge is invalid',
+  [ChallengeRejectionCode.EXPIRED]:
+    'The challenge has expired, please request a new one',
+  [ChallengeRejectionCode.NOT_SOLVED]: 'The challenge solution is incorrect',
+  [ChallengeRejectionCode.ALREADY_USED]:
+    'The challenge has already been used, please request a new one',
+};
+
+/**
+ * Checks the challenge solution of routes marked with RequireChallenge
+ * before their handler runs
+ */
+@Injectable()
+export class ChallengeGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly provider: ChallengeProvider,
+    private readonly idempotencyGuard: IdempotencyGuard,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<boolean>(
+      CHALLENGE_REQUIRED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!required) {
+      return true;
+    }
+
+    // A retry replaying its first response was already checked back then,
+    // and its challenge is spent. The key is looked up here whether or not
+    // IdempotencyGuard already ran
+    const idempotency = await this.idempotencyGuard.resolve(context);
+    if (idempotency?.replay) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<IdempotentRequest>();
+
+    const challenge = request.get(CHALLENGE_HEADER);
+    const solution = request.get(CHALLENGE_SOLUTION_HEADER);
+
+    const rejection =
+      !solution || solution.length > MAX_SOLUTION_LENGTH
+        ? ChallengeRejectionCode.REQUIRED
+        : await this.provider.verify({
+            challenge,
+            solution,
+            ipAddress: request.ip,
+          });
+
+    if (rejection) {
+      this.logger.LogWarning(
+        `Rejected challenge (${rejection}): ${request.method} ${request.originalUrl}, ip=${request.ip}`,
+      );
+      throw new ForbiddenException({
+        statusCode: HttpStatus.FORBIDDEN,
+        message: REJECTION_MESSAGES[rejection],
+        error: 'Forbidden',
+        code: rejection,
+      });
+    }
+
+    return true;
+  }
+}
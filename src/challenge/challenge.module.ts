@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ChallengeController } from './challenge.controller';
+import { ChallengeGuard } from './challenge.guard';
+import { ChallengeProvider } from './providers/challenge-provider';
+import { ProofOfWorkChallengeProvider } from './providers/proof-of-work.provider';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+
+@Module({
+  imports: [IdempotencyModule],
+  controllers: [ChallengeController],
+  providers: [
+    {
+      provide: ChallengeProvider,
+      useClass: ProofOfWorkChallengeProvider,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: ChallengeGuard,
+    },
+  ],
+})
+export class ChallengeModule {}
@@ -0,0 +1,10 @@
+export class ChallengeDto {
+  // Name of the provider that issued the challenge
+  provider: string;
+  // Opaque value to send back in the X-Challenge header
+  challenge: string;
+  expiresAt: Date;
+  // Proof of work: hash function and number of leading zero bits required
+  algorithm?: string;
+  difficulty?: number;
+}
@@ -0,0 +1,36 @@
+import { ChallengeDto } from '../dto/challenge.dto';
+
+export enum ChallengeRejectionCode {
+  REQUIRED = 'CHALLENGE_REQUIRED',
+  INVALID = 'CHALLENGE_INVALID',
+  EXPIRED = 'CHALLENGE_EXPIRED',
+  NOT_SOLVED = 'CHALLENGE_NOT_SOLVED',
+  ALREADY_USED = 'CHALLENGE_ALREADY_USED',
+}
+
+export interface ChallengeSolution {
+  // Value of the X-Challenge header, unused by providers that issue nothing
+  challenge?: string;
+  // Value of the X-Challenge-Solution header
+  solution: string;
+  ipAddress?: string;
+}
+
+/**
+ * Proof that a vote submission comes from a client willing to do some work
+ * Injected by class token so an external CAPTCHA verifier can replace the
+ * built-in proof of work
+ */
+export abstract class ChallengeProvider {
+  abstract readonly name: string;
+
+  abstract issue(): Promise<ChallengeDto>;
+
+  /**
+   * Check a solution and consume it, resolving to the reason it was
+   * rejected or null when it passes. A solution only passes once.
+   */
+  abstract verify(
+    solution: ChallengeSolution,
+  ): Promise<ChallengeRejectionCode | null>;
+}
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from 'crypto';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { ChallengeDto } from '../dto/challenge.dto';
+import {
+  ChallengeProvider,
+  ChallengeRejectionCode,
+  ChallengeSolution,
+} from './challenge-provider';
+
+interface ProofOfWorkPayload {
+  id: string;
+  difficulty: number;
+  // Milliseconds since the epoch
+  expiresAt: number;
+}
+
+const leadingZeroBits = (hash: Buffer): number => {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+/**
+ * Self-contained proof of work: the client must find a nonce whose
+ * SHA-256 of "<challenge>:<nonce>" starts with `difficulty` zero bits
+ * Challenges are HMAC-signed, so nothing is stored until one is redeemed
+ */
+@Injectable()
+export class ProofOfWorkChallengeProvider extends ChallengeProvider {
+  readonly name = 'proof-of-work';
+
+  private readonly difficulty = Number(process.env.CHALLENGE_DIFFICULTY) || 20;
+  private readonly ttlSeconds =
+    Number(process.env.CHALLENGE_TTL_SECONDS) || 300;
+  // Without a configured secret, challenges only verify on the instance that
+  // issued them and do not survive a restart
+  private readonly secret =
+    process.env.CHALLENGE_SECRET || randomBytes(32).toString('hex');
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: LoggerService,
+  ) {
+    super();
+  }
+
+  async issue(): Promise<ChallengeDto> {
+    const expiresAt = new Date(Date.now() + this.ttlSeconds * 1000);
+    const payload: ProofOfWorkPayload = {
+      id: randomUUID(),
+      difficulty: this.difficulty,
+      expiresAt: expiresAt.getTime(),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      provider: this.name,
+      challenge: `${encoded}.${this.sign(encoded)}`,
+      expiresAt,
+      algorithm: 'sha256',
+      difficulty: this.difficulty,
+    };
+  }
+
+  async verify({
+    challenge,
+    solution,
+  }: ChallengeSolution): Promise<ChallengeRejectionCode | null> {
+    if (!challenge) {
+      return ChallengeRejectionCode.REQUIRED;
+    }
+
+    const payload = this.decode(challenge);
+    if (!payload) {
+      return ChallengeRejectionCode.INVALID;
+    }
+
+    if (payload.expiresAt < Date.now()) {
+      return ChallengeRejectionCode.EXPIRED;
+    }
+
+    const hash = createHash('sha256')
+      .update(`${challenge}:${solution}`)
+      .digest();
+    if (leadingZeroBits(hash) < payload.difficulty) {
+      return ChallengeRejectionCode.NOT_SOLVED;
+    }
+
+    // The primary key makes redemption atomic across concurrent requests
+    const { count } = await this.db.challengeRedemption.createMany({
+      data: [{ id: payload.id, expiresAt: new Date(payload.expiresAt) }],
+      skipDuplicates: true,
+    });
+
+    return count === 0 ? ChallengeRejectionCode.ALREADY_USED : null;
+  }
+
+  /**
+   * Remove redemptions of challenges that can no longer be submitted
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredRedemptions(): Promise<number> {
+    try {
+      const { count } = await this.db.challengeRedemption.deleteMany({
+        where: {
+          expiresAt: {
+            lt: new Date(),
+          },
+        },
+      });
+
+      this.logger.LogInfo(`Purged ${count} expired challenge redemptions`);
+      return count;
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to purge expired challenge redemptions: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  private sign(encoded: string): string {
+    return createHmac('sha256', this.secret)
+      .update(encoded)
+      .digest('base64url');
+  }
+
+  private decode(challenge: string): ProofOfWorkPayload | null {
+    const [encoded, signature, ...rest] = challenge.split('.');
+    if (!encoded || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = new TextEncoder().encode(this.sign(encoded));
+    const actual = new TextEncoder().encode(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    // The signature proves the payload was issued here
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  }
+}
@@ -0,0 +1,28 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiForbiddenResponse, ApiHeader } from '@nestjs/swagger';
+
+export const CHALLENGE_REQUIRED_KEY = 'challengeRequired';
+export const CHALLENGE_HEADER = 'X-Challenge';
+export const CHALLENGE_SOLUTION_HEADER = 'X-Challenge-Solution';
+
+/**
+ * Require a solved challenge from GET /votes/challenge on a route
+ */
+export const RequireChallenge = () =>
+  applyDecorators(
+    SetMetadata(CHALLENGE_REQUIRED_KEY, true),
+    ApiHeader({
+      name: CHALLENGE_HEADER,
+      description: 'The challenge returned by GET /api/votes/challenge.',
+      required: true,
+    }),
+    ApiHeader({
+      name: CHALLENGE_SOLUTION_HEADER,
+      description: 'The nonce that solves the challenge.',
+      required: true,
+    }),
+    ApiForbiddenResponse({
+      description:
+        'The challenge is missing, invalid, expired, not solved or already used.',
+    }),
+  );
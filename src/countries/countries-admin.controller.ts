@@ -0,0 +1,33 @@
+import { Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import {
+  ApiInternalServerErrorResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { CountriesService } from './countries.service';
+import { CountryCatalogStatusDto } from './dto/country.dto';
+import { RequireRole } from '../auth/require-role.decorator';
+
+@Controller('admin/countries')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.ADMIN)
+export class CountriesAdminController {
+  constructor(private readonly countriesService: CountriesService) {}
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reload the country catalog from its providers' })
+  @ApiOkResponse({
+    description: 'The country catalog has been refreshed.',
+    type: CountryCatalogStatusDto,
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'No country provider could be reached.',
+  })
+  async refresh(): Promise<{ data: CountryCatalogStatusDto }> {
+    const data = await this.countriesService.refreshCountries();
+    return { data };
+  }
+}
@@ -1,29 +1,50 @@
 import { Controller, Get } from '@nestjs/common';
 import { CountriesService } from './countries.service';
 import { CountryDto } from './dto/country.dto';
-import { ApiCreatedResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import {
+  ApiCreatedResponse,
+  ApiHeader,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { Language } from '../shared/decorators/language.decorator';
+import { localizeCountryName } from './utils/country-name.util';
 
 @Controller('countries')
 @ApiTags('countries')
+@RateLimit('read-ip')
+@ApiTooManyRequestsResponse({ description: 'Rate limit exceeded.' })
 export class CountriesController {
   constructor(private readonly countriesService: CountriesService) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all countries' })
+  @ApiQuery({
+    name: 'lang',
+    required: false,
+    description: 'Language of the names, overrides Accept-Language',
+  })
+  @ApiHeader({ name: 'Accept-Language', required: false })
   @ApiCreatedResponse({
     description: 'The countries have been successfully fetched.',
     type: [CountryDto],
   })
-  async getAllCountries(): Promise<{ data: CountryDto[] }> {
+  async getAllCountries(
+    @Language() language: string,
+  ): Promise<{ data: CountryDto[] }> {
     const countries = await this.countriesService.getAllCountries();
+    const collator = new Intl.Collator(language);
 
     // Transform to simple DTO for dropdown
     const data = countries
       .map((country) => ({
-        name: country.name.common,
+        name: localizeCountryName(country, language),
         code: country.cca3,
       }))
-      .sort((a, b) => a.name.localeCompare(b.name));
+      .sort((a, b) => collator.compare(a.name, b.name));
 
     return { data };
   }
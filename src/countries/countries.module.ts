@@ -1,10 +1,49 @@
 import { Module } from '@nestjs/common';
+import { join } from 'path';
+import { DatabaseService } from 'src/shared/services/database.service';
 import { CountriesController } from './countries.controller';
+import { CountriesAdminController } from './countries-admin.controller';
 import { CountriesService } from './countries.service';
+import {
+  COUNTRY_PROVIDERS,
+  CountryProvider,
+  DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS,
+} from './providers/country-provider';
+import { RestCountriesProvider } from './providers/rest-countries.provider';
+import { SnapshotCountryProvider } from './providers/snapshot-country.provider';
+import { DatabaseCountryProvider } from './providers/database-country.provider';
 
 @Module({
-  controllers: [CountriesController],
-  providers: [CountriesService],
+  controllers: [CountriesController, CountriesAdminController],
+  providers: [
+    CountriesService,
+    {
+      provide: COUNTRY_PROVIDERS,
+      inject: [DatabaseService],
+      useFactory: (db: DatabaseService): CountryProvider[] =>
+        (process.env.COUNTRY_PROVIDERS || 'rest,snapshot')
+          .split(',')
+          .map((name) => {
+            switch (name.trim()) {
+              case 'rest':
+                return new RestCountriesProvider(
+                  process.env.RESTCOUNTRIES_API_URL,
+                  Number(process.env.COUNTRY_PROVIDER_TIMEOUT_MS) ||
+                    DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS,
+                );
+              case 'snapshot':
+                return new SnapshotCountryProvider(
+                  process.env.COUNTRIES_SNAPSHOT_PATH ||
+                    join(__dirname, 'data', 'countries.json'),
+                );
+              case 'database':
+                return new DatabaseCountryProvider(db);
+              default:
+                throw new Error(`Unknown country provider: ${name}`);
+            }
+          }),
+    },
+  ],
   exports: [CountriesService],
 })
 export class CountriesModule {}
@@ -1,11 +1,24 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { join } from 'path';
 import { CountriesService, RestCountry } from './countries.service';
 import { LoggerService } from '../shared/services/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  COUNTRY_PROVIDERS,
+  CountryProvider,
+} from './providers/country-provider';
+import { RestCountriesProvider } from './providers/rest-countries.provider';
+import { SnapshotCountryProvider } from './providers/snapshot-country.provider';
 import axios from 'axios';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+type MockMetricsService = {
+  recordCountriesCacheRead: jest.Mock;
+  startCountryCatalogFetch: jest.Mock;
+};
+
 type MockLoggerService = {
   LogInfo: jest.Mock;
   LogWarning: jest.Mock;
@@ -14,8 +27,15 @@ type MockLoggerService = {
 
 describe('CountriesService', () => {
   let service: CountriesService;
+  let metricsService: MockMetricsService;
   let loggerService: MockLoggerService;
 
+  const recordFetch = jest.fn();
+  const mockMetricsService = {
+    recordCountriesCacheRead: jest.fn(),
+    startCountryCatalogFetch: jest.fn(() => recordFetch),
+  };
+
   const mockLoggerService = {
     LogInfo: jest.fn(),
     LogWarning: jest.fn(),
@@ -55,12 +75,48 @@ describe('CountriesService', () => {
     },
   ];
 
-  beforeEach(async () => {
-    process.env.RESTCOUNTRIES_API_URL = 'https://restcountries.com/v3.1';
+  const createService = async (providers: CountryProvider[]) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CountriesService,
+        {
+          provide: COUNTRY_PROVIDERS,
+          useValue: providers,
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService,
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    return module.get<CountriesService>(CountriesService);
+  };
+
+  const mockProvider = (name: string, live = true) => ({
+    name,
+    live,
+    fetchCountries: jest.fn(),
+  });
 
+  beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CountriesService,
+        {
+          provide: COUNTRY_PROVIDERS,
+          useValue: [
+            new RestCountriesProvider('https://restcountries.com/v3.1'),
+          ],
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService,
+        },
         {
           provide: LoggerService,
           useValue: mockLoggerService,
@@ -69,6 +125,7 @@ describe('CountriesService', () => {
     }).compile();
 
     service = module.get<CountriesService>(CountriesService);
+    metricsService = module.get(MetricsService);
     loggerService = module.get(LoggerService);
 
     // Reset cache before each test
@@ -87,12 +144,20 @@ describe('CountriesService', () => {
 
       expect(result).toEqual(mockCountriesData);
       expect(mockedAxios.get).toHaveBeenCalledWith(
-        'https://restcountries.com/v3.1/all?fields=name,cca3,capital,region,subregion',
+        'https://restcountries.com/v3.1/all?fields=name,cca2,cca3,ccn3,capital,region,subregion,altSpellings,translations',
+        { timeout: 10000 },
       );
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
         'Fetching countries from REST Countries API...',
       );
       expect(loggerService.LogInfo).toHaveBeenCalledWith('Fetched 3 countries');
+      expect(metricsService.recordCountriesCacheRead).toHaveBeenCalledWith(
+        false,
+      );
+      expect(metricsService.startCountryCatalogFetch).toHaveBeenCalledWith(
+        'REST Countries API',
+      );
+      expect(recordFetch).toHaveBeenCalledWith('success');
     });
 
     it('should return cached countries on subsequent calls', async () => {
@@ -110,6 +175,9 @@ describe('CountriesService', () => {
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
         'Returning cached countries',
       );
+      expect(metricsService.recordCountriesCacheRead).toHaveBeenCalledWith(
+        true,
+      );
     });
 
     it('should handle API errors', async () => {
@@ -119,8 +187,11 @@ describe('CountriesService', () => {
       await expect(service.getAllCountries()).rejects.toThrow(
         'Failed to fetch countries',
       );
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Failed to fetch countries from REST Countries API: Network error',
+      );
       expect(loggerService.LogError).toHaveBeenCalledWith(
-        'Failed to fetch countries from API: Network error',
+        'Failed to fetch countries from every country provider',
         500,
       );
     });
@@ -131,8 +202,175 @@ describe('CountriesService', () => {
       await service.getAllCountries();
 
       expect(mockedAxios.get).toHaveBeenCalledWith(
-        expect.stringContaining('fields=name,cca3,capital,region,subregion'),
+        expect.stringContaining(
+          'fields=name,cca2,cca3,ccn3,capital,region,subregion,altSpellings,translations',
+        ),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('provider fallback', () => {
+    it('should use the next provider when one fails', async () => {
+      const rest = mockProvider('REST Countries API');
+      const snapshot = mockProvider('bundled snapshot', false);
+      rest.fetchCountries.mockRejectedValue(new Error('Network error'));
+      snapshot.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([rest, snapshot]);
+
+      const result = await service.getAllCountries();
+
+      expect(result).toEqual(mockCountriesData);
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Failed to fetch countries from REST Countries API: Network error',
+      );
+      expect(recordFetch.mock.calls).toEqual([['failure'], ['success']]);
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should use the next provider when one does not answer in time', async () => {
+      process.env.COUNTRY_PROVIDER_TIMEOUT_MS = '50';
+      const rest = mockProvider('REST Countries API');
+      const snapshot = mockProvider('bundled snapshot', false);
+      rest.fetchCountries.mockReturnValue(new Promise(() => undefined));
+      snapshot.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([rest, snapshot]);
+      delete process.env.COUNTRY_PROVIDER_TIMEOUT_MS;
+
+      const result = await service.getAllCountries();
+
+      expect(result).toEqual(mockCountriesData);
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Failed to fetch countries from REST Countries API: No answer within 50ms',
+      );
+      expect(recordFetch.mock.calls).toEqual([['failure'], ['success']]);
+    });
+
+    it('should not ask later providers once one answers', async () => {
+      const rest = mockProvider('REST Countries API');
+      const snapshot = mockProvider('bundled snapshot', false);
+      rest.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([rest, snapshot]);
+
+      await service.getAllCountries();
+
+      expect(snapshot.fetchCountries).not.toHaveBeenCalled();
+    });
+
+    it('should load the bundled snapshot', async () => {
+      service = await createService([
+        new SnapshotCountryProvider(join(__dirname, 'data', 'countries.json')),
+      ]);
+
+      const country = await service.getCountryByCode('ARG');
+
+      expect(country).toEqual({
+        name: { common: 'Argentina', official: 'Argentine Republic' },
+        cca2: 'AR',
+        cca3: 'ARG',
+        ccn3: '032',
+        capital: ['Buenos Aires'],
+        region: 'Americas',
+        subregion: 'South America',
+        altSpellings: ['AR', 'Argentine Republic', 'República Argentina'],
+        translations: expect.objectContaining({
+          por: { official: 'República Argentina', common: 'Argentina' },
+        }),
+      });
+    });
+  });
+
+  describe('cache expiry', () => {
+    let provider: ReturnType<typeof mockProvider>;
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      process.env.COUNTRIES_CACHE_TTL_SECONDS = '60';
+      provider = mockProvider('REST Countries API');
+      provider.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([provider]);
+      await service.getAllCountries();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      delete process.env.COUNTRIES_CACHE_TTL_SECONDS;
+    });
+
+    it('should serve the stale cache while refreshing in the background', async () => {
+      const updated = [mockCountriesData[0]];
+      provider.fetchCountries.mockResolvedValue(updated);
+      jest.advanceTimersByTime(61 * 1000);
+
+      const stale = await service.getAllCountries();
+
+      expect(stale).toEqual(mockCountriesData);
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Returning stale countries while refreshing',
       );
+      expect(provider.fetchCountries).toHaveBeenCalledTimes(2);
+
+      await jest.runAllTimersAsync();
+
+      expect(await service.getAllCountries()).toEqual(updated);
+    });
+
+    it('should keep the stale cache when the refresh fails', async () => {
+      provider.fetchCountries.mockRejectedValue(new Error('Network error'));
+      jest.advanceTimersByTime(61 * 1000);
+
+      await service.getAllCountries();
+      await jest.runAllTimersAsync();
+
+      expect(await service.getAllCountries()).toEqual(mockCountriesData);
+    });
+  });
+
+  describe('refreshCountries', () => {
+    it('should reload the catalog and report its source', async () => {
+      const provider = mockProvider('bundled snapshot', false);
+      provider.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([provider]);
+      await service.getAllCountries();
+
+      const result = await service.refreshCountries();
+
+      expect(provider.fetchCountries).toHaveBeenCalledTimes(2);
+      expect(result).toEqual({
+        source: 'bundled snapshot',
+        live: false,
+        countries: 3,
+        refreshedAt: expect.any(Date),
+      });
+    });
+
+    it('should expose the status of the cached catalog', async () => {
+      const provider = mockProvider('REST Countries API');
+      provider.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([provider]);
+
+      expect(service.getCatalogStatus()).toBeNull();
+      await service.getAllCountries();
+
+      expect(service.getCatalogStatus()).toEqual({
+        source: 'REST Countries API',
+        live: true,
+        countries: 3,
+        refreshedAt: expect.any(Date),
+      });
+    });
+
+    it('should share a refresh that is already running', async () => {
+      const provider = mockProvider('REST Countries API');
+      provider.fetchCountries.mockResolvedValue(mockCountriesData);
+      service = await createService([provider]);
+
+      await Promise.all([
+        service.getAllCountries(),
+        service.refreshCountries(),
+      ]);
+
+      expect(provider.fetchCountries).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -197,6 +435,66 @@ describe('CountriesService', () => {
     });
   });
 
+  describe('findCountry', () => {
+    beforeEach(async () => {
+      service = await createService([
+        new SnapshotCountryProvider(join(__dirname, 'data', 'countries.json')),
+      ]);
+    });
+
+    it.each([
+      'USA',
+      'us',
+      'US',
+      '840',
+      'United States',
+      'united states of america',
+    ])('should resolve "%s" to the United States', async (identifier) => {
+      const result = await service.findCountry(identifier);
+
+      expect(result?.cca3).toBe('USA');
+    });
+
+    it('should ignore accents and punctuation', async () => {
+      const result = await service.findCountry('cote d ivoire');
+
+      expect(result?.cca3).toBe('CIV');
+    });
+
+    it('should pad numeric codes', async () => {
+      const result = await service.findCountry('32');
+
+      expect(result?.cca3).toBe('ARG');
+    });
+
+    it('should return null when nothing matches', async () => {
+      const result = await service.findCountry('Atlantis');
+
+      expect(result).toBeNull();
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Country not found for identifier: Atlantis',
+      );
+    });
+  });
+
+  describe('suggestCountries', () => {
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValue({ data: mockCountriesData });
+    });
+
+    it('should return the closest countries by name', async () => {
+      const result = await service.suggestCountries('Brazl');
+
+      expect(result.map((country) => country.cca3)).toEqual(['BRA']);
+    });
+
+    it('should return nothing for unrelated input', async () => {
+      const result = await service.suggestCountries('Xq');
+
+      expect(result).toEqual([]);
+    });
+  });
+
   describe('getCountriesByCodes', () => {
     beforeEach(() => {
       mockedAxios.get.mockResolvedValue({ data: mockCountriesData });
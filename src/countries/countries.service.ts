@@ -1,48 +1,167 @@
-import { Injectable } from '@nestjs/common';
-import axios from 'axios';
+import { Inject, Injectable } from '@nestjs/common';
 import { LoggerService } from 'src/shared/services/logger.service';
+import { normalizeText, similarity } from 'src/shared/utils/text-match.util';
+import { MetricsService } from '../metrics/metrics.service';
+import { CountryCatalogStatusDto } from './dto/country.dto';
+import {
+  COUNTRY_PROVIDERS,
+  CountryProvider,
+  DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS,
+} from './providers/country-provider';
 
 export interface RestCountry {
   name: {
     common: string;
     official: string;
   };
+  cca2?: string;
   cca3: string;
+  ccn3?: string;
   capital?: string[];
   region: string;
   subregion?: string;
+  altSpellings?: string[];
+  // Keyed by ISO 639-3 language code
+  translations?: Record<string, { official: string; common: string }>;
 }
 
+// Identifiers a country can be looked up by, earlier ones win on collisions
+const COUNTRY_IDENTIFIERS: ((country: RestCountry) => string[])[] = [
+  (country) => [country.cca3],
+  (country) => [country.cca2],
+  (country) => [country.ccn3],
+  (country) => [country.name.common],
+  (country) => [country.name.official],
+  (country) => country.altSpellings ?? [],
+];
+
+const MIN_SUGGESTION_SCORE = 0.6;
+
+/**
+ * Serves the country catalog from an in-memory cache
+ * The catalog comes from the first provider of the fallback chain that
+ * answers in time. Once the cache is older than its TTL the stale copy keeps being
+ * served while a refresh runs in the background
+ */
 @Injectable()
 export class CountriesService {
   private countriesCache: RestCountry[] | null = null;
-  private readonly apiUrl = process.env.RESTCOUNTRIES_API_URL;
+  private cacheStatus: CountryCatalogStatusDto | null = null;
+  private pendingRefresh: Promise<RestCountry[]> | null = null;
+  private identifierIndex: {
+    countries: RestCountry[];
+    byIdentifier: Map<string, RestCountry>;
+  } | null = null;
+  private readonly cacheTtlMs =
+    (Number(process.env.COUNTRIES_CACHE_TTL_SECONDS) || 86400) * 1000;
+  private readonly providerTimeoutMs =
+    Number(process.env.COUNTRY_PROVIDER_TIMEOUT_MS) ||
+    DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS;
 
-  constructor(private readonly logger: LoggerService) {}
+  constructor(
+    @Inject(COUNTRY_PROVIDERS)
+    private readonly providers: CountryProvider[],
+    private readonly metricsService: MetricsService,
+    private readonly logger: LoggerService,
+  ) {}
 
   async getAllCountries(): Promise<RestCountry[]> {
-    if (this.countriesCache) {
+    this.metricsService.recordCountriesCacheRead(this.countriesCache !== null);
+
+    if (!this.countriesCache) {
+      return this.loadCountries();
+    }
+
+    if (Date.now() - this.cacheStatus.refreshedAt.getTime() < this.cacheTtlMs) {
       this.logger.LogInfo('Returning cached countries');
-      return this.countriesCache;
+    } else {
+      this.logger.LogInfo('Returning stale countries while refreshing');
+      // Failures are logged by loadCountries, the stale copy stays in place
+      this.loadCountries().catch(() => undefined);
     }
 
-    try {
-      this.logger.LogInfo('Fetching countries from REST Countries API...');
-      const response = await axios.get<RestCountry[]>(
-        `${this.apiUrl}/all?fields=name,cca3,capital,region,subregion`,
-      );
+    return this.countriesCache;
+  }
+
+  /**
+   * Reload the catalog now, regardless of the cache age
+   */
+  async refreshCountries(): Promise<CountryCatalogStatusDto> {
+    this.logger.LogInfo('Refreshing countries on request');
+    await this.loadCountries();
+    return this.cacheStatus;
+  }
+
+  /**
+   * Where the cached catalog came from, null until it is first loaded
+   */
+  getCatalogStatus(): CountryCatalogStatusDto | null {
+    return this.cacheStatus;
+  }
 
-      this.countriesCache = response.data;
-      this.logger.LogInfo(`Fetched ${this.countriesCache.length} countries`);
+  /**
+   * Walk the provider chain, concurrent callers share the same load
+   */
+  private loadCountries(): Promise<RestCountry[]> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchFromProviders().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
 
-      return this.countriesCache;
-    } catch (error) {
-      this.logger.LogError(
-        `Failed to fetch countries from API: ${error.message}`,
-        500,
+  private async fetchFromProviders(): Promise<RestCountry[]> {
+    for (const provider of this.providers) {
+      const recordFetch = this.metricsService.startCountryCatalogFetch(
+        provider.name,
       );
-      throw new Error('Failed to fetch countries');
+
+      try {
+        this.logger.LogInfo(`Fetching countries from ${provider.name}...`);
+        const countries = await this.withTimeout(provider.fetchCountries());
+        recordFetch('success');
+
+        this.countriesCache = countries;
+        this.cacheStatus = {
+          source: provider.name,
+          live: provider.live,
+          countries: countries.length,
+          refreshedAt: new Date(),
+        };
+        this.logger.LogInfo(`Fetched ${countries.length} countries`);
+
+        return countries;
+      } catch (error) {
+        recordFetch('failure');
+        this.logger.LogWarning(
+          `Failed to fetch countries from ${provider.name}: ${error.message}`,
+        );
+      }
     }
+
+    this.logger.LogError(
+      'Failed to fetch countries from every country provider',
+      500,
+    );
+    throw new Error('Failed to fetch countries');
+  }
+
+  /**
+   * Fail a fetch that takes longer than the provider timeout, so a hanging
+   * provider does not hold up the rest of the chain
+   */
+  private withTimeout<T>(fetch: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`No answer within ${this.providerTimeoutMs}ms`)),
+        this.providerTimeoutMs,
+      );
+    });
+
+    return Promise.race([fetch, timeout]).finally(() => clearTimeout(timer));
   }
 
   async getCountryByCode(code: string): Promise<RestCountry | null> {
@@ -59,6 +178,53 @@ export class CountriesService {
     return country;
   }
 
+  /**
+   * Find a country by cca3, cca2 or ccn3 code, common or official name or
+   * alternate spelling, ignoring case and accents
+   */
+  async findCountry(identifier: string): Promise<RestCountry | null> {
+    this.logger.LogInfo(`Resolving country identifier: ${identifier}`);
+    const index = await this.getIdentifierIndex();
+    const country = index.get(this.toIdentifierKey(identifier)) || null;
+
+    if (country) {
+      this.logger.LogInfo(
+        `Resolved "${identifier}" to ${country.name.common} (${country.cca3})`,
+      );
+    } else {
+      this.logger.LogWarning(`Country not found for identifier: ${identifier}`);
+    }
+
+    return country;
+  }
+
+  /**
+   * Countries whose names are closest to an identifier that did not match
+   */
+  async suggestCountries(
+    identifier: string,
+    limit = 3,
+  ): Promise<RestCountry[]> {
+    const countries = await this.getAllCountries();
+    const key = normalizeText(identifier);
+
+    return countries
+      .map((country) => ({
+        country,
+        score: Math.max(
+          ...[
+            country.name.common,
+            country.name.official,
+            ...(country.altSpellings ?? []),
+          ].map((name) => similarity(key, normalizeText(name))),
+        ),
+      }))
+      .filter(({ score }) => score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ country }) => country);
+  }
+
   async getCountriesByCodes(
     codes: string[],
   ): Promise<Map<string, RestCountry>> {
@@ -80,4 +246,34 @@ export class CountriesService {
 
     return countryMap;
   }
+
+  /**
+   * Lookup table from every identifier to its country, rebuilt whenever the
+   * cached catalog is replaced
+   */
+  private async getIdentifierIndex(): Promise<Map<string, RestCountry>> {
+    const countries = await this.getAllCountries();
+
+    if (this.identifierIndex?.countries !== countries) {
+      const byIdentifier = new Map<string, RestCountry>();
+      COUNTRY_IDENTIFIERS.forEach((identifiersOf) =>
+        countries.forEach((country) =>
+          identifiersOf(country)
+            .filter(Boolean)
+            .map((identifier) => this.toIdentifierKey(identifier))
+            .filter((key) => !byIdentifier.has(key))
+            .forEach((key) => byIdentifier.set(key, country)),
+        ),
+      );
+      this.identifierIndex = { countries, byIdentifier };
+    }
+
+    return this.identifierIndex.byIdentifier;
+  }
+
+  // Numeric codes are zero padded upstream, so "32" matches "032"
+  private toIdentifierKey(identifier: string): string {
+    const key = normalizeText(identifier);
+    return /^\d{1,3}$/.test(key) ? key.padStart(3, '0') : key;
+  }
 }
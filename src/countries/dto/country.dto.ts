@@ -12,3 +12,11 @@ export class CountryDetailsDto {
   votes: number;
   rank: number;
 }
+
+export class CountryCatalogStatusDto {
+  source: string;
+  // Served by the upstream catalog rather than a stored copy
+  live: boolean;
+  countries: number;
+  refreshedAt: Date;
+}
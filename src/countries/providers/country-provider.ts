@@ -0,0 +1,18 @@
+import { RestCountry } from '../countries.service';
+
+/**
+ * Source of the country catalog
+ * CountriesService tries each configured provider in order until one answers
+ */
+export abstract class CountryProvider {
+  abstract readonly name: string;
+  // Serves the upstream catalog rather than a stored copy of it
+  abstract readonly live: boolean;
+  abstract fetchCountries(): Promise<RestCountry[]>;
+}
+
+// Injection token for the ordered fallback chain of providers
+export const COUNTRY_PROVIDERS = 'COUNTRY_PROVIDERS';
+
+// Time a provider gets to answer before the next one is tried
+export const DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS = 10000;
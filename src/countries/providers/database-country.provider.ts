@@ -0,0 +1,37 @@
+import { DatabaseService } from 'src/shared/services/database.service';
+import { RestCountry } from '../countries.service';
+import { CountryProvider } from './country-provider';
+
+/**
+ * Catalog rebuilt from the Country rows already stored in the database
+ * Only knows the countries that have been voted for or seeded
+ */
+export class DatabaseCountryProvider extends CountryProvider {
+  readonly name = 'database';
+  readonly live = false;
+
+  constructor(private readonly db: DatabaseService) {
+    super();
+  }
+
+  async fetchCountries(): Promise<RestCountry[]> {
+    const countries = await this.db.country.findMany({
+      orderBy: { code: 'asc' },
+    });
+
+    if (countries.length === 0) {
+      throw new Error('No countries stored');
+    }
+
+    return countries.map((country) => ({
+      name: {
+        common: country.name,
+        official: country.name,
+      },
+      cca3: country.code,
+      capital: country.capital === 'N/A' ? [] : [country.capital],
+      region: country.region,
+      subregion: country.subRegion === 'N/A' ? undefined : country.subRegion,
+    }));
+  }
+}
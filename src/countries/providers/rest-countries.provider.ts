@@ -0,0 +1,29 @@
+import axios from 'axios';
+import { RestCountry } from '../countries.service';
+import {
+  CountryProvider,
+  DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS,
+} from './country-provider';
+
+/**
+ * Live catalog from the REST Countries API
+ */
+export class RestCountriesProvider extends CountryProvider {
+  readonly name = 'REST Countries API';
+  readonly live = true;
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly timeoutMs = DEFAULT_COUNTRY_PROVIDER_TIMEOUT_MS,
+  ) {
+    super();
+  }
+
+  async fetchCountries(): Promise<RestCountry[]> {
+    const response = await axios.get<RestCountry[]>(
+      `${this.apiUrl}/all?fields=name,cca2,cca3,ccn3,capital,region,subregion,altSpellings,translations`,
+      { timeout: this.timeoutMs },
+    );
+    return response.data;
+  }
+}
@@ -0,0 +1,20 @@
+import { readFile } from 'fs/promises';
+import { RestCountry } from '../countries.service';
+import { CountryProvider } from './country-provider';
+
+/**
+ * Catalog bundled with the app as a JSON file in the REST Countries format
+ * Works without network access, but only as fresh as the last snapshot
+ */
+export class SnapshotCountryProvider extends CountryProvider {
+  readonly name = 'bundled snapshot';
+  readonly live = false;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async fetchCountries(): Promise<RestCountry[]> {
+    return JSON.parse(await readFile(this.filePath, 'utf8'));
+  }
+}
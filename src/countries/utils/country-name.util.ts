@@ -0,0 +1,17 @@
+import {
+  DEFAULT_LANGUAGE,
+  TRANSLATION_KEYS,
+} from 'src/shared/utils/language.util';
+import { RestCountry } from '../countries.service';
+
+/**
+ * Common name of a country in the given language, English when the catalog
+ * has no translation for it
+ */
+export function localizeCountryName(
+  country: RestCountry,
+  language: string = DEFAULT_LANGUAGE,
+): string {
+  const translation = country.translations?.[TRANSLATION_KEYS[language]];
+  return translation?.common ?? country.name.common;
+}
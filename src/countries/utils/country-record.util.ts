@@ -0,0 +1,21 @@
+import { RestCountry } from '../countries.service';
+
+export type CountryRecord = {
+  name: string;
+  capital: string;
+  region: string;
+  subRegion: string;
+};
+
+/**
+ * Map catalog data to the columns stored on a Country row
+ * Missing capitals and subregions are stored as "N/A"
+ */
+export function toCountryRecord(country: RestCountry): CountryRecord {
+  return {
+    name: country.name.common,
+    capital: country.capital?.[0] || 'N/A',
+    region: country.region,
+    subRegion: country.subregion || 'N/A',
+  };
+}
@@ -0,0 +1,41 @@
+import { Controller, Get, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { CountrySyncService } from './country-sync.service';
+import { CountrySyncReportDto } from './dto/country-sync-report.dto';
+import { RequireRole } from '../auth/require-role.decorator';
+
+@Controller('admin/country-sync')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.READ_ONLY)
+export class CountrySyncController {
+  constructor(private readonly countrySyncService: CountrySyncService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Report stored countries that differ from the catalog',
+  })
+  @ApiOkResponse({
+    description: 'The country sync report has been generated.',
+    type: CountrySyncReportDto,
+  })
+  async getReport(): Promise<{ data: CountrySyncReportDto }> {
+    const data = await this.countrySyncService.syncCountries();
+    return { data };
+  }
+
+  @Post('apply')
+  @RequireRole(ApiKeyRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update outdated stored countries with the catalog values',
+  })
+  @ApiOkResponse({
+    description: 'The outdated countries have been updated.',
+    type: CountrySyncReportDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async apply(): Promise<{ data: CountrySyncReportDto }> {
+    const data = await this.countrySyncService.syncCountries(true);
+    return { data };
+  }
+}
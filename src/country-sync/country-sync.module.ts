@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CountrySyncController } from './country-sync.controller';
+import { CountrySyncService } from './country-sync.service';
+import { CountriesModule } from '../countries/countries.module';
+
+@Module({
+  imports: [CountriesModule],
+  controllers: [CountrySyncController],
+  providers: [CountrySyncService],
+})
+export class CountrySyncModule {}
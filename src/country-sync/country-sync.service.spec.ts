@@ -0,0 +1,332 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { COUNTRY_SYNC_JOB, CountrySyncService } from './country-sync.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { CountriesService, RestCountry } from '../countries/countries.service';
+
+type MockDatabaseService = {
+  country: {
+    findMany: jest.Mock;
+    update: jest.Mock;
+  };
+  $transaction: jest.Mock;
+};
+
+type MockCountriesService = {
+  getCountriesByCodes: jest.Mock;
+  getCatalogStatus: jest.Mock;
+};
+
+type MockConfigService = {
+  get: jest.Mock;
+};
+
+type MockSchedulerRegistry = {
+  addCronJob: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('CountrySyncService', () => {
+  let service: CountrySyncService;
+  let databaseService: MockDatabaseService;
+  let countriesService: MockCountriesService;
+  let configService: MockConfigService;
+  let schedulerRegistry: MockSchedulerRegistry;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    country: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const storedCountries = [
+    {
+      id: 'country-1',
+      code: 'ARG',
+      name: 'Argentina',
+      capital: 'Buenos Aires',
+      region: 'Americas',
+      subRegion: 'South America',
+    },
+    {
+      id: 'country-2',
+      code: 'SWZ',
+      name: 'Swaziland',
+      capital: 'Mbabane',
+      region: 'Africa',
+      subRegion: 'N/A',
+    },
+    {
+      id: 'country-3',
+      code: 'YUG',
+      name: 'Yugoslavia',
+      capital: 'Belgrade',
+      region: 'Europe',
+      subRegion: 'Southeast Europe',
+    },
+  ];
+
+  const catalog = new Map<string, RestCountry>([
+    [
+      'ARG',
+      {
+        name: { common: 'Argentina', official: 'Argentine Republic' },
+        cca3: 'ARG',
+        capital: ['Buenos Aires'],
+        region: 'Americas',
+        subregion: 'South America',
+      },
+    ],
+    [
+      'SWZ',
+      {
+        name: { common: 'Eswatini', official: 'Kingdom of Eswatini' },
+        cca3: 'SWZ',
+        capital: ['Mbabane'],
+        region: 'Africa',
+        subregion: 'Southern Africa',
+      },
+    ],
+  ]);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CountrySyncService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: CountriesService,
+          useValue: {
+            getCountriesByCodes: jest.fn(),
+            getCatalogStatus: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+        {
+          provide: SchedulerRegistry,
+          useValue: { addCronJob: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CountrySyncService>(CountrySyncService);
+    databaseService = module.get(DatabaseService);
+    countriesService = module.get(CountriesService);
+    configService = module.get(ConfigService);
+    schedulerRegistry = module.get(SchedulerRegistry);
+    loggerService = module.get(LoggerService);
+
+    databaseService.country.findMany.mockResolvedValue(storedCountries);
+    countriesService.getCountriesByCodes.mockResolvedValue(catalog);
+    countriesService.getCatalogStatus.mockReturnValue({
+      source: 'REST Countries API',
+      live: true,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('syncCountries', () => {
+    it('should report changed fields and codes missing from the catalog', async () => {
+      const result = await service.syncCountries();
+
+      expect(result).toEqual({
+        checkedAt: expect.any(Date),
+        source: 'REST Countries API',
+        checked: 3,
+        outdated: 1,
+        applied: false,
+        countries: [
+          {
+            code: 'SWZ',
+            country: 'Eswatini',
+            changes: [
+              { field: 'name', from: 'Swaziland', to: 'Eswatini' },
+              { field: 'subRegion', from: 'N/A', to: 'Southern Africa' },
+            ],
+          },
+        ],
+        missingCodes: ['YUG'],
+      });
+      expect(countriesService.getCountriesByCodes).toHaveBeenCalledWith([
+        'ARG',
+        'SWZ',
+        'YUG',
+      ]);
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Country SWZ is out of date: name "Swaziland" -> "Eswatini", subRegion "N/A" -> "Southern Africa"',
+      );
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Country YUG is no longer in the catalog',
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should update only the descriptive columns of outdated countries', async () => {
+      databaseService.$transaction.mockResolvedValue([]);
+
+      const result = await service.syncCountries(true);
+
+      expect(result.applied).toBe(true);
+      expect(databaseService.country.update).toHaveBeenCalledTimes(1);
+      expect(databaseService.country.update).toHaveBeenCalledWith({
+        where: { id: 'country-2' },
+        data: {
+          name: 'Eswatini',
+          capital: 'Mbabane',
+          region: 'Africa',
+          subRegion: 'Southern Africa',
+        },
+      });
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Updated 1 stored countries',
+      );
+    });
+
+    it('should never apply a catalog that is not live', async () => {
+      countriesService.getCatalogStatus.mockReturnValue({
+        source: 'bundled snapshot',
+        live: false,
+      });
+
+      const result = await service.syncCountries(true);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          source: 'bundled snapshot',
+          outdated: 1,
+          applied: false,
+        }),
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Not updating stored countries: the catalog was served by bundled snapshot, not a live provider',
+      );
+    });
+
+    it('should not write anything when every country is up to date', async () => {
+      databaseService.country.findMany.mockResolvedValue([storedCountries[0]]);
+
+      const result = await service.syncCountries(true);
+
+      expect(result.outdated).toBe(0);
+      expect(result.applied).toBe(false);
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should handle catalog errors', async () => {
+      countriesService.getCountriesByCodes.mockRejectedValue(
+        new Error('Failed to fetch countries'),
+      );
+
+      await expect(service.syncCountries()).rejects.toThrow(
+        'Failed to fetch countries',
+      );
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to sync stored countries: Failed to fetch countries',
+        500,
+      );
+    });
+  });
+
+  describe('onModuleInit', () => {
+    const scheduledJob = (): CronJob =>
+      schedulerRegistry.addCronJob.mock.calls[0][1];
+
+    afterEach(() => {
+      scheduledJob().stop();
+    });
+
+    it('should schedule the sync daily at 3 AM by default', () => {
+      service.onModuleInit();
+
+      expect(schedulerRegistry.addCronJob).toHaveBeenCalledWith(
+        COUNTRY_SYNC_JOB,
+        expect.any(CronJob),
+      );
+      expect(scheduledJob().cronTime.source).toBe(
+        CronExpression.EVERY_DAY_AT_3AM,
+      );
+      expect(scheduledJob().isActive).toBe(true);
+    });
+
+    it('should schedule the sync with COUNTRY_SYNC_CRON', () => {
+      configService.get.mockImplementation((key: string) =>
+        key === 'COUNTRY_SYNC_CRON' ? '30 4 * * 1' : undefined,
+      );
+
+      service.onModuleInit();
+
+      expect(scheduledJob().cronTime.source).toBe('30 4 * * 1');
+    });
+  });
+
+  describe('scheduledSync', () => {
+    it('should only report by default', async () => {
+      await service.scheduledSync();
+
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should apply the updates when COUNTRY_SYNC_APPLY is set', async () => {
+      configService.get.mockReturnValue('true');
+      databaseService.$transaction.mockResolvedValue([]);
+
+      const result = await service.scheduledSync();
+
+      expect(configService.get).toHaveBeenCalledWith('COUNTRY_SYNC_APPLY');
+      expect(result.applied).toBe(true);
+      expect(databaseService.$transaction).toHaveBeenCalled();
+    });
+
+    it('should only report when the catalog is not live', async () => {
+      configService.get.mockReturnValue('true');
+      countriesService.getCatalogStatus.mockReturnValue({
+        source: 'bundled snapshot',
+        live: false,
+      });
+
+      const result = await service.scheduledSync();
+
+      expect(result.applied).toBe(false);
+      expect(result.outdated).toBe(1);
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Not updating stored countries: the catalog was served by bundled snapshot, not a live provider',
+      );
+    });
+  });
+});
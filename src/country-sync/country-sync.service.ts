@@ -0,0 +1,163 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { CountriesService } from '../countries/countries.service';
+import {
+  CountryRecord,
+  toCountryRecord,
+} from '../countries/utils/country-record.util';
+import {
+  CountryFieldChangeDto,
+  CountrySyncReportDto,
+} from './dto/country-sync-report.dto';
+
+const SYNCED_FIELDS: (keyof CountryRecord)[] = [
+  'name',
+  'capital',
+  'region',
+  'subRegion',
+];
+
+export const COUNTRY_SYNC_JOB = 'country-sync';
+
+@Injectable()
+export class CountrySyncService implements OnModuleInit {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly countriesService: CountriesService,
+    private readonly config: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Schedule the sync job once the configuration, .env included, is loaded
+   */
+  onModuleInit(): void {
+    const cronTime =
+      this.config.get<string>('COUNTRY_SYNC_CRON') ||
+      CronExpression.EVERY_DAY_AT_3AM;
+    // Failures are logged by syncCountries
+    const job = new CronJob(cronTime, () =>
+      this.scheduledSync().catch(() => undefined),
+    );
+
+    this.schedulerRegistry.addCronJob(COUNTRY_SYNC_JOB, job);
+    job.start();
+    this.logger.LogInfo(`Country sync scheduled (cron="${cronTime}")`);
+  }
+
+  /**
+   * Compare every stored Country row with the current catalog
+   * When apply is set, outdated rows are updated with the catalog values,
+   * unless the catalog is a stored copy such as the snapshot
+   * Only the descriptive columns are written, standings are never touched
+   */
+  async syncCountries(apply = false): Promise<CountrySyncReportDto> {
+    this.logger.LogInfo(`Syncing stored countries (apply=${apply})`);
+
+    try {
+      const stored = await this.db.country.findMany({
+        orderBy: { code: 'asc' },
+      });
+      const catalog = await this.countriesService.getCountriesByCodes(
+        stored.map((country) => country.code),
+      );
+      const { source, live } = this.countriesService.getCatalogStatus();
+
+      if (apply && !live) {
+        this.logger.LogWarning(
+          `Not updating stored countries: the catalog was served by ${source}, not a live provider`,
+        );
+        apply = false;
+      }
+
+      const missingCodes: string[] = [];
+      const outdated = stored
+        .map((country) => {
+          const catalogCountry = catalog.get(country.code);
+
+          if (!catalogCountry) {
+            missingCodes.push(country.code);
+            return null;
+          }
+
+          const record = toCountryRecord(catalogCountry);
+          const changes = SYNCED_FIELDS.filter(
+            (field) => country[field] !== record[field],
+          ).map(
+            (field): CountryFieldChangeDto => ({
+              field,
+              from: country[field],
+              to: record[field],
+            }),
+          );
+
+          return changes.length > 0
+            ? { id: country.id, code: country.code, record, changes }
+            : null;
+        })
+        .filter((entry) => entry !== null);
+
+      outdated.forEach((entry) =>
+        this.logger.LogWarning(
+          `Country ${entry.code} is out of date: ${entry.changes
+            .map(({ field, from, to }) => `${field} "${from}" -> "${to}"`)
+            .join(', ')}`,
+        ),
+      );
+      missingCodes.forEach((code) =>
+        this.logger.LogWarning(`Country ${code} is no longer in the catalog`),
+      );
+
+      if (apply && outdated.length > 0) {
+        await this.db.$transaction(
+          outdated.map((entry) =>
+            this.db.country.update({
+              where: { id: entry.id },
+              data: entry.record,
+            }),
+          ),
+        );
+        this.logger.LogInfo(`Updated ${outdated.length} stored countries`);
+      }
+
+      this.logger.LogInfo(
+        `Synced ${stored.length} stored countries, ${outdated.length} outdated, ${missingCodes.length} missing from the catalog`,
+      );
+
+      return {
+        checkedAt: new Date(),
+        source,
+        checked: stored.length,
+        outdated: outdated.length,
+        applied: apply && outdated.length > 0,
+        countries: outdated.map(({ code, record, changes }) => ({
+          code,
+          country: record.name,
+          changes,
+        })),
+        missingCodes,
+      };
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to sync stored countries: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Scheduled run, only reports unless COUNTRY_SYNC_APPLY is set
+   * Never applies a catalog served by a fallback copy such as the snapshot
+   */
+  async scheduledSync(): Promise<CountrySyncReportDto> {
+    return this.syncCountries(
+      this.config.get<string>('COUNTRY_SYNC_APPLY') === 'true',
+    );
+  }
+}
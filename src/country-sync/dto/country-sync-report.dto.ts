@@ -0,0 +1,25 @@
+export class CountryFieldChangeDto {
+  field: string;
+  // Value stored on the Country row
+  from: string;
+  // Value in the current catalog
+  to: string;
+}
+
+export class CountrySyncEntryDto {
+  code: string;
+  country: string;
+  changes: CountryFieldChangeDto[];
+}
+
+export class CountrySyncReportDto {
+  checkedAt: Date;
+  // Provider the catalog was served by
+  source: string;
+  checked: number;
+  outdated: number;
+  applied: boolean;
+  countries: CountrySyncEntryDto[];
+  // Stored codes that are no longer in the catalog, reported but never removed
+  missingCodes: string[];
+}
@@ -0,0 +1,32 @@
+import { IsEnum, IsISO8601, IsOptional, IsString } from 'class-validator';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  NDJSON = 'ndjson',
+}
+
+export class ExportQueryDto {
+  @IsOptional()
+  @IsString()
+  pollId?: string;
+
+  // Takes precedence over the Accept header
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat;
+
+  // Inclusive start of the vote date range
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  // Exclusive end of the vote date range
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+}
@@ -0,0 +1,85 @@
+import { ExportFormat } from './dto/export-query.dto';
+
+export type ExportRow = Record<string, string | number | Date | null>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+  [ExportFormat.NDJSON]: 'application/x-ndjson; charset=utf-8',
+};
+
+const ACCEPT_FORMATS: Record<string, ExportFormat> = {
+  'text/csv': ExportFormat.CSV,
+  'application/json': ExportFormat.JSON,
+  'application/x-ndjson': ExportFormat.NDJSON,
+  'application/jsonl': ExportFormat.NDJSON,
+};
+
+/**
+ * Pick the export format from the format parameter, then the Accept header
+ * Defaults to CSV
+ */
+export const resolveExportFormat = (
+  format?: ExportFormat,
+  accept?: string,
+): ExportFormat => {
+  if (format) {
+    return format;
+  }
+
+  const accepted = (accept ?? '')
+    .split(',')
+    .map((type) => type.split(';')[0].trim().toLowerCase())
+    .find((type) => ACCEPT_FORMATS[type]);
+
+  return accepted ? ACCEPT_FORMATS[accepted] : ExportFormat.CSV;
+};
+
+const toCsvField = (value: ExportRow[string]): string => {
+  if (value === null) {
+    return '';
+  }
+
+  let field = value instanceof Date ? value.toISOString() : String(value);
+
+  // Keep spreadsheets from running voter-supplied text as a formula
+  if (/^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+/**
+ * Serialize rows one chunk at a time, so the output can be streamed while
+ * the rows are still being read
+ */
+export async function* serializeRows(
+  rows: AsyncIterable<ExportRow>,
+  format: ExportFormat,
+  columns: string[],
+): AsyncGenerator<string> {
+  switch (format) {
+    case ExportFormat.CSV:
+      yield `${columns.join(',')}\n`;
+      for await (const row of rows) {
+        yield `${columns.map((column) => toCsvField(row[column])).join(',')}\n`;
+      }
+      return;
+    case ExportFormat.JSON: {
+      let separator = '';
+      yield '[';
+      for await (const row of rows) {
+        yield `${separator}${JSON.stringify(row)}`;
+        separator = ',';
+      }
+      yield ']\n';
+      return;
+    }
+    case ExportFormat.NDJSON:
+      for await (const row of rows) {
+        yield `${JSON.stringify(row)}\n`;
+      }
+      return;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { Readable } from 'stream';
+import { DEFAULT_POLL_ID } from '../polls/polls.service';
+import { ExportService } from './export.service';
+import { ExportFormat, ExportQueryDto } from './dto/export-query.dto';
+import { EXPORT_CONTENT_TYPES, resolveExportFormat } from './export-format';
+import { RequireRole } from '../auth/require-role.decorator';
+
+@Controller('admin/export')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.READ_ONLY)
+@ApiNotFoundResponse({ description: 'The poll does not exist.' })
+@ApiBadRequestResponse({ description: 'Invalid format or date range.' })
+@ApiProduces(...Object.values(EXPORT_CONTENT_TYPES))
+export class ExportController {
+  constructor(private readonly exportService: ExportService) {}
+
+  @Get('standings')
+  @ApiOperation({ summary: 'Export the standings of a poll' })
+  @ApiOkResponse({
+    description:
+      'Every country of the poll with its votes, streamed as CSV, JSON or NDJSON.',
+  })
+  async exportStandings(
+    @Query() query: ExportQueryDto,
+    @Headers('accept') accept?: string,
+  ): Promise<StreamableFile> {
+    const format = resolveExportFormat(query.format, accept);
+    const stream = await this.exportService.exportStandings(query, format);
+    return this.toFile(stream, format, 'standings', query.pollId);
+  }
+
+  @Get('votes')
+  @RequireRole(ApiKeyRole.ADMIN)
+  @ApiOperation({ summary: 'Export the votes of a poll' })
+  @ApiOkResponse({
+    description:
+      'Voter name, email, country code and confirmation time of every vote, streamed as CSV, JSON or NDJSON.',
+  })
+  async exportVotes(
+    @Query() query: ExportQueryDto,
+    @Headers('accept') accept?: string,
+  ): Promise<StreamableFile> {
+    const format = resolveExportFormat(query.format, accept);
+    const stream = await this.exportService.exportVotes(query, format);
+    return this.toFile(stream, format, 'votes', query.pollId);
+  }
+
+  private toFile(
+    stream: Readable,
+    format: ExportFormat,
+    name: string,
+    pollId: string = DEFAULT_POLL_ID,
+  ): StreamableFile {
+    return new StreamableFile(stream, {
+      type: EXPORT_CONTENT_TYPES[format],
+      disposition: `attachment; filename="${name}-${pollId}.${format}"`,
+    });
+  }
+}
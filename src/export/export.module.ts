@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ExportController } from './export.controller';
+import { ExportService } from './export.service';
+import { PollsModule } from '../polls/polls.module';
+
+@Module({
+  imports: [PollsModule],
+  controllers: [ExportController],
+  providers: [ExportService],
+})
+export class ExportModule {}
@@ -0,0 +1,388 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ExportService } from './export.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { PollsService } from '../polls/polls.service';
+import { ExportFormat } from './dto/export-query.dto';
+import { resolveExportFormat } from './export-format';
+
+type MockDatabaseService = {
+  pollCountry: {
+    findMany: jest.Mock;
+  };
+  user: {
+    findMany: jest.Mock;
+    groupBy: jest.Mock;
+  };
+};
+
+type MockPollsService = {
+  getPollById: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let databaseService: MockDatabaseService;
+  let pollsService: MockPollsService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    pollCountry: {
+      findMany: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+  });
+
+  const mockPollsService = {
+    getPollById: jest.fn(),
+  };
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const createdAt = new Date('2025-12-01T10:00:00.000Z');
+
+  const standing = (id: string, code: string, name: string, votes: number) => ({
+    id,
+    countryId: `country-${code}`,
+    votes,
+    country: {
+      id: `country-${code}`,
+      code,
+      name,
+      capital: 'Capital',
+      region: 'Americas',
+      subRegion: 'South America',
+      createdAt,
+      updatedAt: createdAt,
+    },
+  });
+
+  const vote = (id: string, name: string, email: string, code: string) => ({
+    id,
+    name,
+    email,
+    createdAt,
+    country: { code },
+  });
+
+  const readAll = async (stream: Readable): Promise<string> => {
+    let output = '';
+    for await (const chunk of stream) {
+      output += chunk;
+    }
+    return output;
+  };
+
+  beforeEach(async () => {
+    process.env.EXPORT_BATCH_SIZE = '2';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: PollsService,
+          useValue: mockPollsService,
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExportService>(ExportService);
+    databaseService = module.get(DatabaseService);
+    pollsService = module.get(PollsService);
+    loggerService = module.get(LoggerService);
+
+    pollsService.getPollById.mockResolvedValue({
+      id: 'default',
+      title: 'Favorite country',
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.EXPORT_BATCH_SIZE;
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('exportStandings', () => {
+    it('should stream every country column as CSV in batches', async () => {
+      databaseService.pollCountry.findMany
+        .mockResolvedValueOnce([
+          standing('pc-1', 'ARG', 'Argentina', 5),
+          standing('pc-2', 'BRA', 'Brazil', 3),
+        ])
+        .mockResolvedValueOnce([standing('pc-3', 'URY', 'Uruguay', 1)]);
+
+      const stream = await service.exportStandings({}, ExportFormat.CSV);
+      const output = await readAll(stream);
+
+      expect(output.split('\n')).toEqual([
+        'id,code,name,capital,region,subRegion,createdAt,updatedAt,votes',
+        'country-ARG,ARG,Argentina,Capital,Americas,South America,2025-12-01T10:00:00.000Z,2025-12-01T10:00:00.000Z,5',
+        'country-BRA,BRA,Brazil,Capital,Americas,South America,2025-12-01T10:00:00.000Z,2025-12-01T10:00:00.000Z,3',
+        'country-URY,URY,Uruguay,Capital,Americas,South America,2025-12-01T10:00:00.000Z,2025-12-01T10:00:00.000Z,1',
+        '',
+      ]);
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledTimes(2);
+      expect(databaseService.pollCountry.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { pollId: 'default', id: { gt: 'pc-2' } },
+          orderBy: { id: 'asc' },
+          take: 2,
+        }),
+      );
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Exported 3 standings of poll default',
+      );
+    });
+
+    it('should only read from the database while the stream is consumed', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([]);
+
+      await service.exportStandings({}, ExportFormat.CSV);
+
+      expect(databaseService.pollCountry.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should count only the votes in the date range', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValueOnce([
+        standing('pc-1', 'ARG', 'Argentina', 5),
+      ]);
+      databaseService.user.groupBy.mockResolvedValue([
+        { countryId: 'country-ARG', _count: { _all: 2 } },
+      ]);
+
+      const stream = await service.exportStandings(
+        {
+          from: '2025-12-01T00:00:00.000Z',
+          to: '2025-12-02T00:00:00.000Z',
+          region: 'americas',
+        },
+        ExportFormat.NDJSON,
+      );
+      const output = await readAll(stream);
+
+      expect(JSON.parse(output.trim())).toEqual(
+        expect.objectContaining({ code: 'ARG', votes: 2 }),
+      );
+      expect(databaseService.user.groupBy).toHaveBeenCalledWith({
+        by: ['countryId'],
+        where: {
+          pollId: 'default',
+          countryId: { in: ['country-ARG'] },
+          status: { not: 'VOIDED' },
+          createdAt: {
+            gte: new Date('2025-12-01T00:00:00.000Z'),
+            lt: new Date('2025-12-02T00:00:00.000Z'),
+          },
+        },
+        _count: { _all: true },
+      });
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            pollId: 'default',
+            country: {
+              region: { equals: 'americas', mode: 'insensitive' },
+            },
+          },
+        }),
+      );
+    });
+
+    it('should throw NotFoundException before streaming if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(
+        service.exportStandings({ pollId: 'missing' }, ExportFormat.CSV),
+      ).rejects.toThrow(NotFoundException);
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for an empty date range', async () => {
+      await expect(
+        service.exportStandings(
+          { from: '2025-12-02T00:00:00.000Z', to: '2025-12-01T00:00:00.000Z' },
+          ExportFormat.CSV,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(pollsService.getPollById).not.toHaveBeenCalled();
+    });
+
+    it('should log and fail the stream on database errors', async () => {
+      databaseService.pollCountry.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      const stream = await service.exportStandings({}, ExportFormat.CSV);
+
+      await expect(readAll(stream)).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to export standings: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('exportVotes', () => {
+    it('should stream votes as a JSON array, continuing after the last row', async () => {
+      databaseService.user.findMany
+        .mockResolvedValueOnce([
+          vote('user-1', 'John Doe', 'john@example.com', 'ARG'),
+          vote('user-2', 'Jane Doe', 'jane@example.com', 'BRA'),
+        ])
+        .mockResolvedValueOnce([]);
+
+      const stream = await service.exportVotes(
+        { pollId: 'poll-1' },
+        ExportFormat.JSON,
+      );
+      const output = await readAll(stream);
+
+      expect(JSON.parse(output)).toEqual([
+        {
+          name: 'John Doe',
+          email: 'john@example.com',
+          countryCode: 'ARG',
+          createdAt: '2025-12-01T10:00:00.000Z',
+        },
+        {
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          countryCode: 'BRA',
+          createdAt: '2025-12-01T10:00:00.000Z',
+        },
+      ]);
+      expect(pollsService.getPollById).toHaveBeenCalledWith('poll-1');
+      expect(databaseService.user.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { pollId: 'poll-1', status: { not: 'VOIDED' }, createdAt: {} },
+              {
+                OR: [
+                  { createdAt: { gt: createdAt } },
+                  { createdAt, id: { gt: 'user-2' } },
+                ],
+              },
+            ],
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      );
+    });
+
+    it('should write an empty JSON array when there are no votes', async () => {
+      databaseService.user.findMany.mockResolvedValue([]);
+
+      const stream = await service.exportVotes({}, ExportFormat.JSON);
+
+      expect(JSON.parse(await readAll(stream))).toEqual([]);
+    });
+
+    it('should escape CSV fields and neutralize formulas', async () => {
+      databaseService.user.findMany.mockResolvedValueOnce([
+        vote('user-1', 'Doe, "Johnny"', 'john@example.com', 'ARG'),
+        vote('user-2', '=HYPERLINK("x")', 'jane@example.com', 'BRA'),
+      ]);
+      databaseService.user.findMany.mockResolvedValueOnce([]);
+
+      const stream = await service.exportVotes({}, ExportFormat.CSV);
+      const lines = (await readAll(stream)).split('\n');
+
+      expect(lines[0]).toBe('name,email,countryCode,createdAt');
+      expect(lines[1]).toBe(
+        '"Doe, ""Johnny""",john@example.com,ARG,2025-12-01T10:00:00.000Z',
+      );
+      expect(lines[2]).toBe(
+        '"\'=HYPERLINK(""x"")",jane@example.com,BRA,2025-12-01T10:00:00.000Z',
+      );
+    });
+
+    it('should filter votes by date range and region', async () => {
+      databaseService.user.findMany.mockResolvedValue([]);
+
+      const stream = await service.exportVotes(
+        { from: '2025-12-01T00:00:00.000Z', region: 'Europe' },
+        ExportFormat.NDJSON,
+      );
+      await readAll(stream);
+
+      expect(databaseService.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            pollId: 'default',
+            status: { not: 'VOIDED' },
+            createdAt: { gte: new Date('2025-12-01T00:00:00.000Z') },
+            country: {
+              region: { equals: 'Europe', mode: 'insensitive' },
+            },
+          },
+        }),
+      );
+    });
+
+    it('should log and fail the stream on database errors', async () => {
+      databaseService.user.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      const stream = await service.exportVotes({}, ExportFormat.NDJSON);
+
+      await expect(readAll(stream)).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to export votes: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('resolveExportFormat', () => {
+    it('should prefer the format parameter over the Accept header', () => {
+      expect(resolveExportFormat(ExportFormat.JSON, 'text/csv')).toBe(
+        ExportFormat.JSON,
+      );
+    });
+
+    it('should pick the first supported type of the Accept header', () => {
+      expect(
+        resolveExportFormat(
+          undefined,
+          'text/html, application/x-ndjson;q=0.9, application/json',
+        ),
+      ).toBe(ExportFormat.NDJSON);
+    });
+
+    it('should default to CSV', () => {
+      expect(resolveExportFormat(undefined, '*/*')).toBe(ExportFormat.CSV);
+      expect(resolveExportFormat()).toBe(ExportFormat.CSV);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, VoteStatus } from '@prisma/client';
+import { Readable } from 'stream';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { DEFAULT_POLL_ID, PollsService } from '../polls/polls.service';
+import { ExportFormat, ExportQueryDto } from './dto/export-query.dto';
+import { ExportRow, serializeRows } from './export-format';
+
+export const STANDING_EXPORT_COLUMNS = [
+  'id',
+  'code',
+  'name',
+  'capital',
+  'region',
+  'subRegion',
+  'createdAt',
+  'updatedAt',
+  'votes',
+];
+
+export const VOTE_EXPORT_COLUMNS = [
+  'name',
+  'email',
+  'countryCode',
+  'createdAt',
+];
+
+type DateRange = { from?: Date; to?: Date };
+
+/**
+ * Streams standings and votes out of the database
+ * Rows are read in keyset-paginated batches and serialized as they arrive,
+ * so an export never holds more than one batch in memory
+ */
+@Injectable()
+export class ExportService {
+  private readonly batchSize = Number(process.env.EXPORT_BATCH_SIZE) || 500;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly pollsService: PollsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Export the standings of a poll with every Country column
+   * With a date range, votes only counts the votes confirmed in that range
+   */
+  async exportStandings(
+    query: ExportQueryDto,
+    format: ExportFormat,
+  ): Promise<Readable> {
+    const pollId = query.pollId ?? DEFAULT_POLL_ID;
+    const range = this.parseRange(query);
+    this.logger.LogInfo(`Exporting standings of poll ${pollId} as ${format}`);
+
+    await this.checkPoll(pollId);
+
+    return Readable.from(
+      serializeRows(
+        this.standingRows(pollId, range, query.region),
+        format,
+        STANDING_EXPORT_COLUMNS,
+      ),
+    );
+  }
+
+  /**
+   * Export the confirmed votes of a poll, oldest first
+   */
+  async exportVotes(
+    query: ExportQueryDto,
+    format: ExportFormat,
+  ): Promise<Readable> {
+    const pollId = query.pollId ?? DEFAULT_POLL_ID;
+    const range = this.parseRange(query);
+    this.logger.LogInfo(`Exporting votes of poll ${pollId} as ${format}`);
+
+    await this.checkPoll(pollId);
+
+    return Readable.from(
+      serializeRows(
+        this.voteRows(pollId, range, query.region),
+        format,
+        VOTE_EXPORT_COLUMNS,
+      ),
+    );
+  }
+
+  private async *standingRows(
+    pollId: string,
+    range: DateRange,
+    region?: string,
+  ): AsyncGenerator<ExportRow> {
+    const hasRange = range.from !== undefined || range.to !== undefined;
+    let lastId: string | undefined;
+    let exported = 0;
+
+    try {
+      for (;;) {
+        const batch = await this.db.pollCountry.findMany({
+          where: {
+            pollId,
+            ...(lastId && { id: { gt: lastId } }),
+            ...(region && {
+              country: {
+                region: {
+                  equals: region,
+                  mode: 'insensitive' as const,
+                },
+              },
+            }),
+          },
+          orderBy: {
+            id: 'asc',
+          },
+          include: {
+            country: true,
+          },
+          take: this.batchSize,
+        });
+
+        const votesInRange = hasRange
+          ? await this.countVotesInRange(
+              pollId,
+              batch.map((standing) => standing.countryId),
+              range,
+            )
+          : undefined;
+
+        for (const { country, votes, countryId } of batch) {
+          yield {
+            id: country.id,
+            code: country.code,
+            name: country.name,
+            capital: country.capital,
+            region: country.region,
+            subRegion: country.subRegion,
+            createdAt: country.createdAt,
+            updatedAt: country.updatedAt,
+            votes: votesInRange ? votesInRange.get(countryId) ?? 0 : votes,
+          };
+        }
+
+        exported += batch.length;
+        if (batch.length < this.batchSize) {
+          break;
+        }
+        lastId = batch[batch.length - 1].id;
+      }
+
+      this.logger.LogInfo(`Exported ${exported} standings of poll ${pollId}`);
+    } catch (error) {
+      this.logger.LogError(`Failed to export standings: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  private async *voteRows(
+    pollId: string,
+    range: DateRange,
+    region?: string,
+  ): AsyncGenerator<ExportRow> {
+    // Voided votes no longer count, so they are not exported either
+    const where: Prisma.UserWhereInput = {
+      pollId,
+      status: { not: VoteStatus.VOIDED },
+      createdAt: this.toDateFilter(range),
+      ...(region && {
+        country: {
+          region: {
+            equals: region,
+            mode: 'insensitive' as const,
+          },
+        },
+      }),
+    };
+    let last: { id: string; createdAt: Date } | undefined;
+    let exported = 0;
+
+    try {
+      for (;;) {
+        const batch = await this.db.user.findMany({
+          // Continue after the last (createdAt, id) of the previous batch
+          where: last
+            ? {
+                AND: [
+                  where,
+                  {
+                    OR: [
+                      { createdAt: { gt: last.createdAt } },
+                      { createdAt: last.createdAt, id: { gt: last.id } },
+                    ],
+                  },
+                ],
+              }
+            : where,
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            createdAt: true,
+            country: {
+              select: {
+                code: true,
+              },
+            },
+          },
+          take: this.batchSize,
+        });
+
+        for (const user of batch) {
+          yield {
+            name: user.name,
+            email: user.email,
+            countryCode: user.country.code,
+            createdAt: user.createdAt,
+          };
+        }
+
+        exported += batch.length;
+        if (batch.length < this.batchSize) {
+          break;
+        }
+        last = batch[batch.length - 1];
+      }
+
+      this.logger.LogInfo(`Exported ${exported} votes of poll ${pollId}`);
+    } catch (error) {
+      this.logger.LogError(`Failed to export votes: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  private async countVotesInRange(
+    pollId: string,
+    countryIds: string[],
+    range: DateRange,
+  ): Promise<Map<string, number>> {
+    const counts = await this.db.user.groupBy({
+      by: ['countryId'],
+      where: {
+        pollId,
+        countryId: { in: countryIds },
+        status: { not: VoteStatus.VOIDED },
+        createdAt: this.toDateFilter(range),
+      },
+      _count: { _all: true },
+    });
+
+    return new Map(counts.map((row) => [row.countryId, row._count._all]));
+  }
+
+  private async checkPoll(pollId: string): Promise<void> {
+    try {
+      await this.pollsService.getPollById(pollId);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(`Failed to start export: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  private parseRange(query: ExportQueryDto): DateRange {
+    const range = {
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+    };
+
+    if (range.from && range.to && range.from >= range.to) {
+      throw new BadRequestException('from must be earlier than to');
+    }
+
+    return range;
+  }
+
+  private toDateFilter({ from, to }: DateRange): Prisma.DateTimeFilter {
+    return {
+      ...(from && { gte: from }),
+      ...(to && { lt: to }),
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import {
+  IdempotencyRejectionCode,
+  IdempotencyService,
+  StoredResponse,
+} from './idempotency.service';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_KEY } from './idempotent.decorator';
+
+// Printable ASCII, like the keys generated by common clients (UUIDs, ULIDs)
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+export type IdempotentRequest = Request & {
+  idempotency?: {
+    key: string;
+    fingerprint: string;
+    // Response of the first request when this one is a retry
+    replay: StoredResponse | null;
+  };
+};
+
+/**
+ * Looks up the Idempotency-Key of routes marked with Idempotent, so a retry
+ * is not rejected for reusing a one-time credential (such as a solved
+ * challenge) its first attempt already spent
+ * Guards checking such credentials call resolve() themselves instead of
+ * relying on this guard running first
+ * The key is only reserved by IdempotencyInterceptor, once every guard passed
+ */
+@Injectable()
+export class IdempotencyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly idempotencyService: IdempotencyService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    await this.resolve(context);
+    return true;
+  }
+
+  /**
+   * Idempotency state of the request, looked up once per request
+   */
+  async resolve(
+    context: ExecutionContext,
+  ): Promise<IdempotentRequest['idempotency']> {
+    const idempotent = this.reflector.getAllAndOverride<boolean>(
+      IDEMPOTENT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const request = context.switchToHttp().getRequest<IdempotentRequest>();
+    const key = request.get(IDEMPOTENCY_KEY_HEADER);
+
+    if (!idempotent || key === undefined || request.idempotency) {
+      return request.idempotency;
+    }
+
+    if (!VALID_KEY.test(key)) {
+      throw new BadRequestException({
+        statusCode: HttpStatus.BAD_REQUEST,
+        message:
+          'The Idempotency-Key must be 1 to 255 printable ASCII characters',
+        error: 'Bad Request',
+        code: IdempotencyRejectionCode.INVALID_KEY,
+      });
+    }
+
+    // The same key must come with the same request
+    const fingerprint = createHash('sha256')
+      .update(
+        JSON.stringify([request.method, request.originalUrl, request.body]),
+      )
+      .digest('hex');
+
+    request.idempotency = {
+      key,
+      fingerprint,
+      replay: await this.idempotencyService.lookup(key, fingerprint),
+    };
+
+    return request.idempotency;
+  }
+}
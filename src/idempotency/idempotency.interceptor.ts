@@ -0,0 +1,99 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  catchError,
+  concatMap,
+  defer,
+  from,
+  Observable,
+  of,
+  switchMap,
+  throwError,
+} from 'rxjs';
+import { IdempotencyService, StoredResponse } from './idempotency.service';
+import { IdempotentRequest } from './idempotency.guard';
+import { IDEMPOTENT_REPLAYED_HEADER } from './idempotent.decorator';
+
+/**
+ * Replays the stored response of a retried idempotent request, and stores
+ * the response of a new one
+ * Client errors are stored like successes, server errors free the key so
+ * the request can be retried
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<IdempotentRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const { idempotency } = request;
+
+    if (!idempotency) {
+      return next.handle();
+    }
+
+    if (idempotency.replay) {
+      return this.replay(idempotency.replay, response);
+    }
+
+    const { key, fingerprint } = idempotency;
+
+    // A concurrent request with the same key may have claimed it since the
+    // guard looked it up
+    return from(this.idempotencyService.claim(key, fingerprint)).pipe(
+      switchMap((stored) =>
+        stored
+          ? this.replay(stored, response)
+          : next.handle().pipe(
+              concatMap(async (body) => {
+                await this.idempotencyService.complete(key, {
+                  statusCode: response.statusCode,
+                  body,
+                });
+                return body;
+              }),
+              catchError((error) =>
+                defer(async () => {
+                  if (
+                    error instanceof HttpException &&
+                    error.getStatus() < 500
+                  ) {
+                    await this.idempotencyService.complete(key, {
+                      statusCode: error.getStatus(),
+                      body: error.getResponse(),
+                    });
+                  } else {
+                    await this.idempotencyService.release(key);
+                  }
+                  throw error;
+                }),
+              ),
+            ),
+      ),
+    );
+  }
+
+  private replay(stored: StoredResponse, response: Response) {
+    response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+
+    if (stored.statusCode >= 400) {
+      return throwError(
+        () =>
+          new HttpException(
+            stored.body as Record<string, unknown>,
+            stored.statusCode,
+          ),
+      );
+    }
+
+    // The success status of a route never changes, reply() sets it again
+    return of(stored.body ?? undefined);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyGuard } from './idempotency.guard';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+@Module({
+  providers: [
+    IdempotencyService,
+    IdempotencyGuard,
+    {
+      provide: APP_GUARD,
+      useExisting: IdempotencyGuard,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: IdempotencyInterceptor,
+    },
+  ],
+  exports: [IdempotencyGuard],
+})
+export class IdempotencyModule {}
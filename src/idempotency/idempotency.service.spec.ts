@@ -0,0 +1,328 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import {
+  IdempotencyRejectionCode,
+  IdempotencyService,
+} from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockDatabaseService = {
+  idempotencyKey: {
+    findUnique: jest.Mock;
+    createMany: jest.Mock;
+    update: jest.Mock;
+    deleteMany: jest.Mock;
+  };
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let interceptor: IdempotencyInterceptor;
+  let databaseService: MockDatabaseService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    idempotencyKey: {
+      findUnique: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const mockRecord = {
+    key: 'key-1',
+    fingerprint: 'fingerprint-1',
+    statusCode: 202,
+    response: { message: 'Vote received' },
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        IdempotencyInterceptor,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+    databaseService = module.get(DatabaseService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('lookup', () => {
+    it('should return the stored response of the same request', async () => {
+      databaseService.idempotencyKey.findUnique.mockResolvedValue(mockRecord);
+
+      await expect(service.lookup('key-1', 'fingerprint-1')).resolves.toEqual({
+        statusCode: 202,
+        body: { message: 'Vote received' },
+      });
+    });
+
+    it('should return null for an unknown or expired key', async () => {
+      databaseService.idempotencyKey.findUnique.mockResolvedValueOnce(null);
+      databaseService.idempotencyKey.findUnique.mockResolvedValueOnce({
+        ...mockRecord,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(
+        service.lookup('key-1', 'fingerprint-1'),
+      ).resolves.toBeNull();
+      await expect(
+        service.lookup('key-1', 'fingerprint-1'),
+      ).resolves.toBeNull();
+    });
+
+    it('should reject a key reused for a different request', async () => {
+      databaseService.idempotencyKey.findUnique.mockResolvedValue(mockRecord);
+
+      const error = await service
+        .lookup('key-1', 'fingerprint-2')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(UnprocessableEntityException);
+      expect(error.getResponse().code).toBe(
+        IdempotencyRejectionCode.KEY_REUSED,
+      );
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Idempotency key reused for a different request: key-1',
+      );
+    });
+
+    it('should reject a key whose request is still running', async () => {
+      databaseService.idempotencyKey.findUnique.mockResolvedValue({
+        ...mockRecord,
+        statusCode: null,
+        response: null,
+      });
+
+      const error = await service
+        .lookup('key-1', 'fingerprint-1')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse().code).toBe(
+        IdempotencyRejectionCode.IN_PROGRESS,
+      );
+    });
+  });
+
+  describe('claim', () => {
+    it('should reserve a new key after removing an expired one', async () => {
+      databaseService.idempotencyKey.createMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.claim('key-1', 'fingerprint-1')).resolves.toBeNull();
+      expect(databaseService.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'key-1', expiresAt: { lt: expect.any(Date) } },
+      });
+      expect(databaseService.idempotencyKey.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            key: 'key-1',
+            fingerprint: 'fingerprint-1',
+            expiresAt: expect.any(Date),
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should return the stored response when the key was taken', async () => {
+      databaseService.idempotencyKey.createMany.mockResolvedValue({ count: 0 });
+      databaseService.idempotencyKey.findUnique.mockResolvedValue(mockRecord);
+
+      await expect(service.claim('key-1', 'fingerprint-1')).resolves.toEqual({
+        statusCode: 202,
+        body: { message: 'Vote received' },
+      });
+    });
+  });
+
+  describe('complete', () => {
+    it('should log instead of throwing when the response cannot be stored', async () => {
+      databaseService.idempotencyKey.update.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        service.complete('key-1', { statusCode: 202, body: undefined }),
+      ).resolves.toBeUndefined();
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to store idempotent response: Database error',
+        500,
+      );
+    });
+
+    it('should release the key when the response cannot be stored', async () => {
+      databaseService.idempotencyKey.update.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await service.complete('key-1', { statusCode: 202, body: undefined });
+
+      expect(databaseService.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'key-1', statusCode: null },
+      });
+    });
+  });
+
+  describe('purgeExpiredKeys', () => {
+    it('should delete keys past their expiry', async () => {
+      databaseService.idempotencyKey.deleteMany.mockResolvedValue({ count: 4 });
+
+      await expect(service.purgeExpiredKeys()).resolves.toBe(4);
+      expect(databaseService.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) } },
+      });
+    });
+  });
+
+  describe('IdempotencyInterceptor', () => {
+    const createContext = (request: Record<string, unknown>) => {
+      const response = { statusCode: 202, setHeader: jest.fn() };
+      const context = {
+        switchToHttp: () => ({
+          getRequest: () => request,
+          getResponse: () => response,
+        }),
+      } as unknown as ExecutionContext;
+      return { context, response };
+    };
+
+    const handler = (result = of({ message: 'Vote received' })) =>
+      ({ handle: jest.fn(() => result) } as CallHandler);
+
+    const idempotency = {
+      key: 'key-1',
+      fingerprint: 'fingerprint-1',
+      replay: null,
+    };
+
+    it('should store the response of a new request', async () => {
+      databaseService.idempotencyKey.createMany.mockResolvedValue({ count: 1 });
+      const { context } = createContext({ idempotency });
+
+      await expect(
+        lastValueFrom(interceptor.intercept(context, handler())),
+      ).resolves.toEqual({ message: 'Vote received' });
+      expect(databaseService.idempotencyKey.update).toHaveBeenCalledWith({
+        where: { key: 'key-1' },
+        data: { statusCode: 202, response: { message: 'Vote received' } },
+      });
+    });
+
+    it('should replay a stored response without running the handler', async () => {
+      const { context, response } = createContext({
+        idempotency: {
+          ...idempotency,
+          replay: { statusCode: 202, body: { message: 'Vote received' } },
+        },
+      });
+      const next = handler();
+
+      await expect(
+        lastValueFrom(interceptor.intercept(context, next)),
+      ).resolves.toEqual({ message: 'Vote received' });
+      expect(next.handle).not.toHaveBeenCalled();
+      expect(response.setHeader).toHaveBeenCalledWith(
+        'Idempotent-Replayed',
+        'true',
+      );
+    });
+
+    it('should replay a stored client error', async () => {
+      const body = { statusCode: 409, message: 'Already voted' };
+      const { context } = createContext({
+        idempotency: {
+          ...idempotency,
+          replay: { statusCode: 409, body },
+        },
+      });
+
+      await expect(
+        lastValueFrom(interceptor.intercept(context, handler())),
+      ).rejects.toMatchObject({ response: body, status: 409 });
+    });
+
+    it('should store client errors and rethrow them', async () => {
+      databaseService.idempotencyKey.createMany.mockResolvedValue({ count: 1 });
+      const { context } = createContext({ idempotency });
+      const notFound = new NotFoundException('Poll not found');
+
+      await expect(
+        lastValueFrom(
+          interceptor.intercept(context, handler(throwError(() => notFound))),
+        ),
+      ).rejects.toBe(notFound);
+      expect(databaseService.idempotencyKey.update).toHaveBeenCalledWith({
+        where: { key: 'key-1' },
+        data: { statusCode: 404, response: notFound.getResponse() },
+      });
+    });
+
+    it('should release the key when the request fails unexpectedly', async () => {
+      databaseService.idempotencyKey.createMany.mockResolvedValue({ count: 1 });
+      const { context } = createContext({ idempotency });
+      const failure = new Error('Database error');
+
+      await expect(
+        lastValueFrom(
+          interceptor.intercept(context, handler(throwError(() => failure))),
+        ),
+      ).rejects.toBe(failure);
+      expect(databaseService.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'key-1', statusCode: null },
+      });
+      expect(databaseService.idempotencyKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave requests without an Idempotency-Key alone', async () => {
+      const { context } = createContext({});
+
+      await lastValueFrom(interceptor.intercept(context, handler()));
+      expect(databaseService.idempotencyKey.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+
+export enum IdempotencyRejectionCode {
+  INVALID_KEY = 'IDEMPOTENCY_KEY_INVALID',
+  KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+  IN_PROGRESS = 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+}
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * Stores the response of every request sent with an Idempotency-Key so a
+ * retry of the same request gets it back instead of running again
+ * Keys expire after IDEMPOTENCY_TTL_HOURS
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly ttlHours = Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Stored response of the request that used the key, or null when the key
+   * is new or expired
+   * Rejects a key used for a different request or still running
+   */
+  async lookup(
+    key: string,
+    fingerprint: string,
+  ): Promise<StoredResponse | null> {
+    const record = await this.db.idempotencyKey.findUnique({
+      where: { key },
+    });
+
+    if (!record || record.expiresAt.getTime() < Date.now()) {
+      return null;
+    }
+
+    if (record.fingerprint !== fingerprint) {
+      this.logger.LogWarning(
+        `Idempotency key reused for a different request: ${key}`,
+      );
+      throw new UnprocessableEntityException({
+        statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+        message:
+          'This Idempotency-Key has already been used for a different request',
+        error: 'Unprocessable Entity',
+        code: IdempotencyRejectionCode.KEY_REUSED,
+      });
+    }
+
+    if (record.statusCode === null) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        message:
+          'A request with this Idempotency-Key is still being processed, please retry later',
+        error: 'Conflict',
+        code: IdempotencyRejectionCode.IN_PROGRESS,
+      });
+    }
+
+    return { statusCode: record.statusCode, body: record.response };
+  }
+
+  /**
+   * Reserve the key for a request about to run, resolving to null once it
+   * is reserved. When another request got the key first, behaves like lookup
+   */
+  async claim(
+    key: string,
+    fingerprint: string,
+  ): Promise<StoredResponse | null> {
+    await this.db.idempotencyKey.deleteMany({
+      where: { key, expiresAt: { lt: new Date() } },
+    });
+
+    // The primary key makes the reservation atomic across concurrent requests
+    const { count } = await this.db.idempotencyKey.createMany({
+      data: [
+        {
+          key,
+          fingerprint,
+          expiresAt: new Date(Date.now() + this.ttlHours * 60 * 60 * 1000),
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return count === 1 ? null : this.lookup(key, fingerprint);
+  }
+
+  /**
+   * Store the response of the request holding the key
+   * Failures are logged and never fail the request itself. The key is then
+   * released, so retries run again instead of getting a 409 until it expires
+   */
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    try {
+      await this.db.idempotencyKey.update({
+        where: { key },
+        data: {
+          statusCode: response.statusCode,
+          response:
+            response.body === undefined
+              ? Prisma.DbNull
+              : (response.body as Prisma.InputJsonValue),
+        },
+      });
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to store idempotent response: ${error.message}`,
+        500,
+      );
+      await this.release(key);
+    }
+  }
+
+  /**
+   * Free the key of a request that failed unexpectedly so it can be retried
+   */
+  async release(key: string): Promise<void> {
+    try {
+      await this.db.idempotencyKey.deleteMany({
+        where: { key, statusCode: null },
+      });
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to release idempotency key: ${error.message}`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Remove keys past their expiry
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredKeys(): Promise<number> {
+    try {
+      const { count } = await this.db.idempotencyKey.deleteMany({
+        where: {
+          expiresAt: {
+            lt: new Date(),
+          },
+        },
+      });
+
+      this.logger.LogInfo(`Purged ${count} expired idempotency keys`);
+      return count;
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to purge expired idempotency keys: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiHeader, ApiUnprocessableEntityResponse } from '@nestjs/swagger';
+
+export const IDEMPOTENT_KEY = 'idempotent';
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+// Set on responses replayed from a previous request
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Honor the Idempotency-Key header on a mutating route: a retry with the
+ * same key and body gets the response of the first request
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    SetMetadata(IDEMPOTENT_KEY, true),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      description:
+        'Unique key of the request. Retries with the same key and body replay the first response, and get 409 while the first request is still running.',
+      required: false,
+    }),
+    ApiUnprocessableEntityResponse({
+      description:
+        'The Idempotency-Key was already used for a different request.',
+    }),
+  );
@@ -0,0 +1,14 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class ImportQueryDto {
+  @IsOptional()
+  @IsString()
+  pollId?: string;
+
+  // Validate the file and report what would happen without writing anything
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,31 @@
+export enum ImportRowStatus {
+  IMPORTED = 'imported',
+  // Passed validation in a dry run
+  VALID = 'valid',
+  INVALID = 'invalid',
+  DUPLICATE = 'duplicate',
+  // Valid, but its batch could not be committed
+  FAILED = 'failed',
+}
+
+export class ImportRowResultDto {
+  // Row of the spreadsheet, the header being row 1
+  row: number;
+  email: string;
+  country: string;
+  status: ImportRowStatus;
+  errors?: string[];
+}
+
+export class ImportReportDto {
+  pollId: string;
+  dryRun: boolean;
+  total: number;
+  // Rows that passed validation and duplicate checks
+  valid: number;
+  imported: number;
+  invalid: number;
+  duplicates: number;
+  failed: number;
+  rows: ImportRowResultDto[];
+}
@@ -0,0 +1,39 @@
+import { parseImportArgs } from './import-args';
+
+describe('parseImportArgs', () => {
+  it('should read a file without options', () => {
+    expect(parseImportArgs(['votes.csv'])).toEqual({
+      file: 'votes.csv',
+      pollId: undefined,
+      dryRun: false,
+    });
+  });
+
+  it('should read the dry run flag before or after the file', () => {
+    expect(parseImportArgs(['votes.csv', '--dry-run'])).toEqual({
+      file: 'votes.csv',
+      pollId: undefined,
+      dryRun: true,
+    });
+    expect(parseImportArgs(['--dry-run', 'votes.csv'])?.file).toBe('votes.csv');
+  });
+
+  it('should not take the poll id for the file', () => {
+    expect(parseImportArgs(['--poll', 'world-cup', 'votes.csv'])).toEqual({
+      file: 'votes.csv',
+      pollId: 'world-cup',
+      dryRun: false,
+    });
+    expect(
+      parseImportArgs(['votes.csv', '--poll', 'world-cup', '--dry-run']),
+    ).toEqual({ file: 'votes.csv', pollId: 'world-cup', dryRun: true });
+  });
+
+  it('should reject a missing file or poll id', () => {
+    expect(parseImportArgs([])).toBeNull();
+    expect(parseImportArgs(['--dry-run'])).toBeNull();
+    expect(parseImportArgs(['--poll', 'world-cup'])).toBeNull();
+    expect(parseImportArgs(['votes.csv', '--poll'])).toBeNull();
+    expect(parseImportArgs(['votes.csv', '--poll', '--dry-run'])).toBeNull();
+  });
+});
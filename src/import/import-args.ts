@@ -0,0 +1,25 @@
+export interface ImportArgs {
+  file: string;
+  pollId?: string;
+  dryRun: boolean;
+}
+
+/**
+ * Parse the arguments of the import:votes command, null when they are
+ * incomplete
+ */
+export function parseImportArgs(args: string[]): ImportArgs | null {
+  const dryRun = args.includes('--dry-run');
+  const pollIndex = args.indexOf('--poll');
+  const pollId = pollIndex === -1 ? undefined : args[pollIndex + 1];
+  const file = args.find(
+    (arg, index) =>
+      !arg.startsWith('--') && (pollIndex === -1 || index !== pollIndex + 1),
+  );
+
+  if (!file || (pollIndex !== -1 && (!pollId || pollId.startsWith('--')))) {
+    return null;
+  }
+
+  return { file, pollId, dryRun };
+}
@@ -0,0 +1,63 @@
+import { NestFactory } from '@nestjs/core';
+import { readFile } from 'fs/promises';
+import { AppModule } from '../app.module';
+import { ImportService } from './import.service';
+import { ImportRowStatus } from './dto/import-report.dto';
+import { parseImportArgs } from './import-args';
+
+/**
+ * Import votes from a CSV file without going through the HTTP API
+ * Usage: npm run import:votes -- <file.csv> [--poll <id>] [--dry-run]
+ */
+async function main() {
+  const args = parseImportArgs(process.argv.slice(2));
+
+  if (!args) {
+    console.error(
+      'Usage: npm run import:votes -- <file.csv> [--poll <id>] [--dry-run]',
+    );
+    process.exit(1);
+  }
+
+  const { file, pollId, dryRun } = args;
+  const csv = await readFile(file, 'utf8');
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const report = await app.get(ImportService).importVotes(csv, {
+      pollId,
+      dryRun,
+    });
+
+    console.log(
+      `${report.dryRun ? 'Dry run of' : 'Imported'} ${file} into poll ${
+        report.pollId
+      }`,
+    );
+    console.log(`  • Rows: ${report.total}`);
+    console.log(`  • Valid: ${report.valid}`);
+    console.log(`  • Imported: ${report.imported}`);
+    console.log(`  • Invalid: ${report.invalid}`);
+    console.log(`  • Duplicates: ${report.duplicates}`);
+    console.log(`  • Failed: ${report.failed}`);
+
+    const rejected = report.rows.filter(
+      ({ status }) =>
+        status !== ImportRowStatus.VALID && status !== ImportRowStatus.IMPORTED,
+    );
+    rejected.forEach(({ row, status, errors }) =>
+      console.log(`  Row ${row} (${status}): ${errors?.join('; ')}`),
+    );
+
+    process.exitCode = rejected.length > 0 ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((e) => {
+  console.error('Error importing votes:', e.message);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import {
+  BadRequestException,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBadRequestResponse,
+  ApiBody,
+  ApiConsumes,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { ImportService } from './import.service';
+import { ImportQueryDto } from './dto/import-query.dto';
+import { ImportReportDto } from './dto/import-report.dto';
+import { RequireRole } from '../auth/require-role.decorator';
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+@Controller('admin/import')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.ADMIN)
+export class ImportController {
+  constructor(private readonly importService: ImportService) {}
+
+  @Post('votes')
+  @ApiOperation({ summary: 'Import votes from a CSV file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'CSV with name, email and country columns',
+        },
+      },
+    },
+  })
+  @ApiOkResponse({
+    description: 'The per-row result of the import.',
+    type: ImportReportDto,
+  })
+  @ApiBadRequestResponse({ description: 'The file is missing or malformed.' })
+  @ApiNotFoundResponse({ description: 'The poll does not exist.' })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }),
+  )
+  @HttpCode(HttpStatus.OK)
+  async importVotes(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query() query: ImportQueryDto,
+  ): Promise<{ data: ImportReportDto }> {
+    if (!file) {
+      throw new BadRequestException('A CSV file is required');
+    }
+
+    const data = await this.importService.importVotes(
+      file.buffer.toString('utf8'),
+      query,
+    );
+    return { data };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ImportController } from './import.controller';
+import { ImportService } from './import.service';
+import { CountriesModule } from '../countries/countries.module';
+import { PollsModule } from '../polls/polls.module';
+import { VotesModule } from '../votes/votes.module';
+
+@Module({
+  imports: [CountriesModule, PollsModule, VotesModule],
+  controllers: [ImportController],
+  providers: [ImportService],
+  exports: [ImportService],
+})
+export class ImportModule {}
@@ -0,0 +1,361 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ImportService } from './import.service';
+import { ImportRowStatus } from './dto/import-report.dto';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { CountriesService } from '../countries/countries.service';
+import { PollsService } from '../polls/polls.service';
+import { VotesService } from '../votes/votes.service';
+import { VoteEventsService } from '../votes/vote-events.service';
+import { EmailPolicyService } from '../votes/email-policy.service';
+
+type MockDatabaseService = {
+  user: {
+    findMany: jest.Mock;
+    createMany: jest.Mock;
+  };
+  pollCountry: {
+    upsert: jest.Mock;
+  };
+  voteHistory: {
+    createMany: jest.Mock;
+  };
+  $transaction: jest.Mock;
+};
+
+type MockCountriesService = {
+  findCountry: jest.Mock;
+};
+
+type MockVotesService = {
+  resolveCountry: jest.Mock;
+};
+
+type MockPollsService = {
+  getPollById: jest.Mock;
+};
+
+type MockVoteEventsService = {
+  notifyStandingsChanged: jest.Mock;
+};
+
+type MockEmailPolicyService = {
+  check: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ImportService', () => {
+  let service: ImportService;
+  let databaseService: MockDatabaseService;
+  let countriesService: MockCountriesService;
+  let votesService: MockVotesService;
+  let pollsService: MockPollsService;
+  let voteEvents: MockVoteEventsService;
+  let emailPolicy: MockEmailPolicyService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    user: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    pollCountry: {
+      upsert: jest.fn(),
+    },
+    voteHistory: {
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const csv = (...lines: string[]) => lines.join('\n');
+
+  beforeEach(async () => {
+    process.env.IMPORT_BATCH_SIZE = '2';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: CountriesService,
+          useValue: { findCountry: jest.fn() },
+        },
+        {
+          provide: VotesService,
+          useValue: { resolveCountry: jest.fn() },
+        },
+        {
+          provide: PollsService,
+          useValue: { getPollById: jest.fn() },
+        },
+        {
+          provide: VoteEventsService,
+          useValue: { notifyStandingsChanged: jest.fn() },
+        },
+        {
+          provide: EmailPolicyService,
+          useValue: { check: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportService>(ImportService);
+    databaseService = module.get(DatabaseService);
+    countriesService = module.get(CountriesService);
+    votesService = module.get(VotesService);
+    pollsService = module.get(PollsService);
+    voteEvents = module.get(VoteEventsService);
+    emailPolicy = module.get(EmailPolicyService);
+    loggerService = module.get(LoggerService);
+
+    pollsService.getPollById.mockResolvedValue({
+      id: 'default',
+      title: 'Favorite country',
+    });
+    countriesService.findCountry.mockImplementation(async (identifier) => {
+      const code = identifier.toUpperCase();
+      return ['ARG', 'BRA'].includes(code) ? { cca3: code } : null;
+    });
+    votesService.resolveCountry.mockImplementation(async (code) => ({
+      id: `country-${code}`,
+      code,
+    }));
+    emailPolicy.check.mockReturnValue(null);
+    databaseService.user.findMany.mockResolvedValue([]);
+    databaseService.$transaction.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    delete process.env.IMPORT_BATCH_SIZE;
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('importVotes', () => {
+    it('should import valid rows in batches and report each row', async () => {
+      const result = await service.importVotes(
+        csv(
+          'name,email,country',
+          'John Doe,john@example.com,ARG',
+          'Jane Doe,jane@example.com,bra',
+          'Jim Doe,jim@example.com,ARG',
+        ),
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          pollId: 'default',
+          dryRun: false,
+          total: 3,
+          valid: 3,
+          imported: 3,
+          invalid: 0,
+          duplicates: 0,
+          failed: 0,
+        }),
+      );
+      expect(result.rows[1]).toEqual({
+        row: 3,
+        email: 'jane@example.com',
+        country: 'BRA',
+        status: ImportRowStatus.IMPORTED,
+      });
+      expect(databaseService.$transaction).toHaveBeenCalledTimes(2);
+      expect(databaseService.pollCountry.upsert).toHaveBeenCalledWith({
+        where: {
+          pollId_countryId: { pollId: 'default', countryId: 'country-ARG' },
+        },
+        create: { pollId: 'default', countryId: 'country-ARG', votes: 1 },
+        update: { votes: { increment: 1 } },
+      });
+      expect(databaseService.user.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            email: 'john@example.com',
+            canonicalEmail: 'john@example.com',
+          }),
+          expect.objectContaining({ email: 'jane@example.com' }),
+        ],
+      });
+      expect(databaseService.voteHistory.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            email: 'john@example.com',
+            canonicalEmail: 'john@example.com',
+            toCountryId: 'country-ARG',
+            source: 'import',
+          }),
+          expect.objectContaining({
+            email: 'jane@example.com',
+            toCountryId: 'country-BRA',
+            source: 'import',
+          }),
+        ],
+      });
+      expect(votesService.resolveCountry).toHaveBeenCalledTimes(2);
+      expect(voteEvents.notifyStandingsChanged).toHaveBeenCalledWith('default');
+    });
+
+    it('should not write anything in a dry run', async () => {
+      const result = await service.importVotes(
+        csv('Name,Email,Country', 'John Doe,john@example.com,ARG'),
+        { pollId: 'poll-1', dryRun: true },
+      );
+
+      expect(result.valid).toBe(1);
+      expect(result.imported).toBe(0);
+      expect(result.rows[0].status).toBe(ImportRowStatus.VALID);
+      expect(pollsService.getPollById).toHaveBeenCalledWith('poll-1');
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid rows with their errors', async () => {
+      const result = await service.importVotes(
+        csv(
+          'name,email,country',
+          ',john@example.com,ARG',
+          'Jane Doe,not-an-email,ARG',
+          'Jim Doe,jim@example.com,XXX',
+        ),
+        { dryRun: true },
+      );
+
+      expect(result.invalid).toBe(3);
+      expect(result.rows.map(({ errors }) => errors)).toEqual([
+        ['name should not be empty'],
+        ['email must be an email'],
+        ['Invalid country code'],
+      ]);
+      expect(countriesService.findCountry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject rows whose email domain is not accepted', async () => {
+      emailPolicy.check.mockImplementation((email: string) =>
+        email.endsWith('@yopmail.com')
+          ? {
+              code: 'EMAIL_DOMAIN_BLOCKED',
+              message: 'Votes from disposable email addresses are not accepted',
+            }
+          : null,
+      );
+
+      const result = await service.importVotes(
+        csv(
+          'name,email,country',
+          'John Doe,john@yopmail.com,ARG',
+          'Jane Doe,jane@example.com,ARG',
+        ),
+        { dryRun: true },
+      );
+
+      expect(result.invalid).toBe(1);
+      expect(result.rows[0].errors).toEqual([
+        'Votes from disposable email addresses are not accepted',
+      ]);
+      expect(result.rows[1].status).toBe(ImportRowStatus.VALID);
+    });
+
+    it('should reject emails repeated in the file or already voted', async () => {
+      databaseService.user.findMany.mockResolvedValue([
+        { canonicalEmail: 'janedoe@gmail.com' },
+      ]);
+
+      const result = await service.importVotes(
+        csv(
+          'name,email,country',
+          'John Doe,john@example.com,ARG',
+          'Johnny Doe,JOHN@example.com,BRA',
+          'Jane Doe,Jane.Doe+polls@gmail.com,BRA',
+        ),
+      );
+
+      expect(result.duplicates).toBe(2);
+      expect(result.imported).toBe(1);
+      expect(result.rows[1].errors).toEqual(['Duplicate of row 2']);
+      expect(result.rows[2].errors).toEqual([
+        'This email has already voted in this poll',
+      ]);
+      expect(databaseService.user.findMany).toHaveBeenCalledWith({
+        where: {
+          pollId: 'default',
+          canonicalEmail: { in: ['john@example.com', 'janedoe@gmail.com'] },
+        },
+        select: { canonicalEmail: true },
+      });
+    });
+
+    it('should mark the rows of a failed batch and keep importing', async () => {
+      databaseService.$transaction
+        .mockRejectedValueOnce(new Error('Database error'))
+        .mockResolvedValueOnce([]);
+
+      const result = await service.importVotes(
+        csv(
+          'name,email,country',
+          'John Doe,john@example.com,ARG',
+          'Jane Doe,jane@example.com,ARG',
+          'Jim Doe,jim@example.com,BRA',
+        ),
+      );
+
+      expect(result.failed).toBe(2);
+      expect(result.imported).toBe(1);
+      expect(result.rows[0].status).toBe(ImportRowStatus.FAILED);
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to import batch of rows 2-3: Database error',
+        500,
+      );
+    });
+
+    it('should throw BadRequestException when a column is missing', async () => {
+      await expect(
+        service.importVotes(csv('name,email', 'John Doe,john@example.com')),
+      ).rejects.toThrow(BadRequestException);
+      expect(pollsService.getPollById).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when the file has no rows', async () => {
+      await expect(service.importVotes('name,email,country\n')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should rethrow NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(
+        service.importVotes(
+          csv('name,email,country', 'John Doe,john@example.com,ARG'),
+          { pollId: 'missing' },
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+  });
+});
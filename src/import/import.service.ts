@@ -0,0 +1,368 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { VoteAction } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { canonicalizeEmail } from 'src/shared/utils/email.util';
+import { CountriesService } from '../countries/countries.service';
+import { DEFAULT_POLL_ID, PollsService } from '../polls/polls.service';
+import { VotesService } from '../votes/votes.service';
+import { VoteEventsService } from '../votes/vote-events.service';
+import { EmailPolicyService } from '../votes/email-policy.service';
+import { CreateVoteDto } from '../votes/dto/create-vote.dto';
+import {
+  ImportReportDto,
+  ImportRowResultDto,
+  ImportRowStatus,
+} from './dto/import-report.dto';
+import { parseCsv } from './csv-parser';
+
+// Accepted header names for each column, compared case-insensitively
+const COLUMN_ALIASES: Record<keyof CreateVoteDto, string[]> = {
+  name: ['name'],
+  email: ['email'],
+  country: ['country', 'countrycode', 'country_code', 'code'],
+};
+
+type ParsedRow = {
+  result: ImportRowResultDto;
+  vote: CreateVoteDto;
+};
+
+/**
+ * Imports votes collected offline (paper, kiosks) from a CSV file
+ * Imported votes count immediately: they skip the email confirmation and
+ * are recorded in the vote ledger with source "import"
+ */
+@Injectable()
+export class ImportService {
+  private readonly batchSize = Number(process.env.IMPORT_BATCH_SIZE) || 100;
+  private readonly maxRows = Number(process.env.IMPORT_MAX_ROWS) || 10000;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly countriesService: CountriesService,
+    private readonly votesService: VotesService,
+    private readonly pollsService: PollsService,
+    private readonly voteEvents: VoteEventsService,
+    private readonly emailPolicy: EmailPolicyService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Validate every row of the CSV and import the valid ones in batches
+   * In a dry run nothing is written and valid rows are reported as such
+   */
+  async importVotes(
+    csv: string,
+    options: { pollId?: string; dryRun?: boolean } = {},
+  ): Promise<ImportReportDto> {
+    const pollId = options.pollId ?? DEFAULT_POLL_ID;
+    const dryRun = options.dryRun ?? false;
+    this.logger.LogInfo(
+      `Importing votes into poll ${pollId}${dryRun ? ' (dry run)' : ''}`,
+    );
+
+    const rows = this.parseRows(csv);
+
+    try {
+      await this.pollsService.getPollById(pollId);
+
+      await this.validateRows(rows);
+      await this.markDuplicates(pollId, rows);
+
+      const validRows = rows.filter(
+        ({ result }) => result.status === ImportRowStatus.VALID,
+      );
+
+      if (!dryRun && validRows.length > 0) {
+        await this.commitRows(pollId, validRows);
+      }
+
+      const report = this.toReport(pollId, dryRun, rows);
+      this.logger.LogInfo(
+        `Import into poll ${pollId} finished: ${report.imported} imported, ${report.valid} valid, ${report.invalid} invalid, ${report.duplicates} duplicates, ${report.failed} failed`,
+      );
+
+      return report;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(`Failed to import votes: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  private parseRows(csv: string): ParsedRow[] {
+    const [header, ...records] = parseCsv(csv);
+
+    if (!header || records.length === 0) {
+      throw new BadRequestException('The CSV file has no vote rows');
+    }
+
+    if (records.length > this.maxRows) {
+      throw new BadRequestException(
+        `The CSV file has ${records.length} rows, the maximum is ${this.maxRows}`,
+      );
+    }
+
+    const headerNames = header.map((name) => name.trim().toLowerCase());
+    const columnIndex = {} as Record<keyof CreateVoteDto, number>;
+    const missing: string[] = [];
+
+    (Object.keys(COLUMN_ALIASES) as (keyof CreateVoteDto)[]).forEach(
+      (column) => {
+        columnIndex[column] = headerNames.findIndex((name) =>
+          COLUMN_ALIASES[column].includes(name),
+        );
+        if (columnIndex[column] === -1) {
+          missing.push(column);
+        }
+      },
+    );
+
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing required columns: ${missing.join(', ')}`,
+      );
+    }
+
+    return records.map((record, index) => {
+      const vote = {
+        name: (record[columnIndex.name] ?? '').trim(),
+        email: (record[columnIndex.email] ?? '').trim(),
+        country: (record[columnIndex.country] ?? '').trim(),
+      };
+
+      return {
+        vote,
+        result: {
+          row: index + 2,
+          email: vote.email,
+          country: vote.country,
+          status: ImportRowStatus.VALID,
+        },
+      };
+    });
+  }
+
+  /**
+   * Apply the CreateVoteDto rules, the email domain policy and the country
+   * check to every row
+   * Country identifiers are replaced by their cca3 code
+   */
+  private async validateRows(rows: ParsedRow[]): Promise<void> {
+    const knownCountries = new Map<string, string | null>();
+
+    for (const { vote, result } of rows) {
+      const errors = await validate(plainToInstance(CreateVoteDto, vote));
+
+      if (errors.length > 0) {
+        this.reject(
+          result,
+          ImportRowStatus.INVALID,
+          errors.flatMap((error) => Object.values(error.constraints ?? {})),
+        );
+        continue;
+      }
+
+      const rejection = this.emailPolicy.check(vote.email);
+      if (rejection) {
+        this.reject(result, ImportRowStatus.INVALID, [rejection.message]);
+        continue;
+      }
+
+      if (!knownCountries.has(vote.country)) {
+        const country = await this.countriesService.findCountry(vote.country);
+        knownCountries.set(vote.country, country?.cca3 ?? null);
+      }
+
+      const code = knownCountries.get(vote.country);
+      if (code) {
+        vote.country = code;
+        result.country = code;
+      } else {
+        this.reject(result, ImportRowStatus.INVALID, ['Invalid country code']);
+      }
+    }
+  }
+
+  /**
+   * Reject repeated emails inside the file and emails that already voted,
+   * comparing their canonical form
+   */
+  private async markDuplicates(
+    pollId: string,
+    rows: ParsedRow[],
+  ): Promise<void> {
+    const firstRowByEmail = new Map<string, number>();
+
+    rows
+      .filter(({ result }) => result.status === ImportRowStatus.VALID)
+      .forEach(({ vote, result }) => {
+        const email = canonicalizeEmail(vote.email);
+        const firstRow = firstRowByEmail.get(email);
+
+        if (firstRow === undefined) {
+          firstRowByEmail.set(email, result.row);
+        } else {
+          this.reject(result, ImportRowStatus.DUPLICATE, [
+            `Duplicate of row ${firstRow}`,
+          ]);
+        }
+      });
+
+    const candidates = rows.filter(
+      ({ result }) => result.status === ImportRowStatus.VALID,
+    );
+    const existing = new Set<string>();
+
+    for (let i = 0; i < candidates.length; i += 1000) {
+      const users = await this.db.user.findMany({
+        where: {
+          pollId,
+          canonicalEmail: {
+            in: candidates
+              .slice(i, i + 1000)
+              .map(({ vote }) => canonicalizeEmail(vote.email)),
+          },
+        },
+        select: {
+          canonicalEmail: true,
+        },
+      });
+      users.forEach((user) => existing.add(user.canonicalEmail));
+    }
+
+    candidates
+      .filter(({ vote }) => existing.has(canonicalizeEmail(vote.email)))
+      .forEach(({ result }) =>
+        this.reject(result, ImportRowStatus.DUPLICATE, [
+          'This email has already voted in this poll',
+        ]),
+      );
+  }
+
+  /**
+   * Write valid rows in batches, one transaction per batch
+   * A failing batch is reported and the following batches still run
+   */
+  private async commitRows(pollId: string, rows: ParsedRow[]): Promise<void> {
+    const countryIds = new Map<string, string>();
+    const entries: (ParsedRow & { countryId: string })[] = [];
+
+    for (const row of rows) {
+      let countryId = countryIds.get(row.vote.country);
+      if (!countryId) {
+        countryId = (await this.votesService.resolveCountry(row.vote.country))
+          .id;
+        countryIds.set(row.vote.country, countryId);
+      }
+      entries.push({ ...row, countryId });
+    }
+
+    let imported = 0;
+
+    for (let i = 0; i < entries.length; i += this.batchSize) {
+      const batch = entries.slice(i, i + this.batchSize);
+      const votesByCountry = new Map<string, number>();
+      batch.forEach(({ countryId }) =>
+        votesByCountry.set(countryId, (votesByCountry.get(countryId) ?? 0) + 1),
+      );
+
+      try {
+        await this.db.$transaction([
+          this.db.user.createMany({
+            data: batch.map(({ vote, countryId }) => ({
+              name: vote.name,
+              email: vote.email,
+              canonicalEmail: canonicalizeEmail(vote.email),
+              pollId,
+              countryId,
+            })),
+          }),
+          ...Array.from(votesByCountry, ([countryId, votes]) =>
+            this.db.pollCountry.upsert({
+              where: { pollId_countryId: { pollId, countryId } },
+              create: { pollId, countryId, votes },
+              update: { votes: { increment: votes } },
+            }),
+          ),
+          this.db.voteHistory.createMany({
+            data: batch.map(({ vote, countryId }) => ({
+              name: vote.name,
+              email: vote.email,
+              canonicalEmail: canonicalizeEmail(vote.email),
+              pollId,
+              action: VoteAction.CAST,
+              toCountryId: countryId,
+              source: 'import',
+            })),
+          }),
+        ]);
+
+        batch.forEach(
+          ({ result }) => (result.status = ImportRowStatus.IMPORTED),
+        );
+        imported += batch.length;
+      } catch (error) {
+        this.logger.LogError(
+          `Failed to import batch of rows ${batch[0].result.row}-${
+            batch[batch.length - 1].result.row
+          }: ${error.message}`,
+          500,
+        );
+        batch.forEach(({ result }) =>
+          this.reject(result, ImportRowStatus.FAILED, [
+            'The batch holding this row could not be saved',
+          ]),
+        );
+      }
+    }
+
+    if (imported > 0) {
+      this.voteEvents.notifyStandingsChanged(pollId);
+    }
+  }
+
+  private reject(
+    result: ImportRowResultDto,
+    status: ImportRowStatus,
+    errors: string[],
+  ): void {
+    result.status = status;
+    result.errors = errors;
+  }
+
+  private toReport(
+    pollId: string,
+    dryRun: boolean,
+    rows: ParsedRow[],
+  ): ImportReportDto {
+    const results = rows.map(({ result }) => result);
+    const count = (...statuses: ImportRowStatus[]) =>
+      results.filter((result) => statuses.includes(result.status)).length;
+
+    return {
+      pollId,
+      dryRun,
+      total: results.length,
+      valid: count(
+        ImportRowStatus.VALID,
+        ImportRowStatus.IMPORTED,
+        ImportRowStatus.FAILED,
+      ),
+      imported: count(ImportRowStatus.IMPORTED),
+      invalid: count(ImportRowStatus.INVALID),
+      duplicates: count(ImportRowStatus.DUPLICATE),
+      failed: count(ImportRowStatus.FAILED),
+      rows: results,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { MailService } from './mail.service';
+import { MailTransport } from './transports/mail-transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+import { DatabaseMailTransport } from './transports/database-mail.transport';
+
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MailTransport,
+      inject: [DatabaseService],
+      useFactory: (db: DatabaseService): MailTransport =>
+        process.env.MAIL_TRANSPORT === 'database'
+          ? new DatabaseMailTransport(db)
+          : new FileMailTransport(process.env.MAIL_OUTBOX_DIR || 'outbox'),
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
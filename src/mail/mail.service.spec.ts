@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MailService } from './mail.service';
+import { MailTransport } from './transports/mail-transport';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockMailTransport = {
+  send: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('MailService', () => {
+  let service: MailService;
+  let transport: MockMailTransport;
+  let loggerService: MockLoggerService;
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const expiresAt = new Date('2025-11-24T11:15:00.000Z');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        {
+          provide: MailTransport,
+          useValue: { send: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+    transport = module.get(MailTransport);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('sendVoteConfirmation', () => {
+    it('should send the confirmation link through the transport', async () => {
+      transport.send.mockResolvedValue(undefined);
+
+      await service.sendVoteConfirmation(
+        'john@example.com',
+        'John Doe',
+        'abc123',
+        expiresAt,
+      );
+
+      expect(transport.send).toHaveBeenCalledWith({
+        to: 'john@example.com',
+        subject: 'Confirm your vote',
+        body: expect.stringContaining('/api/votes/confirm?token=abc123'),
+      });
+      expect(transport.send.mock.calls[0][0].body).toContain(
+        expiresAt.toISOString(),
+      );
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Sending vote confirmation to: john@example.com',
+      );
+    });
+
+    it('should handle transport errors', async () => {
+      transport.send.mockRejectedValue(new Error('Disk full'));
+
+      await expect(
+        service.sendVoteConfirmation(
+          'john@example.com',
+          'John Doe',
+          'abc123',
+          expiresAt,
+        ),
+      ).rejects.toThrow('Disk full');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to send vote confirmation: Disk full',
+        500,
+      );
+    });
+  });
+});
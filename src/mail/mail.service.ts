@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { MailTransport } from './transports/mail-transport';
+
+@Injectable()
+export class MailService {
+  private readonly appBaseUrl =
+    process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+  constructor(
+    private readonly transport: MailTransport,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Send the one-time link that turns a pending vote into a counted one
+   */
+  async sendVoteConfirmation(
+    to: string,
+    name: string,
+    token: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    const confirmUrl = `${this.appBaseUrl}/api/votes/confirm?token=${token}`;
+    this.logger.LogInfo(`Sending vote confirmation to: ${to}`);
+
+    try {
+      await this.transport.send({
+        to,
+        subject: 'Confirm your vote',
+        body: [
+          `Hi ${name},`,
+          '',
+          'Please confirm your vote by opening the link below:',
+          confirmUrl,
+          '',
+          `This link expires at ${expiresAt.toISOString()}.`,
+          'If you did not vote, you can ignore this email.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to send vote confirmation: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send the token that lets a voter change or withdraw a confirmed vote
+   */
+  async sendVoteManageToken(
+    to: string,
+    name: string,
+    token: string,
+  ): Promise<void> {
+    this.logger.LogInfo(`Sending vote manage token to: ${to}`);
+
+    try {
+      await this.transport.send({
+        to,
+        subject: 'Manage your vote',
+        body: [
+          `Hi ${name},`,
+          '',
+          'Use the token below to change or withdraw your vote:',
+          token,
+          '',
+          'Requesting a new token invalidates this one.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to send vote manage token: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { DatabaseService } from 'src/shared/services/database.service';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Stores every message in the OutboxMessage table
+ * Useful for dev environments where the filesystem is not accessible
+ */
+export class DatabaseMailTransport extends MailTransport {
+  constructor(private readonly db: DatabaseService) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.db.outboxMessage.create({
+      data: {
+        to: message.to,
+        subject: message.subject,
+        body: message.body,
+      },
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Writes every message as a JSON file into an outbox directory
+ * Intended for local development
+ */
+export class FileMailTransport extends MailTransport {
+  constructor(private readonly outboxDir: string) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    await writeFile(
+      join(this.outboxDir, fileName),
+      JSON.stringify(
+        { ...message, createdAt: new Date().toISOString() },
+        null,
+        2,
+      ),
+    );
+  }
+}
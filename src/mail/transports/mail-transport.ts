@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Delivery mechanism for outgoing mail
+ * Injected by class token so implementations can be swapped per environment
+ */
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
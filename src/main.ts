@@ -1,22 +1,37 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import {
+  API_KEY_HEADER,
+  API_KEY_SECURITY,
+} from './auth/require-role.decorator';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Number of proxy hops to trust so rate limits see the client IP
+  if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', Number(process.env.TRUST_PROXY));
+  }
 
   app.enableCors({
     origin: '*',
     credentials: true,
   });
 
-  app.setGlobalPrefix('api');
+  // Prometheus scrapes /metrics by default
+  app.setGlobalPrefix('api', { exclude: ['metrics'] });
 
   const config = new DocumentBuilder()
     .setTitle('Country Vote API')
     .setDescription('API for the Country Vote application')
     .setVersion('1.0')
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+      API_KEY_SECURITY,
+    )
     .build();
   const document = SwaggerModule.createDocument(app, config);
 
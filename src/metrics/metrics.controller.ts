@@ -0,0 +1,22 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Registry } from 'prom-client';
+import { MetricsService } from './metrics.service';
+
+// Excluded from the api prefix in main.ts
+@Controller('metrics')
+@ApiTags('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Get the metrics in the Prometheus text format' })
+  @ApiOkResponse({
+    description:
+      'HTTP, vote, country catalog and leaderboard metrics, plus Node.js process metrics.',
+  })
+  async getMetrics(): Promise<string> {
+    return this.metricsService.getMetrics();
+  }
+}
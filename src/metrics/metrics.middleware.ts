@@ -0,0 +1,29 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { getMatchedRoute } from 'src/shared/utils/route.util';
+import { MetricsService, UNMATCHED_ROUTE } from './metrics.service';
+
+/**
+ * Counts and times every request by route pattern and status, including
+ * the ones rejected by guards before reaching their handler
+ */
+@Injectable()
+export class MetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const startedAt = performance.now();
+    const middlewareRoute = request.route;
+
+    response.once('close', () => {
+      this.metricsService.recordHttpRequest(
+        request.method,
+        getMatchedRoute(request, middlewareRoute) ?? UNMATCHED_ROUTE,
+        response.statusCode,
+        (performance.now() - startedAt) / 1000,
+      );
+    });
+
+    next();
+  }
+}
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MetricsService, UNMATCHED_ROUTE } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MetricsService],
+    }).compile();
+
+    service = module.get<MetricsService>(MetricsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should count and time HTTP requests by method, route and status', async () => {
+    service.recordHttpRequest('POST', '/api/votes', 202, 0.042);
+    service.recordHttpRequest('POST', '/api/votes', 202, 0.3);
+    service.recordHttpRequest('GET', UNMATCHED_ROUTE, 404, 0.001);
+
+    const metrics = await service.getMetrics();
+
+    expect(metrics).toContain(
+      'http_requests_total{method="POST",route="/api/votes",status="202"} 2',
+    );
+    expect(metrics).toContain(
+      'http_requests_total{method="GET",route="unmatched",status="404"} 1',
+    );
+    expect(metrics).toContain(
+      'http_request_duration_seconds_bucket{le="0.05",method="POST",route="/api/votes",status="202"} 1',
+    );
+    expect(metrics).toContain(
+      'http_request_duration_seconds_count{method="POST",route="/api/votes",status="202"} 2',
+    );
+  });
+
+  it('should count accepted and rejected votes', async () => {
+    service.recordVoteAccepted('submitted');
+    service.recordVoteRejected('submitted', 'duplicate');
+    service.recordVoteRejected('submitted', 'invalid_country');
+    service.recordVoteRejected('submitted', 'invalid_country');
+
+    const metrics = await service.getMetrics();
+
+    expect(metrics).toContain('votes_accepted_total{stage="submitted"} 1');
+    expect(metrics).toContain(
+      'votes_rejected_total{stage="submitted",reason="duplicate"} 1',
+    );
+    expect(metrics).toContain(
+      'votes_rejected_total{stage="submitted",reason="invalid_country"} 2',
+    );
+  });
+
+  it('should time country catalog fetches and count their failures', async () => {
+    service.startCountryCatalogFetch('REST Countries API')('failure');
+    service.startCountryCatalogFetch('bundled snapshot')('success');
+
+    const metrics = await service.getMetrics();
+
+    expect(metrics).toContain(
+      'country_catalog_fetch_duration_seconds_count{provider="REST Countries API",result="failure"} 1',
+    );
+    expect(metrics).toContain(
+      'country_catalog_fetch_duration_seconds_count{provider="bundled snapshot",result="success"} 1',
+    );
+    expect(metrics).toContain(
+      'country_catalog_fetch_failures_total{provider="REST Countries API"} 1',
+    );
+    expect(metrics).not.toContain(
+      'country_catalog_fetch_failures_total{provider="bundled snapshot"}',
+    );
+  });
+
+  it('should count cache hits and misses', async () => {
+    service.recordCountriesCacheRead(false);
+    service.recordCountriesCacheRead(true);
+    service.recordCountriesCacheRead(true);
+
+    const metrics = await service.getMetrics();
+
+    expect(metrics).toContain('countries_cache_hits_total 2');
+    expect(metrics).toContain('countries_cache_misses_total 1');
+  });
+
+  it('should time leaderboard queries', async () => {
+    service.startLeaderboardQuery('search')();
+
+    expect(await service.getMetrics()).toContain(
+      'leaderboard_query_duration_seconds_count{query="search"} 1',
+    );
+  });
+
+  it('should include the Node.js process metrics', async () => {
+    expect(await service.getMetrics()).toContain('process_cpu_seconds_total');
+  });
+});
@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+export type VoteStage = 'submitted' | 'confirmed';
+
+export type VoteRejectionReason =
+  | 'duplicate'
+  | 'invalid_country'
+  | 'email_domain'
+  | 'invalid_token'
+  | 'expired_token';
+
+export type LeaderboardQuery = 'top' | 'search';
+
+// Label of requests that matched no route, so unknown paths cannot grow
+// the number of series
+export const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * Holds the application metrics and renders them in the Prometheus text
+ * format
+ * Each instance has its own registry, along with the default Node.js
+ * process metrics
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new Registry();
+
+  private readonly httpRequests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests by method, route and status',
+    labelNames: ['method', 'route', 'status'],
+    registers: [this.registry],
+  });
+  private readonly httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency by method, route and status',
+    labelNames: ['method', 'route', 'status'],
+    registers: [this.registry],
+  });
+  private readonly votesAccepted = new Counter({
+    name: 'votes_accepted_total',
+    help: 'Votes accepted by stage (submitted or confirmed)',
+    labelNames: ['stage'],
+    registers: [this.registry],
+  });
+  private readonly votesRejected = new Counter({
+    name: 'votes_rejected_total',
+    help: 'Votes rejected by stage and reason',
+    labelNames: ['stage', 'reason'],
+    registers: [this.registry],
+  });
+  private readonly countryCatalogFetchDuration = new Histogram({
+    name: 'country_catalog_fetch_duration_seconds',
+    help: 'Latency of country catalog fetches by provider and result',
+    labelNames: ['provider', 'result'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+  private readonly countryCatalogFetchFailures = new Counter({
+    name: 'country_catalog_fetch_failures_total',
+    help: 'Failed country catalog fetches by provider',
+    labelNames: ['provider'],
+    registers: [this.registry],
+  });
+  private readonly countriesCacheHits = new Counter({
+    name: 'countries_cache_hits_total',
+    help: 'Country catalog reads served from the cache, fresh or stale',
+    registers: [this.registry],
+  });
+  private readonly countriesCacheMisses = new Counter({
+    name: 'countries_cache_misses_total',
+    help: 'Country catalog reads that had to wait for a fetch',
+    registers: [this.registry],
+  });
+  private readonly leaderboardQueryDuration = new Histogram({
+    name: 'leaderboard_query_duration_seconds',
+    help: 'Duration of leaderboard queries by query (top or search)',
+    labelNames: ['query'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  async getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  recordHttpRequest(
+    method: string,
+    route: string,
+    status: number,
+    durationSeconds: number,
+  ): void {
+    const labels = { method, route, status: String(status) };
+    this.httpRequests.inc(labels);
+    this.httpRequestDuration.observe(labels, durationSeconds);
+  }
+
+  recordVoteAccepted(stage: VoteStage): void {
+    this.votesAccepted.inc({ stage });
+  }
+
+  recordVoteRejected(stage: VoteStage, reason: VoteRejectionReason): void {
+    this.votesRejected.inc({ stage, reason });
+  }
+
+  /**
+   * Start timing a fetch of the country catalog, the returned callback
+   * records it once it succeeded or failed
+   */
+  startCountryCatalogFetch(
+    provider: string,
+  ): (result: 'success' | 'failure') => void {
+    const stopTimer = this.countryCatalogFetchDuration.startTimer({
+      provider,
+    });
+
+    return (result) => {
+      stopTimer({ result });
+      if (result === 'failure') {
+        this.countryCatalogFetchFailures.inc({ provider });
+      }
+    };
+  }
+
+  recordCountriesCacheRead(hit: boolean): void {
+    (hit ? this.countriesCacheHits : this.countriesCacheMisses).inc();
+  }
+
+  /**
+   * Start timing a leaderboard query, the returned callback records it
+   */
+  startLeaderboardQuery(query: LeaderboardQuery): () => void {
+    const stopTimer = this.leaderboardQueryDuration.startTimer({ query });
+    return () => {
+      stopTimer();
+    };
+  }
+}
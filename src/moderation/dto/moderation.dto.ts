@@ -0,0 +1,125 @@
+import { ModerationAction, VoteStatus } from '@prisma/client';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsISO8601,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const MAX_MODERATION_VOTE_IDS = 500;
+export const DEFAULT_MODERATION_LIMIT = 50;
+export const MAX_MODERATION_LIMIT = 200;
+
+/**
+ * Selects votes of a poll, every given criterion must match
+ */
+export class VoteSelectionDto {
+  @IsOptional()
+  @IsString()
+  pollId?: string;
+
+  // Comma separated in query strings
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',') : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(MAX_MODERATION_VOTE_IDS)
+  @IsString({ each: true })
+  voteIds?: string[];
+
+  // Part of the email after the @, e.g. example.com
+  @IsOptional()
+  @Matches(/^[^@\s]+\.[^@\s]+$/, {
+    message: 'emailDomain must be a domain name',
+  })
+  emailDomain?: string;
+
+  // Inclusive start of the time window the votes were cast in
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  // Exclusive end of the time window the votes were cast in
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  // Country code (cca3)
+  @IsOptional()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'country must be a cca3 country code' })
+  country?: string;
+}
+
+export class ModerateVotesDto extends VoteSelectionDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ModerationQueryDto extends VoteSelectionDto {
+  @IsOptional()
+  @IsEnum(VoteStatus)
+  status?: VoteStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_MODERATION_LIMIT)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class ModerationResultDto {
+  pollId: string;
+  action: ModerationAction;
+  // Votes matching the selection
+  matched: number;
+  // Votes whose status changed, the others already had the target status
+  updated: number;
+  // Vote count change of each affected country code
+  countryVotes: Record<string, number>;
+}
+
+export class ModerationEntryDto {
+  action: ModerationAction;
+  reason: string;
+  actor: string;
+  createdAt: Date;
+}
+
+export class ModeratedVoteDto {
+  id: string;
+  name: string;
+  email: string;
+  country: string;
+  status: VoteStatus;
+  createdAt: Date;
+  // Oldest first
+  moderation: ModerationEntryDto[];
+}
+
+export class ModeratedVotesPageDto {
+  data: ModeratedVoteDto[];
+  meta: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
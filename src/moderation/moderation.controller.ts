@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyRole, ModerationAction } from '@prisma/client';
+import { ModerationService } from './moderation.service';
+import {
+  ModeratedVotesPageDto,
+  ModerateVotesDto,
+  ModerationQueryDto,
+  ModerationResultDto,
+} from './dto/moderation.dto';
+import { RequireRole } from '../auth/require-role.decorator';
+import { CurrentApiKey } from '../auth/current-api-key.decorator';
+import { AuthenticatedApiKey } from '../auth/api-keys.service';
+
+@Controller('admin/moderation')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.MODERATOR)
+@ApiNotFoundResponse({ description: 'The poll does not exist.' })
+@ApiBadRequestResponse({ description: 'Invalid vote selection.' })
+export class ModerationController {
+  constructor(private readonly moderationService: ModerationService) {}
+
+  @Get('votes')
+  @ApiOperation({ summary: 'List moderated votes with their history' })
+  @ApiOkResponse({
+    description: 'The votes have been successfully fetched.',
+    type: ModeratedVotesPageDto,
+  })
+  async getModeratedVotes(
+    @Query() query: ModerationQueryDto,
+  ): Promise<ModeratedVotesPageDto> {
+    return this.moderationService.getModeratedVotes(query);
+  }
+
+  @Post('votes/flag')
+  @ApiOperation({ summary: 'Flag votes for review, they keep counting' })
+  @ApiOkResponse({
+    description: 'The selected votes have been flagged.',
+    type: ModerationResultDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async flagVotes(
+    @Body() moderateVotesDto: ModerateVotesDto,
+    @CurrentApiKey() apiKey: AuthenticatedApiKey,
+  ): Promise<{ data: ModerationResultDto }> {
+    const data = await this.moderationService.moderateVotes(
+      ModerationAction.FLAG,
+      moderateVotesDto,
+      apiKey,
+    );
+    return { data };
+  }
+
+  @Post('votes/void')
+  @ApiOperation({ summary: 'Void votes so they stop counting' })
+  @ApiOkResponse({
+    description: 'The selected votes have been voided.',
+    type: ModerationResultDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async voidVotes(
+    @Body() moderateVotesDto: ModerateVotesDto,
+    @CurrentApiKey() apiKey: AuthenticatedApiKey,
+  ): Promise<{ data: ModerationResultDto }> {
+    const data = await this.moderationService.moderateVotes(
+      ModerationAction.VOID,
+      moderateVotesDto,
+      apiKey,
+    );
+    return { data };
+  }
+
+  @Post('votes/restore')
+  @ApiOperation({
+    summary: 'Restore flagged or voided votes, voided ones count again',
+  })
+  @ApiOkResponse({
+    description: 'The selected votes have been restored.',
+    type: ModerationResultDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async restoreVotes(
+    @Body() moderateVotesDto: ModerateVotesDto,
+    @CurrentApiKey() apiKey: AuthenticatedApiKey,
+  ): Promise<{ data: ModerationResultDto }> {
+    const data = await this.moderationService.moderateVotes(
+      ModerationAction.RESTORE,
+      moderateVotesDto,
+      apiKey,
+    );
+    return { data };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ModerationController } from './moderation.controller';
+import { ModerationService } from './moderation.service';
+import { PollsModule } from '../polls/polls.module';
+import { VotesModule } from '../votes/votes.module';
+
+@Module({
+  imports: [PollsModule, VotesModule],
+  controllers: [ModerationController],
+  providers: [ModerationService],
+})
+export class ModerationModule {}
@@ -0,0 +1,464 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ApiKeyRole, ModerationAction } from '@prisma/client';
+import { ModerationService } from './moderation.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { PollsService } from '../polls/polls.service';
+import { VoteEventsService } from '../votes/vote-events.service';
+
+type MockDatabaseService = {
+  user: {
+    count: jest.Mock;
+    findMany: jest.Mock;
+    updateMany: jest.Mock;
+  };
+  pollCountry: {
+    update: jest.Mock;
+  };
+  voteHistory: {
+    createMany: jest.Mock;
+  };
+  voteModeration: {
+    createMany: jest.Mock;
+    findMany: jest.Mock;
+  };
+  $transaction: jest.Mock;
+  $queryRaw: jest.Mock;
+};
+
+type MockPollsService = {
+  getPollById: jest.Mock;
+};
+
+type MockVoteEventsService = {
+  notifyStandingsChanged: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ModerationService', () => {
+  let service: ModerationService;
+  let databaseService: MockDatabaseService;
+  let pollsService: MockPollsService;
+  let voteEvents: MockVoteEventsService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    user: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    pollCountry: {
+      update: jest.fn(),
+    },
+    voteHistory: {
+      createMany: jest.fn(),
+    },
+    voteModeration: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const apiKey = { id: 'key-1', name: 'Ops team', role: ApiKeyRole.MODERATOR };
+  const createdAt = new Date('2025-12-01T10:00:00.000Z');
+
+  const vote = (
+    id: string,
+    email: string,
+    code: string,
+    status: 'ACTIVE' | 'FLAGGED' | 'VOIDED',
+  ) => ({
+    id,
+    name: 'John Doe',
+    email,
+    canonicalEmail: email,
+    pollId: 'default',
+    countryId: `country-${code}`,
+    country: { code },
+    status,
+    createdAt,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: PollsService,
+          useValue: { getPollById: jest.fn() },
+        },
+        {
+          provide: VoteEventsService,
+          useValue: { notifyStandingsChanged: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ModerationService>(ModerationService);
+    databaseService = module.get(DatabaseService);
+    pollsService = module.get(PollsService);
+    voteEvents = module.get(VoteEventsService);
+    loggerService = module.get(LoggerService);
+
+    pollsService.getPollById.mockResolvedValue({
+      id: 'default',
+      title: 'Favorite country',
+    });
+    databaseService.$transaction.mockImplementation((callback) =>
+      callback(databaseService),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('moderateVotes', () => {
+    it('should void a group of votes and decrement their counters', async () => {
+      databaseService.user.count.mockResolvedValue(3);
+      databaseService.user.findMany.mockResolvedValue([
+        vote('user-1', 'a@spam.test', 'ARG', 'ACTIVE'),
+        vote('user-2', 'b@spam.test', 'ARG', 'FLAGGED'),
+      ]);
+
+      const result = await service.moderateVotes(
+        ModerationAction.VOID,
+        {
+          emailDomain: 'spam.test',
+          from: '2025-12-01T00:00:00.000Z',
+          reason: 'Ballot stuffing',
+        },
+        apiKey,
+      );
+
+      expect(result).toEqual({
+        pollId: 'default',
+        action: ModerationAction.VOID,
+        matched: 3,
+        updated: 2,
+        countryVotes: { ARG: -2 },
+      });
+      expect(databaseService.user.findMany).toHaveBeenCalledWith({
+        where: {
+          pollId: 'default',
+          email: { endsWith: '@spam.test', mode: 'insensitive' },
+          createdAt: { gte: new Date('2025-12-01T00:00:00.000Z') },
+          status: { in: ['ACTIVE', 'FLAGGED'] },
+        },
+        select: { id: true },
+      });
+      // The selected rows are locked, then read again
+      expect(databaseService.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(databaseService.user.findMany).toHaveBeenLastCalledWith({
+        where: expect.objectContaining({
+          id: { in: ['user-1', 'user-2'] },
+          status: { in: ['ACTIVE', 'FLAGGED'] },
+        }),
+        include: { country: true },
+      });
+      expect(databaseService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['user-1', 'user-2'] } },
+        data: { status: 'VOIDED' },
+      });
+      expect(databaseService.pollCountry.update).toHaveBeenCalledWith({
+        where: {
+          pollId_countryId: { pollId: 'default', countryId: 'country-ARG' },
+        },
+        data: { votes: { increment: -2 } },
+      });
+      expect(databaseService.voteHistory.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            email: 'a@spam.test',
+            canonicalEmail: 'a@spam.test',
+            action: 'VOID',
+            fromCountryId: 'country-ARG',
+            source: 'moderation',
+          }),
+          expect.objectContaining({ email: 'b@spam.test', action: 'VOID' }),
+        ],
+      });
+      expect(databaseService.voteModeration.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            voteId: 'user-1',
+            action: ModerationAction.VOID,
+            reason: 'Ballot stuffing',
+            actor: 'Ops team',
+            apiKeyId: 'key-1',
+          }),
+          expect.objectContaining({ voteId: 'user-2' }),
+        ],
+      });
+      expect(voteEvents.notifyStandingsChanged).toHaveBeenCalledWith('default');
+    });
+
+    it('should restore voided votes to their counters', async () => {
+      databaseService.user.count.mockResolvedValue(2);
+      databaseService.user.findMany.mockResolvedValue([
+        vote('user-1', 'a@example.com', 'BRA', 'VOIDED'),
+        vote('user-2', 'b@example.com', 'URY', 'FLAGGED'),
+      ]);
+
+      const result = await service.moderateVotes(
+        ModerationAction.RESTORE,
+        { voteIds: ['user-1', 'user-2'], reason: 'False positive' },
+        apiKey,
+      );
+
+      expect(result.countryVotes).toEqual({ BRA: 1 });
+      expect(databaseService.pollCountry.update).toHaveBeenCalledTimes(1);
+      expect(databaseService.voteHistory.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            action: 'RESTORE',
+            toCountryId: 'country-BRA',
+          }),
+        ],
+      });
+      expect(databaseService.user.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'ACTIVE' } }),
+      );
+    });
+
+    it('should flag votes without touching the counters', async () => {
+      databaseService.user.count.mockResolvedValue(1);
+      databaseService.user.findMany.mockResolvedValue([
+        vote('user-1', 'a@example.com', 'ARG', 'ACTIVE'),
+      ]);
+
+      const result = await service.moderateVotes(
+        ModerationAction.FLAG,
+        { country: 'arg', reason: 'Suspicious burst' },
+        apiKey,
+      );
+
+      expect(result.updated).toBe(1);
+      expect(result.countryVotes).toEqual({});
+      expect(databaseService.user.count).toHaveBeenCalledWith({
+        where: { pollId: 'default', country: { code: 'ARG' } },
+      });
+      expect(databaseService.pollCountry.update).not.toHaveBeenCalled();
+      expect(databaseService.voteHistory.createMany).toHaveBeenCalledWith({
+        data: [],
+      });
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+    });
+
+    it('should not write anything when no vote needs updating', async () => {
+      databaseService.user.count.mockResolvedValue(1);
+      databaseService.user.findMany.mockResolvedValue([]);
+
+      const result = await service.moderateVotes(
+        ModerationAction.VOID,
+        { voteIds: ['user-1'], reason: 'Ballot stuffing' },
+        apiKey,
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ matched: 1, updated: 0 }),
+      );
+      expect(databaseService.$queryRaw).not.toHaveBeenCalled();
+      expect(databaseService.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should only move the votes still in a matching status once locked', async () => {
+      databaseService.user.count.mockResolvedValue(2);
+      // A concurrent moderation voided user-2 between the two reads
+      databaseService.user.findMany
+        .mockResolvedValueOnce([{ id: 'user-1' }, { id: 'user-2' }])
+        .mockResolvedValueOnce([
+          vote('user-1', 'a@spam.test', 'ARG', 'ACTIVE'),
+        ]);
+
+      const result = await service.moderateVotes(
+        ModerationAction.VOID,
+        { voteIds: ['user-1', 'user-2'], reason: 'Ballot stuffing' },
+        apiKey,
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ updated: 1, countryVotes: { ARG: -1 } }),
+      );
+      expect(databaseService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['user-1'] } },
+        data: { status: 'VOIDED' },
+      });
+      expect(databaseService.pollCountry.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { votes: { increment: -1 } } }),
+      );
+      expect(databaseService.voteHistory.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ email: 'a@spam.test' })],
+      });
+      expect(databaseService.voteModeration.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ voteId: 'user-1' })],
+      });
+    });
+
+    it('should lock and update large selections in chunks', async () => {
+      const ids = Array.from({ length: 2500 }, (_, i) => `user-${i}`);
+      databaseService.user.count.mockResolvedValue(ids.length);
+      databaseService.user.findMany.mockImplementation(({ where, select }) =>
+        select
+          ? ids.map((id) => ({ id }))
+          : where.id.in.map((id: string) =>
+              vote(id, `${id}@spam.test`, 'ARG', 'ACTIVE'),
+            ),
+      );
+
+      const result = await service.moderateVotes(
+        ModerationAction.VOID,
+        { emailDomain: 'spam.test', reason: 'Ballot stuffing' },
+        apiKey,
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          updated: 2500,
+          countryVotes: { ARG: -2500 },
+        }),
+      );
+      expect(databaseService.$queryRaw).toHaveBeenCalledTimes(3);
+      expect(databaseService.user.findMany).toHaveBeenLastCalledWith({
+        where: expect.objectContaining({ id: { in: ids.slice(2000) } }),
+        include: { country: true },
+      });
+      expect(databaseService.user.updateMany).toHaveBeenCalledTimes(3);
+      expect(databaseService.user.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: { in: ids.slice(0, 1000) } },
+        data: { status: 'VOIDED' },
+      });
+      expect(databaseService.pollCountry.update).toHaveBeenCalledTimes(1);
+      expect(databaseService.pollCountry.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { votes: { increment: -2500 } } }),
+      );
+    });
+
+    it('should require a vote selection', async () => {
+      await expect(
+        service.moderateVotes(
+          ModerationAction.VOID,
+          { pollId: 'default', reason: 'Ballot stuffing' },
+          apiKey,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(
+        service.moderateVotes(
+          ModerationAction.FLAG,
+          { pollId: 'missing', voteIds: ['user-1'], reason: 'Check' },
+          apiKey,
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.user.count.mockResolvedValue(1);
+      databaseService.user.findMany.mockResolvedValue([
+        vote('user-1', 'a@example.com', 'ARG', 'ACTIVE'),
+      ]);
+      databaseService.$transaction.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        service.moderateVotes(
+          ModerationAction.VOID,
+          { voteIds: ['user-1'], reason: 'Ballot stuffing' },
+          apiKey,
+        ),
+      ).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to moderate votes: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('getModeratedVotes', () => {
+    it('should list flagged and voided votes with their history', async () => {
+      databaseService.user.count.mockResolvedValue(1);
+      databaseService.user.findMany.mockResolvedValue([
+        vote('user-1', 'a@spam.test', 'ARG', 'VOIDED'),
+      ]);
+      databaseService.voteModeration.findMany.mockResolvedValue([
+        {
+          voteId: 'user-1',
+          action: ModerationAction.FLAG,
+          reason: 'Suspicious burst',
+          actor: 'Ops team',
+          createdAt,
+        },
+        {
+          voteId: 'user-1',
+          action: ModerationAction.VOID,
+          reason: 'Ballot stuffing',
+          actor: 'Ops team',
+          createdAt,
+        },
+      ]);
+
+      const result = await service.getModeratedVotes();
+
+      expect(result.meta).toEqual({ total: 1, limit: 50, offset: 0 });
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          id: 'user-1',
+          country: 'ARG',
+          status: 'VOIDED',
+        }),
+      );
+      expect(result.data[0].moderation.map(({ action }) => action)).toEqual([
+        ModerationAction.FLAG,
+        ModerationAction.VOID,
+      ]);
+      expect(databaseService.user.count).toHaveBeenCalledWith({
+        where: { pollId: 'default', status: { not: 'ACTIVE' } },
+      });
+    });
+
+    it('should reject an empty time window', async () => {
+      await expect(
+        service.getModeratedVotes({
+          from: '2025-12-02T00:00:00.000Z',
+          to: '2025-12-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
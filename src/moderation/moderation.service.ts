@@ -0,0 +1,326 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ModerationAction,
+  Prisma,
+  VoteAction,
+  VoteStatus,
+} from '@prisma/client';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { DEFAULT_POLL_ID, PollsService } from '../polls/polls.service';
+import { VoteEventsService } from '../votes/vote-events.service';
+import { AuthenticatedApiKey } from '../auth/api-keys.service';
+import {
+  DEFAULT_MODERATION_LIMIT,
+  ModeratedVotesPageDto,
+  ModerateVotesDto,
+  ModerationQueryDto,
+  ModerationResultDto,
+  VoteSelectionDto,
+} from './dto/moderation.dto';
+
+// Statuses an action applies to and the status it leaves the vote in
+const TRANSITIONS: Record<
+  ModerationAction,
+  { from: VoteStatus[]; to: VoteStatus }
+> = {
+  [ModerationAction.FLAG]: {
+    from: [VoteStatus.ACTIVE],
+    to: VoteStatus.FLAGGED,
+  },
+  [ModerationAction.VOID]: {
+    from: [VoteStatus.ACTIVE, VoteStatus.FLAGGED],
+    to: VoteStatus.VOIDED,
+  },
+  [ModerationAction.RESTORE]: {
+    from: [VoteStatus.FLAGGED, VoteStatus.VOIDED],
+    to: VoteStatus.ACTIVE,
+  },
+};
+
+// Votes locked and updated per statement, well below the 32767 bind
+// parameters Postgres accepts in one query
+const MODERATION_CHUNK_SIZE = 1000;
+
+/**
+ * Lets moderators flag, void and restore votes, one by one or in groups
+ * Voided votes are kept for review but no longer count: the PollCountry
+ * counters move in the same transaction as the status, and the movement is
+ * appended to VoteHistory so reconciliation still adds up
+ */
+@Injectable()
+export class ModerationService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly pollsService: PollsService,
+    private readonly voteEvents: VoteEventsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async moderateVotes(
+    action: ModerationAction,
+    moderateVotesDto: ModerateVotesDto,
+    apiKey: AuthenticatedApiKey,
+  ): Promise<ModerationResultDto> {
+    const pollId = moderateVotesDto.pollId ?? DEFAULT_POLL_ID;
+    const { reason } = moderateVotesDto;
+    this.logger.LogInfo(
+      `Moderation ${action} requested by ${apiKey.name} in poll ${pollId}: ${reason}`,
+    );
+
+    const where = this.toVoteFilter(pollId, moderateVotesDto);
+    if (Object.keys(where).length === 1) {
+      throw new BadRequestException(
+        'Select votes by id, email domain, time window or country',
+      );
+    }
+
+    try {
+      await this.pollsService.getPollById(pollId);
+
+      const matched = await this.db.user.count({ where });
+      const { votes, moved } = await this.db.$transaction((tx) =>
+        this.applyTransition(tx, action, pollId, where, reason, apiKey),
+      );
+
+      const delta = action === ModerationAction.VOID ? -1 : 1;
+      const countryVotes: Record<string, number> = {};
+      moved.forEach((vote) => {
+        countryVotes[vote.country.code] =
+          (countryVotes[vote.country.code] ?? 0) + delta;
+      });
+
+      this.logger.LogInfo(
+        `Moderation ${action} by ${apiKey.name} in poll ${pollId}: ${matched} matched, ${votes.length} updated, ${moved.length} counted votes moved`,
+      );
+      if (moved.length > 0) {
+        this.voteEvents.notifyStandingsChanged(pollId);
+      }
+
+      return {
+        pollId,
+        action,
+        matched,
+        updated: votes.length,
+        countryVotes,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(`Failed to moderate votes: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Votes of a poll with their moderation history, newest first
+   * Without a status only flagged and voided votes are listed
+   */
+  async getModeratedVotes(
+    query: ModerationQueryDto = {},
+  ): Promise<ModeratedVotesPageDto> {
+    const pollId = query.pollId ?? DEFAULT_POLL_ID;
+    const limit = query.limit ?? DEFAULT_MODERATION_LIMIT;
+    const offset = query.offset ?? 0;
+    this.logger.LogInfo(`Fetching moderated votes of poll ${pollId}`);
+
+    const where: Prisma.UserWhereInput = {
+      ...this.toVoteFilter(pollId, query),
+      status: query.status ?? { not: VoteStatus.ACTIVE },
+    };
+
+    try {
+      await this.pollsService.getPollById(pollId);
+
+      const [total, votes] = await Promise.all([
+        this.db.user.count({ where }),
+        this.db.user.findMany({
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          include: { country: true },
+          take: limit,
+          skip: offset,
+        }),
+      ]);
+      const entries = await this.db.voteModeration.findMany({
+        where: {
+          pollId,
+          voteId: { in: votes.map((vote) => vote.id) },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return {
+        data: votes.map((vote) => ({
+          id: vote.id,
+          name: vote.name,
+          email: vote.email,
+          country: vote.country.code,
+          status: vote.status,
+          createdAt: vote.createdAt,
+          moderation: entries
+            .filter((entry) => entry.voteId === vote.id)
+            .map(({ action, reason, actor, createdAt }) => ({
+              action,
+              reason,
+              actor,
+              createdAt,
+            })),
+        })),
+        meta: { total, limit, offset },
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(
+        `Failed to fetch moderated votes: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Move the selected votes to the status of the action, with their
+   * counters and ledger entries, in the caller's transaction
+   * The rows are locked and read again first, so a vote changed by a
+   * concurrent moderation, change or withdrawal is only moved once
+   * Large selections are locked and updated in chunks of ids
+   */
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    action: ModerationAction,
+    pollId: string,
+    where: Prisma.UserWhereInput,
+    reason: string,
+    apiKey: AuthenticatedApiKey,
+  ) {
+    const { from, to } = TRANSITIONS[action];
+    const candidates = await tx.user.findMany({
+      where: { ...where, status: { in: from } },
+      select: { id: true },
+    });
+
+    if (candidates.length === 0) {
+      return { votes: [], moved: [] };
+    }
+
+    const ids = candidates.map((candidate) => candidate.id);
+    const votes: Prisma.UserGetPayload<{ include: { country: true } }>[] = [];
+    for (let i = 0; i < ids.length; i += MODERATION_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + MODERATION_CHUNK_SIZE);
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id IN (${Prisma.join(
+        chunk,
+      )}) FOR UPDATE`;
+      votes.push(
+        ...(await tx.user.findMany({
+          where: { ...where, id: { in: chunk }, status: { in: from } },
+          include: { country: true },
+        })),
+      );
+    }
+
+    // Only voiding a counted vote or restoring a voided one moves counters
+    const moved = votes.filter((vote) =>
+      action === ModerationAction.VOID
+        ? vote.status !== VoteStatus.VOIDED
+        : action === ModerationAction.RESTORE &&
+          vote.status === VoteStatus.VOIDED,
+    );
+    const delta = action === ModerationAction.VOID ? -1 : 1;
+    const votesByCountryId = new Map<string, number>();
+    moved.forEach((vote) => {
+      votesByCountryId.set(
+        vote.countryId,
+        (votesByCountryId.get(vote.countryId) ?? 0) + delta,
+      );
+    });
+
+    if (votes.length === 0) {
+      return { votes, moved };
+    }
+
+    for (let i = 0; i < votes.length; i += MODERATION_CHUNK_SIZE) {
+      await tx.user.updateMany({
+        where: {
+          id: {
+            in: votes
+              .slice(i, i + MODERATION_CHUNK_SIZE)
+              .map((vote) => vote.id),
+          },
+        },
+        data: { status: to },
+      });
+    }
+    for (const [countryId, count] of votesByCountryId) {
+      await tx.pollCountry.update({
+        where: { pollId_countryId: { pollId, countryId } },
+        data: { votes: { increment: count } },
+      });
+    }
+    await tx.voteHistory.createMany({
+      data: moved.map((vote) => ({
+        name: vote.name,
+        email: vote.email,
+        canonicalEmail: vote.canonicalEmail,
+        pollId,
+        action:
+          action === ModerationAction.VOID
+            ? VoteAction.VOID
+            : VoteAction.RESTORE,
+        ...(action === ModerationAction.VOID
+          ? { fromCountryId: vote.countryId }
+          : { toCountryId: vote.countryId }),
+        source: 'moderation',
+      })),
+    });
+    await tx.voteModeration.createMany({
+      data: votes.map((vote) => ({
+        pollId,
+        voteId: vote.id,
+        email: vote.email,
+        action,
+        reason,
+        actor: apiKey.name,
+        apiKeyId: apiKey.id,
+      })),
+    });
+
+    return { votes, moved };
+  }
+
+  private toVoteFilter(
+    pollId: string,
+    selection: VoteSelectionDto,
+  ): Prisma.UserWhereInput {
+    const { voteIds, emailDomain, from, to, country } = selection;
+
+    if (from && to && new Date(from) >= new Date(to)) {
+      throw new BadRequestException('from must be earlier than to');
+    }
+
+    return {
+      pollId,
+      ...(voteIds && { id: { in: voteIds } }),
+      ...(emailDomain && {
+        email: {
+          endsWith: `@${emailDomain}`,
+          mode: 'insensitive' as const,
+        },
+      }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lt: new Date(to) }),
+        },
+      }),
+      ...(country && { country: { code: country.toUpperCase() } }),
+    };
+  }
+}
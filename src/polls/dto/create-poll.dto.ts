@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreatePollDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(120)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
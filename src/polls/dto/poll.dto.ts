@@ -0,0 +1,6 @@
+export class PollDto {
+  id: string;
+  title: string;
+  description: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { PollsService } from './polls.service';
+import { CreatePollDto } from './dto/create-poll.dto';
+import { PollDto } from './dto/poll.dto';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RequireRole } from '../auth/require-role.decorator';
+
+@Controller('polls')
+@ApiTags('polls')
+@RateLimit('read-ip')
+@ApiTooManyRequestsResponse({ description: 'Rate limit exceeded.' })
+export class PollsController {
+  constructor(private readonly pollsService: PollsService) {}
+
+  @Post()
+  @RequireRole(ApiKeyRole.ADMIN)
+  @ApiOperation({ summary: 'Create a poll' })
+  @ApiCreatedResponse({
+    description: 'The poll has been successfully created.',
+    type: PollDto,
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async createPoll(
+    @Body() createPollDto: CreatePollDto,
+  ): Promise<{ data: PollDto }> {
+    const data = await this.pollsService.createPoll(createPollDto);
+    return { data };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all polls' })
+  @ApiOkResponse({
+    description: 'The polls have been successfully fetched.',
+    type: [PollDto],
+  })
+  async getPolls(): Promise<{ data: PollDto[] }> {
+    const data = await this.pollsService.getPolls();
+    return { data };
+  }
+
+  @Get(':pollId')
+  @ApiOperation({ summary: 'Get a poll' })
+  @ApiOkResponse({
+    description: 'The poll has been successfully fetched.',
+    type: PollDto,
+  })
+  @ApiNotFoundResponse({ description: 'The poll does not exist.' })
+  async getPoll(@Param('pollId') pollId: string): Promise<{ data: PollDto }> {
+    const data = await this.pollsService.getPollById(pollId);
+    return { data };
+  }
+}
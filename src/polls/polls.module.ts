@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PollsController } from './polls.controller';
+import { PollsService } from './polls.service';
+
+@Module({
+  controllers: [PollsController],
+  providers: [PollsService],
+  exports: [PollsService],
+})
+export class PollsModule {}
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { PollsService } from './polls.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockDatabaseService = {
+  poll: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+    findUnique: jest.Mock;
+  };
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('PollsService', () => {
+  let service: PollsService;
+  let databaseService: MockDatabaseService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    poll: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const createdAt = new Date('2025-11-20T18:30:00.000Z');
+
+  const mockPoll = {
+    id: 'poll-1',
+    title: 'Best food',
+    description: 'Which country has the best food?',
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollsService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PollsService>(PollsService);
+    databaseService = module.get(DatabaseService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createPoll', () => {
+    it('should create a poll', async () => {
+      databaseService.poll.create.mockResolvedValue(mockPoll);
+
+      const result = await service.createPoll({
+        title: 'Best food',
+        description: 'Which country has the best food?',
+      });
+
+      expect(result).toEqual({
+        id: 'poll-1',
+        title: 'Best food',
+        description: 'Which country has the best food?',
+        createdAt,
+      });
+      expect(databaseService.poll.create).toHaveBeenCalledWith({
+        data: {
+          title: 'Best food',
+          description: 'Which country has the best food?',
+        },
+      });
+    });
+
+    it('should store a null description when omitted', async () => {
+      databaseService.poll.create.mockResolvedValue({
+        ...mockPoll,
+        description: null,
+      });
+
+      await service.createPoll({ title: 'Best food' });
+
+      expect(databaseService.poll.create).toHaveBeenCalledWith({
+        data: { title: 'Best food', description: null },
+      });
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.poll.create.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(service.createPoll({ title: 'Best food' })).rejects.toThrow(
+        'Database error',
+      );
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to create poll: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('getPolls', () => {
+    it('should return polls ordered by creation date', async () => {
+      databaseService.poll.findMany.mockResolvedValue([mockPoll]);
+
+      const result = await service.getPolls();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe('poll-1');
+      expect(databaseService.poll.findMany).toHaveBeenCalledWith({
+        orderBy: { createdAt: 'asc' },
+      });
+    });
+  });
+
+  describe('getPollById', () => {
+    it('should return the poll when it exists', async () => {
+      databaseService.poll.findUnique.mockResolvedValue(mockPoll);
+
+      const result = await service.getPollById('poll-1');
+
+      expect(result.title).toBe('Best food');
+      expect(databaseService.poll.findUnique).toHaveBeenCalledWith({
+        where: { id: 'poll-1' },
+      });
+    });
+
+    it('should throw NotFoundException when the poll does not exist', async () => {
+      databaseService.poll.findUnique.mockResolvedValue(null);
+
+      await expect(service.getPollById('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Poll not found: missing',
+      );
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { CreatePollDto } from './dto/create-poll.dto';
+import { PollDto } from './dto/poll.dto';
+
+/**
+ * Poll backing the original /api/votes routes, created by the add_polls migration
+ */
+export const DEFAULT_POLL_ID = 'default';
+
+@Injectable()
+export class PollsService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async createPoll(createPollDto: CreatePollDto): Promise<PollDto> {
+    const { title, description } = createPollDto;
+    this.logger.LogInfo(`Creating poll: "${title}"`);
+
+    try {
+      const poll = await this.db.poll.create({
+        data: {
+          title,
+          description: description ?? null,
+        },
+      });
+
+      this.logger.LogInfo(`Poll created: ${poll.id}`);
+      return this.toDto(poll);
+    } catch (error) {
+      this.logger.LogError(`Failed to create poll: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  async getPolls(): Promise<PollDto[]> {
+    this.logger.LogInfo('Fetching polls');
+
+    try {
+      const polls = await this.db.poll.findMany({
+        orderBy: {
+          createdAt: 'asc',
+        },
+      });
+
+      return polls.map((poll) => this.toDto(poll));
+    } catch (error) {
+      this.logger.LogError(`Failed to fetch polls: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a poll by id
+   * Throws NotFoundException when the poll does not exist
+   */
+  async getPollById(id: string): Promise<PollDto> {
+    const poll = await this.db.poll.findUnique({
+      where: { id },
+    });
+
+    if (!poll) {
+      this.logger.LogWarning(`Poll not found: ${id}`);
+      throw new NotFoundException(`Poll ${id} not found`);
+    }
+
+    return this.toDto(poll);
+  }
+
+  private toDto(poll: {
+    id: string;
+    title: string;
+    description: string | null;
+    createdAt: Date;
+  }): PollDto {
+    return {
+      id: poll.id,
+      title: poll.title,
+      description: poll.description,
+      createdAt: poll.createdAt,
+    };
+  }
+}
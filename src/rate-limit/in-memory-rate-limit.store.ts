@@ -0,0 +1,60 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { RateLimitHit, RateLimitStore } from './rate-limit-store';
+
+/**
+ * Sliding window log kept in process memory
+ * Only suitable for a single node: every instance keeps its own counters
+ */
+@Injectable()
+export class InMemoryRateLimitStore
+  extends RateLimitStore
+  implements OnModuleDestroy
+{
+  private readonly hits = new Map<string, { windowMs: number; at: number[] }>();
+  private readonly sweepTimer = setInterval(() => this.sweep(), 60 * 1000);
+
+  constructor() {
+    super();
+    this.sweepTimer.unref();
+  }
+
+  async hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+  ): Promise<RateLimitHit> {
+    const now = Date.now();
+    const at = (this.hits.get(key)?.at ?? []).filter(
+      (timestamp) => timestamp > now - windowMs,
+    );
+
+    if (at.length >= limit) {
+      this.hits.set(key, { windowMs, at });
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: at[0] + windowMs - now,
+      };
+    }
+
+    at.push(now);
+    this.hits.set(key, { windowMs, at });
+    return { allowed: true, remaining: limit - at.length, retryAfterMs: 0 };
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Drop keys whose hits all fell out of their window
+   */
+  private sweep(): void {
+    const now = Date.now();
+    this.hits.forEach(({ windowMs, at }, key) => {
+      if (at[at.length - 1] <= now - windowMs) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
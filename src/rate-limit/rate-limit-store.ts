@@ -0,0 +1,23 @@
+export interface RateLimitHit {
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the oldest hit leaves the window, 0 when allowed
+  retryAfterMs: number;
+}
+
+/**
+ * Counter storage for rate limiting
+ * Injected by class token so a shared store (e.g. Redis) can replace the
+ * in-memory one when running more than one instance
+ */
+export abstract class RateLimitStore {
+  /**
+   * Record a hit for the key and report whether it fits in a sliding window
+   * of windowMs holding at most limit hits. Rejected hits are not recorded.
+   */
+  abstract hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+  ): Promise<RateLimitHit>;
+}
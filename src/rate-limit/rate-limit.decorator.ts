@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitPolicyName } from './rate-limit.policies';
+
+export const RATE_LIMIT_POLICIES_KEY = 'rateLimitPolicies';
+
+/**
+ * Apply one or more rate limit policies to a route or controller
+ * Method-level policies replace the controller-level ones
+ */
+export const RateLimit = (...policies: RateLimitPolicyName[]) =>
+  SetMetadata(RATE_LIMIT_POLICIES_KEY, policies);
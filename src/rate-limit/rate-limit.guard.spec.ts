@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitStore } from './rate-limit-store';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { RateLimitPolicyName } from './rate-limit.policies';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('RateLimitGuard', () => {
+  let module: TestingModule;
+  let guard: RateLimitGuard;
+  let store: RateLimitStore;
+  let reflector: Reflector;
+  let loggerService: MockLoggerService;
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const createContext = (
+    request: { ip?: string; body?: Record<string, unknown> },
+    response = { setHeader: jest.fn() },
+  ) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext);
+
+  const usePolicies = (...policies: RateLimitPolicyName[]) =>
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(policies);
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    process.env.RATE_LIMIT_VOTE_IP_LIMIT = '2';
+    process.env.RATE_LIMIT_VOTE_IP_WINDOW_SECONDS = '60';
+    process.env.RATE_LIMIT_VOTE_EMAIL_DOMAIN_LIMIT = '3';
+
+    module = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        Reflector,
+        {
+          provide: RateLimitStore,
+          useClass: InMemoryRateLimitStore,
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<RateLimitGuard>(RateLimitGuard);
+    store = module.get<RateLimitStore>(RateLimitStore);
+    reflector = module.get<Reflector>(Reflector);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    delete process.env.RATE_LIMIT_VOTE_IP_LIMIT;
+    delete process.env.RATE_LIMIT_VOTE_IP_WINDOW_SECONDS;
+    delete process.env.RATE_LIMIT_VOTE_EMAIL_DOMAIN_LIMIT;
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  describe('canActivate', () => {
+    it('should allow routes without rate limit policies', async () => {
+      jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+      const hitSpy = jest.spyOn(store, 'hit');
+
+      await expect(
+        guard.canActivate(createContext({ ip: '1.1.1.1' })),
+      ).resolves.toBe(true);
+      expect(hitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should allow requests until the per-IP limit is reached', async () => {
+      usePolicies('vote-ip');
+      const context = createContext({ ip: '1.1.1.1' });
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      await expect(guard.canActivate(context)).rejects.toThrow(HttpException);
+    });
+
+    it('should reject with 429 and a Retry-After header', async () => {
+      usePolicies('vote-ip');
+      const response = { setHeader: jest.fn() };
+      const context = createContext({ ip: '1.1.1.1' }, response);
+
+      await guard.canActivate(context);
+      jest.advanceTimersByTime(20 * 1000);
+      await guard.canActivate(context);
+
+      const error = await guard.canActivate(context).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      // The first hit leaves the 60s window 40s from now
+      expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '40');
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Rate limit exceeded: policy=vote-ip, ip=1.1.1.1, retryAfter=40s',
+      );
+    });
+
+    it('should count each IP separately', async () => {
+      usePolicies('vote-ip');
+
+      await guard.canActivate(createContext({ ip: '1.1.1.1' }));
+      await guard.canActivate(createContext({ ip: '1.1.1.1' }));
+
+      await expect(
+        guard.canActivate(createContext({ ip: '2.2.2.2' })),
+      ).resolves.toBe(true);
+    });
+
+    it('should allow requests again once hits leave the sliding window', async () => {
+      usePolicies('vote-ip');
+      const context = createContext({ ip: '1.1.1.1' });
+
+      await guard.canActivate(context);
+      jest.advanceTimersByTime(30 * 1000);
+      await guard.canActivate(context);
+      await expect(guard.canActivate(context)).rejects.toThrow(HttpException);
+
+      jest.advanceTimersByTime(30 * 1000);
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      await expect(guard.canActivate(context)).rejects.toThrow(HttpException);
+    });
+
+    it('should limit votes per email domain across IPs', async () => {
+      usePolicies('vote-email-domain');
+
+      for (const ip of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+        await guard.canActivate(
+          createContext({ ip, body: { email: `${ip}@Example.com` } }),
+        );
+      }
+
+      await expect(
+        guard.canActivate(
+          createContext({
+            ip: '4.4.4.4',
+            body: { email: 'someone@example.com' },
+          }),
+        ),
+      ).rejects.toThrow(HttpException);
+      await expect(
+        guard.canActivate(
+          createContext({
+            ip: '4.4.4.4',
+            body: { email: 'someone@example.org' },
+          }),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should skip the email domain policy when the body has no email', async () => {
+      usePolicies('vote-email-domain');
+      const hitSpy = jest.spyOn(store, 'hit');
+
+      await expect(
+        guard.canActivate(createContext({ ip: '1.1.1.1', body: {} })),
+      ).resolves.toBe(true);
+      expect(hitSpy).not.toHaveBeenCalled();
+    });
+  });
+});
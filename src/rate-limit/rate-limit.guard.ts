@@ -0,0 +1,90 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { RATE_LIMIT_POLICIES_KEY } from './rate-limit.decorator';
+import {
+  getRateLimitPolicies,
+  RateLimitKey,
+  RateLimitPolicyName,
+} from './rate-limit.policies';
+import { RateLimitStore } from './rate-limit-store';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly policies = getRateLimitPolicies();
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly store: RateLimitStore,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policyNames = this.reflector.getAllAndOverride<RateLimitPolicyName[]>(
+      RATE_LIMIT_POLICIES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!policyNames || policyNames.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    for (const policyName of policyNames) {
+      const policy = this.policies[policyName];
+      const keyValue = this.resolveKey(policy.key, request);
+
+      // Requests without the grouping value (e.g. no email) are left to validation
+      if (!keyValue) {
+        continue;
+      }
+
+      const result = await this.store.hit(
+        `${policyName}:${keyValue}`,
+        policy.limit,
+        policy.windowMs,
+      );
+
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+        this.logger.LogWarning(
+          `Rate limit exceeded: policy=${policyName}, ${policy.key}=${keyValue}, retryAfter=${retryAfterSeconds}s`,
+        );
+        response.setHeader('Retry-After', retryAfterSeconds.toString());
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.TOO_MANY_REQUESTS,
+            message: 'Too many requests, please try again later',
+            error: 'Too Many Requests',
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    return true;
+  }
+
+  private resolveKey(key: RateLimitKey, request: Request): string | null {
+    switch (key) {
+      case 'ip':
+        return request.ip ?? null;
+      case 'emailDomain': {
+        const email = request.body?.email;
+        if (typeof email !== 'string' || !email.includes('@')) {
+          return null;
+        }
+        return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+      }
+    }
+  }
+}
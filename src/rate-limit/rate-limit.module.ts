@@ -0,0 +1,21 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitStore } from './rate-limit-store';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: RateLimitStore,
+      useClass: InMemoryRateLimitStore,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: RateLimitGuard,
+    },
+  ],
+  exports: [RateLimitStore],
+})
+export class RateLimitModule {}
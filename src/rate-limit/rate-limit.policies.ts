@@ -0,0 +1,41 @@
+export type RateLimitKey = 'ip' | 'emailDomain';
+
+export interface RateLimitPolicy {
+  // What requests are grouped by
+  key: RateLimitKey;
+  limit: number;
+  windowMs: number;
+}
+
+export type RateLimitPolicyName = 'vote-ip' | 'vote-email-domain' | 'read-ip';
+
+const fromEnv = (
+  prefix: string,
+  key: RateLimitKey,
+  defaultLimit: number,
+  defaultWindowSeconds: number,
+): RateLimitPolicy => ({
+  key,
+  limit: Number(process.env[`${prefix}_LIMIT`]) || defaultLimit,
+  windowMs:
+    (Number(process.env[`${prefix}_WINDOW_SECONDS`]) || defaultWindowSeconds) *
+    1000,
+});
+
+/**
+ * Limits per policy, configurable through RATE_LIMIT_<POLICY>_LIMIT and
+ * RATE_LIMIT_<POLICY>_WINDOW_SECONDS
+ */
+export const getRateLimitPolicies = (): Record<
+  RateLimitPolicyName,
+  RateLimitPolicy
+> => ({
+  'vote-ip': fromEnv('RATE_LIMIT_VOTE_IP', 'ip', 10, 60 * 60),
+  'vote-email-domain': fromEnv(
+    'RATE_LIMIT_VOTE_EMAIL_DOMAIN',
+    'emailDomain',
+    50,
+    60 * 60,
+  ),
+  'read-ip': fromEnv('RATE_LIMIT_READ_IP', 'ip', 120, 60),
+});
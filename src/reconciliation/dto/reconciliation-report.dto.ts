@@ -0,0 +1,20 @@
+export class CountryDriftDto {
+  countryCode: string;
+  country: string;
+  // Denormalized PollCountry.votes counter
+  counter: number;
+  // Count recomputed from the VoteHistory ledger
+  ledger: number;
+  // Number of User rows currently pointing at the country
+  voters: number;
+  counterDrift: number;
+  voterDrift: number;
+}
+
+export class ReconciliationReportDto {
+  pollId: string;
+  checkedAt: Date;
+  driftedCountries: number;
+  repaired: boolean;
+  countries: CountryDriftDto[];
+}
@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyRole } from '@prisma/client';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationQueryDto } from './dto/reconciliation-query.dto';
+import { ReconciliationReportDto } from './dto/reconciliation-report.dto';
+import { RequireRole } from '../auth/require-role.decorator';
+
+@Controller('admin/reconciliation')
+@ApiTags('admin')
+@RequireRole(ApiKeyRole.READ_ONLY)
+@ApiNotFoundResponse({ description: 'The poll does not exist.' })
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Report vote counter drift against the vote ledger',
+  })
+  @ApiOkResponse({
+    description: 'The reconciliation report has been generated.',
+    type: ReconciliationReportDto,
+  })
+  async getReport(
+    @Query() query: ReconciliationQueryDto,
+  ): Promise<{ data: ReconciliationReportDto }> {
+    const data = await this.reconciliationService.reconcile(query.pollId);
+    return { data };
+  }
+
+  @Post('repair')
+  @RequireRole(ApiKeyRole.ADMIN)
+  @ApiOperation({
+    summary: 'Overwrite drifted vote counters with the ledger count',
+  })
+  @ApiOkResponse({
+    description: 'The drifted counters have been repaired.',
+    type: ReconciliationReportDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async repair(
+    @Query() query: ReconciliationQueryDto,
+  ): Promise<{ data: ReconciliationReportDto }> {
+    const data = await this.reconciliationService.reconcile(query.pollId, true);
+    return { data };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+import { PollsModule } from '../polls/polls.module';
+import { VotesModule } from '../votes/votes.module';
+
+@Module({
+  imports: [PollsModule, VotesModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
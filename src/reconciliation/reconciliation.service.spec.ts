@@ -0,0 +1,269 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { VoteEventsService } from '../votes/vote-events.service';
+import { PollsService } from '../polls/polls.service';
+
+type MockDatabaseService = {
+  pollCountry: {
+    findMany: jest.Mock;
+    updateMany: jest.Mock;
+    createMany: jest.Mock;
+  };
+  voteHistory: {
+    groupBy: jest.Mock;
+  };
+  user: {
+    groupBy: jest.Mock;
+  };
+  country: {
+    findMany: jest.Mock;
+  };
+  $queryRaw: jest.Mock;
+  $transaction: jest.Mock;
+};
+
+type MockPollsService = {
+  getPollById: jest.Mock;
+};
+
+type MockVoteEventsService = {
+  notifyStandingsChanged: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+  let databaseService: MockDatabaseService;
+  let pollsService: MockPollsService;
+  let voteEvents: MockVoteEventsService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    pollCountry: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    voteHistory: {
+      groupBy: jest.fn(),
+    },
+    user: {
+      groupBy: jest.fn(),
+    },
+    country: {
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const mockCountries = [
+    { id: 'country-arg', code: 'ARG', name: 'Argentina' },
+    { id: 'country-bra', code: 'BRA', name: 'Brazil' },
+  ];
+
+  // ARG: 3 casts, 1 changed away -> ledger 2; BRA: 1 cast + 1 change -> 2
+  const mockLedger = () => {
+    databaseService.voteHistory.groupBy
+      .mockResolvedValueOnce([
+        { toCountryId: 'country-arg', _count: { _all: 3 } },
+        { toCountryId: 'country-bra', _count: { _all: 2 } },
+      ])
+      .mockResolvedValueOnce([
+        { fromCountryId: 'country-arg', _count: { _all: 1 } },
+      ]);
+    databaseService.user.groupBy.mockResolvedValue([
+      { countryId: 'country-arg', _count: { _all: 2 } },
+      { countryId: 'country-bra', _count: { _all: 2 } },
+    ]);
+    databaseService.country.findMany.mockResolvedValue(mockCountries);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: PollsService,
+          useValue: { getPollById: jest.fn() },
+        },
+        {
+          provide: VoteEventsService,
+          useValue: { notifyStandingsChanged: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+    databaseService = module.get(DatabaseService);
+    databaseService.$transaction.mockImplementation((callback) =>
+      callback(databaseService),
+    );
+    pollsService = module.get(PollsService);
+    voteEvents = module.get(VoteEventsService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('reconcile', () => {
+    it('should report no drift when counters match the ledger', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([
+        { countryId: 'country-arg', votes: 2 },
+        { countryId: 'country-bra', votes: 2 },
+      ]);
+      mockLedger();
+
+      const result = await service.reconcile();
+
+      expect(pollsService.getPollById).toHaveBeenCalledWith('default');
+      expect(result.driftedCountries).toBe(0);
+      expect(result.repaired).toBe(false);
+      expect(result.countries).toEqual([
+        {
+          countryCode: 'ARG',
+          country: 'Argentina',
+          counter: 2,
+          ledger: 2,
+          voters: 2,
+          counterDrift: 0,
+          voterDrift: 0,
+        },
+        {
+          countryCode: 'BRA',
+          country: 'Brazil',
+          counter: 2,
+          ledger: 2,
+          voters: 2,
+          counterDrift: 0,
+          voterDrift: 0,
+        },
+      ]);
+      expect(loggerService.LogWarning).not.toHaveBeenCalled();
+    });
+
+    it('should report drifted counters without repairing them', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([
+        { countryId: 'country-arg', votes: 5 },
+        { countryId: 'country-bra', votes: 2 },
+      ]);
+      mockLedger();
+
+      const result = await service.reconcile('default');
+
+      expect(result.driftedCountries).toBe(1);
+      expect(result.countries[0]).toEqual(
+        expect.objectContaining({
+          countryCode: 'ARG',
+          counter: 5,
+          ledger: 2,
+          counterDrift: 3,
+        }),
+      );
+      expect(databaseService.$queryRaw).not.toHaveBeenCalled();
+      expect(databaseService.pollCountry.updateMany).not.toHaveBeenCalled();
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Vote drift in poll default for ARG: counter=5, ledger=2, voters=2',
+      );
+    });
+
+    it('should overwrite drifted counters with the ledger count on repair', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([
+        { countryId: 'country-arg', votes: 5 },
+      ]);
+      mockLedger();
+      databaseService.pollCountry.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+      databaseService.pollCountry.createMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.reconcile('default', true);
+
+      expect(result.repaired).toBe(true);
+      expect(databaseService.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(databaseService.pollCountry.updateMany).toHaveBeenCalledWith({
+        where: { pollId: 'default', countryId: 'country-arg', votes: 5 },
+        data: { votes: 2 },
+      });
+      expect(databaseService.pollCountry.updateMany).toHaveBeenCalledWith({
+        where: { pollId: 'default', countryId: 'country-bra', votes: 0 },
+        data: { votes: 2 },
+      });
+      expect(databaseService.pollCountry.createMany).toHaveBeenCalledWith({
+        data: [{ pollId: 'default', countryId: 'country-bra', votes: 2 }],
+        skipDuplicates: true,
+      });
+      expect(databaseService.$transaction).toHaveBeenCalledTimes(1);
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Repaired 2 vote counters in poll default',
+      );
+      expect(voteEvents.notifyStandingsChanged).toHaveBeenCalledWith('default');
+    });
+
+    it('should leave a counter that moved since it was read', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([
+        { countryId: 'country-arg', votes: 5 },
+        { countryId: 'country-bra', votes: 2 },
+      ]);
+      mockLedger();
+      databaseService.pollCountry.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.reconcile('default', true);
+
+      expect(result.repaired).toBe(false);
+      expect(databaseService.pollCountry.createMany).not.toHaveBeenCalled();
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Vote counter in poll default for ARG changed during reconciliation, not repaired',
+      );
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(service.reconcile('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.pollCountry.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(service.reconcile()).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to reconcile vote counters: Database error',
+        500,
+      );
+    });
+  });
+});
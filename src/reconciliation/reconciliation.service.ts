@@ -0,0 +1,221 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, VoteStatus } from '@prisma/client';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { DEFAULT_POLL_ID, PollsService } from '../polls/polls.service';
+import { VoteEventsService } from '../votes/vote-events.service';
+import {
+  CountryDriftDto,
+  ReconciliationReportDto,
+} from './dto/reconciliation-report.dto';
+
+@Injectable()
+export class ReconciliationService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly pollsService: PollsService,
+    private readonly voteEvents: VoteEventsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Recompute the vote count of every country of a poll from the VoteHistory
+   * ledger and compare it with the PollCountry counters and the User rows
+   * When repair is set, counters that drifted are overwritten with the ledger count
+   */
+  async reconcile(
+    pollId: string = DEFAULT_POLL_ID,
+    repair = false,
+  ): Promise<ReconciliationReportDto> {
+    this.logger.LogInfo(
+      `Reconciling vote counters for poll ${pollId} (repair=${repair})`,
+    );
+
+    try {
+      await this.pollsService.getPollById(pollId);
+
+      // Repairs hold the poll's counters locked from the first read to the
+      // last write, so votes moving meanwhile wait instead of being overwritten
+      const { entries, repaired } = await this.db.$transaction(async (tx) => {
+        if (repair) {
+          await tx.$queryRaw`SELECT "countryId" FROM "PollCountry" WHERE "pollId" = ${pollId} FOR UPDATE`;
+        }
+
+        const { entries, countryIdByCode } = await this.compareWithLedger(
+          tx,
+          pollId,
+        );
+        const repaired = repair
+          ? await this.repairCounters(
+              tx,
+              pollId,
+              entries.filter((entry) => entry.counterDrift !== 0),
+              countryIdByCode,
+            )
+          : 0;
+
+        return { entries, repaired };
+      });
+
+      const drifted = entries.filter(
+        (entry) => entry.counterDrift !== 0 || entry.voterDrift !== 0,
+      );
+      drifted.forEach((entry) =>
+        this.logger.LogWarning(
+          `Vote drift in poll ${pollId} for ${entry.countryCode}: counter=${entry.counter}, ledger=${entry.ledger}, voters=${entry.voters}`,
+        ),
+      );
+
+      if (repaired > 0) {
+        this.logger.LogInfo(
+          `Repaired ${repaired} vote counters in poll ${pollId}`,
+        );
+        this.voteEvents.notifyStandingsChanged(pollId);
+      }
+
+      this.logger.LogInfo(
+        `Reconciled ${entries.length} countries in poll ${pollId}, ${drifted.length} drifted`,
+      );
+
+      return {
+        pollId,
+        checkedAt: new Date(),
+        driftedCountries: drifted.length,
+        repaired: repaired > 0,
+        countries: entries,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(
+        `Failed to reconcile vote counters: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  private async compareWithLedger(
+    tx: Prisma.TransactionClient,
+    pollId: string,
+  ): Promise<{
+    entries: CountryDriftDto[];
+    countryIdByCode: Map<string, string>;
+  }> {
+    const counters = await tx.pollCountry.findMany({
+      where: { pollId },
+      select: { countryId: true, votes: true },
+    });
+    const gained = await tx.voteHistory.groupBy({
+      by: ['toCountryId'],
+      where: { pollId, toCountryId: { not: null } },
+      _count: { _all: true },
+    });
+    const lost = await tx.voteHistory.groupBy({
+      by: ['fromCountryId'],
+      where: { pollId, fromCountryId: { not: null } },
+      _count: { _all: true },
+    });
+    // Voided votes left the counters through a VOID ledger entry
+    const voters = await tx.user.groupBy({
+      by: ['countryId'],
+      where: { pollId, status: { not: VoteStatus.VOIDED } },
+      _count: { _all: true },
+    });
+
+    const counterByCountry = new Map(
+      counters.map((row) => [row.countryId, row.votes]),
+    );
+    const ledgerByCountry = new Map<string, number>();
+    gained.forEach((row) =>
+      ledgerByCountry.set(
+        row.toCountryId,
+        (ledgerByCountry.get(row.toCountryId) ?? 0) + row._count._all,
+      ),
+    );
+    lost.forEach((row) =>
+      ledgerByCountry.set(
+        row.fromCountryId,
+        (ledgerByCountry.get(row.fromCountryId) ?? 0) - row._count._all,
+      ),
+    );
+    const votersByCountry = new Map(
+      voters.map((row) => [row.countryId, row._count._all]),
+    );
+
+    const countryIds = [
+      ...new Set([
+        ...counterByCountry.keys(),
+        ...ledgerByCountry.keys(),
+        ...votersByCountry.keys(),
+      ]),
+    ];
+    const countries = await tx.country.findMany({
+      where: { id: { in: countryIds } },
+      select: { id: true, code: true, name: true },
+    });
+
+    const entries = countries
+      .map((country): CountryDriftDto => {
+        const counter = counterByCountry.get(country.id) ?? 0;
+        const ledger = ledgerByCountry.get(country.id) ?? 0;
+        const voterCount = votersByCountry.get(country.id) ?? 0;
+        return {
+          countryCode: country.code,
+          country: country.name,
+          counter,
+          ledger,
+          voters: voterCount,
+          counterDrift: counter - ledger,
+          voterDrift: voterCount - ledger,
+        };
+      })
+      .sort((a, b) => a.countryCode.localeCompare(b.countryCode));
+
+    return {
+      entries,
+      countryIdByCode: new Map(
+        countries.map((country) => [country.code, country.id]),
+      ),
+    };
+  }
+
+  /**
+   * Set each drifted counter to its ledger count, guarded on the counter
+   * value that was read so a counter that moved since is left for the next run
+   */
+  private async repairCounters(
+    tx: Prisma.TransactionClient,
+    pollId: string,
+    toRepair: CountryDriftDto[],
+    countryIdByCode: Map<string, string>,
+  ): Promise<number> {
+    let repaired = 0;
+
+    for (const entry of toRepair) {
+      const countryId = countryIdByCode.get(entry.countryCode);
+      let { count } = await tx.pollCountry.updateMany({
+        where: { pollId, countryId, votes: entry.counter },
+        data: { votes: entry.ledger },
+      });
+
+      // No counter row yet for a country that only appears in the ledger
+      if (count === 0 && entry.counter === 0) {
+        ({ count } = await tx.pollCountry.createMany({
+          data: [{ pollId, countryId, votes: entry.ledger }],
+          skipDuplicates: true,
+        }));
+      }
+
+      if (count === 0) {
+        this.logger.LogWarning(
+          `Vote counter in poll ${pollId} for ${entry.countryCode} changed during reconciliation, not repaired`,
+        );
+      }
+      repaired += count;
+    }
+
+    return repaired;
+  }
+}
@@ -0,0 +1,34 @@
+import { buildMessage, ValidateBy, ValidationOptions } from 'class-validator';
+
+/**
+ * Check that an ISO 8601 date string falls within [min, max)
+ * Keeps date ranges of public queries within years that can hold votes
+ */
+export function IsDateInRange(
+  min: string,
+  max: string,
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isDateInRange',
+      constraints: [min, max],
+      validator: {
+        validate: (value: unknown): boolean => {
+          const time = new Date(value as string).getTime();
+          return (
+            typeof value === 'string' &&
+            time >= new Date(min).getTime() &&
+            time < new Date(max).getTime()
+          );
+        },
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            `${eachPrefix}$property must be a date from $constraint1 and before $constraint2`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
@@ -0,0 +1,19 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { negotiateLanguage } from '../utils/language.util';
+
+/**
+ * Resolve the response language from the lang query parameter or the
+ * Accept-Language header of the current request
+ */
+export const Language = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): string => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    const { lang } = request.query;
+
+    return negotiateLanguage(
+      typeof lang === 'string' ? lang : undefined,
+      request.get('accept-language'),
+    );
+  },
+);
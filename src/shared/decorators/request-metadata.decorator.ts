@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+export interface RequestMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Extract the client IP and user agent of the current request
+ */
+export const ReqMetadata = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): RequestMetadata => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return {
+      ipAddress: request.ip,
+      userAgent: request.get('user-agent'),
+    };
+  },
+);
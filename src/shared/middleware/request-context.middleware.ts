@@ -0,0 +1,46 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { runWithRequestContext } from 'src/shared/utils/request-context.util';
+import { getMatchedRoute } from 'src/shared/utils/route.util';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client-provided IDs are only kept when they cannot forge log lines
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request an ID, taken from X-Request-Id or generated, that is
+ * returned on the response and tags its log lines, and writes the access log
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  constructor(private readonly logger: LoggerService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const header = request.get(REQUEST_ID_HEADER);
+    const requestId =
+      header && VALID_REQUEST_ID.test(header) ? header : randomUUID();
+    const startedAt = performance.now();
+    const middlewareRoute = request.route;
+
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+
+    // Logged with the route pattern, so ids and query tokens stay out of it
+    response.once('close', () => {
+      const route =
+        getMatchedRoute(request, middlewareRoute) ??
+        request.originalUrl.split('?')[0];
+      const latency = Math.round(performance.now() - startedAt);
+
+      runWithRequestContext({ requestId }, () =>
+        this.logger.LogInfo(
+          `${request.method} ${route} ${response.statusCode} ${latency}ms`,
+        ),
+      );
+    });
+
+    runWithRequestContext({ requestId }, next);
+  }
+}
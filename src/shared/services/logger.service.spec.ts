@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoggerService } from './logger.service';
+import { runWithRequestContext } from '../utils/request-context.util';
+import { sensitive } from '../utils/redact.util';
+
+describe('LoggerService', () => {
+  let info: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  // The configuration is read when the service is created
+  const createService = async (): Promise<LoggerService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LoggerService],
+    }).compile();
+
+    return module.get<LoggerService>(LoggerService);
+  };
+
+  beforeEach(() => {
+    process.env.LOG_REDACTION_SECRET = 'test-secret';
+    info = jest.spyOn(console, 'info').mockImplementation();
+    warn = jest.spyOn(console, 'warn').mockImplementation();
+    error = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    delete process.env.LOG_LEVEL;
+    delete process.env.LOG_FORMAT;
+    delete process.env.LOG_REDACT;
+    delete process.env.LOG_REDACTION_SECRET;
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', async () => {
+    expect(await createService()).toBeDefined();
+  });
+
+  it('should tag lines with the ID of the current request', async () => {
+    const service = await createService();
+
+    runWithRequestContext({ requestId: 'req-1' }, () =>
+      service.LogError('Failed to submit vote', 500),
+    );
+    service.LogInfo('Purged 2 expired pending votes');
+
+    expect(error).toHaveBeenCalledWith(
+      '[%s]%s: %s%s',
+      expect.any(String),
+      ' [req-1]',
+      'HTTP 500 - ',
+      'Failed to submit vote',
+    );
+    expect(info).toHaveBeenCalledWith(
+      '[%s]%s: %s%s',
+      expect.any(String),
+      '',
+      '',
+      'Purged 2 expired pending votes',
+    );
+  });
+
+  it('should write JSON lines when LOG_FORMAT is json', async () => {
+    process.env.LOG_FORMAT = 'json';
+    const service = await createService();
+
+    runWithRequestContext({ requestId: 'req-1' }, () =>
+      service.LogWarning('Rate limit exceeded'),
+    );
+
+    expect(JSON.parse(warn.mock.calls[0][0])).toEqual({
+      timestamp: expect.any(String),
+      level: 'warn',
+      requestId: 'req-1',
+      message: 'Rate limit exceeded',
+    });
+  });
+
+  it('should drop lines less severe than LOG_LEVEL', async () => {
+    process.env.LOG_LEVEL = 'warn';
+    const service = await createService();
+
+    service.LogInfo('Fetching countries');
+    service.LogWarning('Vote rejected');
+    service.LogError('Failed to confirm vote');
+
+    expect(info).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hash emails and sensitive values', async () => {
+    process.env.LOG_FORMAT = 'json';
+    const service = await createService();
+
+    service.LogInfo(
+      `Vote confirmed: ${sensitive(
+        'John Doe',
+      )}, email=John.Doe+polls@gmail.com`,
+    );
+    service.LogInfo('Manage token requested: email=johndoe@gmail.com');
+
+    const [first, second] = info.mock.calls.map(
+      ([line]) => JSON.parse(line).message,
+    );
+    expect(first).toMatch(
+      /^Vote confirmed: \[redacted:[0-9a-f]{12}\], email=\[redacted:([0-9a-f]{12})\]@gmail\.com$/,
+    );
+    expect(first).not.toContain('John');
+    // Variants of the same address get the same hash
+    expect(second.split('email=')[1]).toBe(first.split('email=')[1]);
+  });
+
+  it('should log personal data as is when LOG_REDACT is false', async () => {
+    process.env.LOG_REDACT = 'false';
+    const service = await createService();
+
+    service.LogInfo(`Vote confirmed: ${sensitive('John Doe')}, john@x.com`);
+
+    expect(info.mock.calls[0][4]).toBe('Vote confirmed: John Doe, john@x.com');
+  });
+});
@@ -1,4 +1,10 @@
 import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { getRequestId } from 'src/shared/utils/request-context.util';
+import {
+  redactPersonalData,
+  unmarkPersonalData,
+} from 'src/shared/utils/redact.util';
 
 export interface ILoggerService {
   LogError(message: string, httpStatusCode: number): void;
@@ -7,22 +13,76 @@ export interface ILoggerService {
   LogInfo(message: string): void;
 }
 
+export type LogLevel = 'error' | 'warn' | 'info';
+
+// Lower is more severe
+const LOG_LEVELS: Record<LogLevel, number> = {
+  error: 0,
+  warn: 1,
+  info: 2,
+};
+
+/**
+ * Writes log lines tagged with the ID of the current request, as text or as
+ * JSON (LOG_FORMAT=json)
+ * Lines less severe than LOG_LEVEL are dropped, and personal data is
+ * redacted unless LOG_REDACT=false
+ */
 @Injectable()
 export class LoggerService implements ILoggerService {
+  private readonly level =
+    LOG_LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LOG_LEVELS.info;
+  private readonly json = process.env.LOG_FORMAT === 'json';
+  private readonly redact = process.env.LOG_REDACT !== 'false';
+  // Without a configured secret, redacted values only match within one
+  // process
+  private readonly redactionSecret =
+    process.env.LOG_REDACTION_SECRET || randomBytes(32).toString('hex');
+
   LogError(message: unknown, httpStatusCode?: unknown): void {
-    if (httpStatusCode)
-      console.error(
-        '[%s]: HTTP %d - %s',
-        new Date().toISOString(),
-        httpStatusCode,
-        message,
-      );
-    else console.error('[%s]: %s', new Date().toISOString(), message);
+    this.write('error', String(message), Number(httpStatusCode) || undefined);
   }
   LogWarning(message: string): void {
-    console.warn('[%s]: %s', new Date().toISOString(), message);
+    this.write('warn', message);
   }
   LogInfo(message: string): void {
-    console.info('[%s]: %s', new Date().toISOString(), message);
+    this.write('info', message);
+  }
+
+  private write(
+    level: LogLevel,
+    message: string,
+    httpStatusCode?: number,
+  ): void {
+    if (LOG_LEVELS[level] > this.level) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const requestId = getRequestId();
+    const text = this.redact
+      ? redactPersonalData(message, this.redactionSecret)
+      : unmarkPersonalData(message);
+
+    if (this.json) {
+      console[level](
+        JSON.stringify({
+          timestamp,
+          level,
+          requestId,
+          httpStatusCode,
+          message: text,
+        }),
+      );
+      return;
+    }
+
+    console[level](
+      '[%s]%s: %s%s',
+      timestamp,
+      requestId ? ` [${requestId}]` : '',
+      httpStatusCode ? `HTTP ${httpStatusCode} - ` : '',
+      text,
+    );
   }
 }
@@ -1,10 +1,23 @@
-import { Global, Module } from '@nestjs/common';
+import {
+  Global,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
 import { DatabaseService } from './services/database.service';
 import { LoggerService } from './services/logger.service';
+import { RequestContextMiddleware } from './middleware/request-context.middleware';
 
 @Global()
 @Module({
   providers: [DatabaseService, LoggerService],
   exports: [DatabaseService, LoggerService],
 })
-export class SharedModule {}
+export class SharedModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer
+      .apply(RequestContextMiddleware)
+      .forRoutes({ path: '{*path}', method: RequestMethod.ALL });
+  }
+}
@@ -0,0 +1,70 @@
+interface EmailProviderRules {
+  // Domain the provider's addresses are stored under
+  domain?: string;
+  // Everything after a "+" in the local part is a tag for the same inbox
+  plusTags: boolean;
+  // Dots in the local part are ignored by the provider
+  ignoreDots: boolean;
+}
+
+const GMAIL: EmailProviderRules = {
+  domain: 'gmail.com',
+  plusTags: true,
+  ignoreDots: true,
+};
+const PLUS_TAGS: EmailProviderRules = { plusTags: true, ignoreDots: false };
+
+// Providers known to deliver variants of an address to the same inbox
+const PROVIDER_RULES: Record<string, EmailProviderRules> = {
+  'gmail.com': GMAIL,
+  'googlemail.com': GMAIL,
+  'outlook.com': PLUS_TAGS,
+  'hotmail.com': PLUS_TAGS,
+  'live.com': PLUS_TAGS,
+  'icloud.com': PLUS_TAGS,
+  'me.com': PLUS_TAGS,
+  'mac.com': PLUS_TAGS,
+  'fastmail.com': PLUS_TAGS,
+  'protonmail.com': PLUS_TAGS,
+  'proton.me': PLUS_TAGS,
+};
+
+/**
+ * Domain of an email address, lowercased
+ */
+export function getEmailDomain(email: string): string {
+  return email
+    .slice(email.lastIndexOf('@') + 1)
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Canonical form of an email address, the same for every variant that
+ * reaches the same inbox: "Jane.Doe+polls@googlemail.com" and
+ * "janedoe@gmail.com" are both "janedoe@gmail.com"
+ * Addresses are lowercased, plus tags and dots are only dropped for
+ * providers known to ignore them
+ */
+export function canonicalizeEmail(email: string): string {
+  const address = email.trim().toLowerCase();
+  const at = address.lastIndexOf('@');
+  let local = address.slice(0, at);
+  let domain = address.slice(at + 1);
+  const rules = PROVIDER_RULES[domain];
+
+  if (at <= 0 || !rules) {
+    return address;
+  }
+
+  if (rules.plusTags) {
+    local = local.split('+')[0];
+  }
+  if (rules.ignoreDots) {
+    local = local.replace(/\./g, '');
+  }
+  domain = rules.domain ?? domain;
+
+  // An address made only of a tag or dots is left as typed
+  return local ? `${local}@${domain}` : address;
+}
@@ -0,0 +1,26 @@
+import { negotiateLanguage } from './language.util';
+
+describe('negotiateLanguage', () => {
+  it('should default to English', () => {
+    expect(negotiateLanguage()).toBe('en');
+  });
+
+  it('should prefer the lang value over the Accept-Language header', () => {
+    expect(negotiateLanguage('de', 'fr-FR,fr;q=0.9')).toBe('de');
+  });
+
+  it('should pick the best supported language of the header', () => {
+    expect(negotiateLanguage(undefined, 'xx;q=1,pt-BR;q=0.8,es;q=0.9')).toBe(
+      'es',
+    );
+  });
+
+  it('should map ISO 639-3 codes', () => {
+    expect(negotiateLanguage('por')).toBe('pt');
+  });
+
+  it('should ignore Object prototype keys', () => {
+    expect(negotiateLanguage('constructor')).toBe('en');
+    expect(negotiateLanguage('__proto__', 'toString,fr')).toBe('fr');
+  });
+});
@@ -0,0 +1,88 @@
+export const DEFAULT_LANGUAGE = 'en';
+
+// ISO 639-1 codes of the languages country names are translated to, mapped
+// to the ISO 639-3 keys REST Countries uses for its translations
+export const TRANSLATION_KEYS: Record<string, string> = {
+  ar: 'ara',
+  cs: 'ces',
+  de: 'deu',
+  es: 'spa',
+  et: 'est',
+  fa: 'per',
+  fi: 'fin',
+  fr: 'fra',
+  hr: 'hrv',
+  hu: 'hun',
+  it: 'ita',
+  ja: 'jpn',
+  ko: 'kor',
+  nl: 'nld',
+  pl: 'pol',
+  pt: 'por',
+  ru: 'rus',
+  sk: 'slk',
+  sr: 'srp',
+  sv: 'swe',
+  tr: 'tur',
+  ur: 'urd',
+  zh: 'zho',
+};
+
+/**
+ * Pick the response language from an explicit lang value, then from the
+ * Accept-Language header by quality, falling back to English
+ */
+export function negotiateLanguage(
+  lang?: string,
+  acceptLanguage?: string,
+): string {
+  const candidates = [
+    ...(lang ? [lang] : []),
+    ...parseAcceptLanguage(acceptLanguage),
+  ];
+
+  return candidates.map(toSupportedLanguage).find(Boolean) ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * Language tags of an Accept-Language header, best quality first
+ */
+function parseAcceptLanguage(header?: string): string[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='));
+      return {
+        tag: tag.trim(),
+        quality: quality ? Number(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+// "pt-BR" and "por" both map to "pt"
+function toSupportedLanguage(tag: string): string | undefined {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+
+  // Own keys only, so "constructor" or "__proto__" are not taken for languages
+  if (
+    primary === DEFAULT_LANGUAGE ||
+    Object.prototype.hasOwnProperty.call(TRANSLATION_KEYS, primary)
+  ) {
+    return primary;
+  }
+
+  return Object.keys(TRANSLATION_KEYS).find(
+    (language) => TRANSLATION_KEYS[language] === primary,
+  );
+}
@@ -0,0 +1,42 @@
+import { createHmac } from 'crypto';
+import { canonicalizeEmail, getEmailDomain } from './email.util';
+
+// Control character wrapped around values marked with sensitive()
+const SENSITIVE_MARK = '\u001f';
+const SENSITIVE_PATTERN = /\u001f([^\u001f]*)\u001f/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+const pseudonym = (value: string, secret: string): string =>
+  `[redacted:${createHmac('sha256', secret)
+    .update(value)
+    .digest('hex')
+    .slice(0, 12)}]`;
+
+/**
+ * Mark personal data that cannot be recognized on its own, such as a
+ * voter's name, in a log message
+ */
+export function sensitive(value: string): string {
+  return `${SENSITIVE_MARK}${value}${SENSITIVE_MARK}`;
+}
+
+/**
+ * Replace email addresses and values marked with sensitive() by a keyed
+ * hash, so log lines of the same voter can still be matched
+ * Emails keep their domain and are hashed in canonical form
+ */
+export function redactPersonalData(message: string, secret: string): string {
+  return message
+    .replace(SENSITIVE_PATTERN, (_, value: string) => pseudonym(value, secret))
+    .replace(EMAIL_PATTERN, (email) => {
+      const canonical = canonicalizeEmail(email);
+      return `${pseudonym(canonical, secret)}@${getEmailDomain(canonical)}`;
+    });
+}
+
+/**
+ * Remove the marks of sensitive() when personal data is logged as is
+ */
+export function unmarkPersonalData(message: string): string {
+  return message.replace(SENSITIVE_PATTERN, '$1');
+}
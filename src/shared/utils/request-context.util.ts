@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a callback, and everything it starts, within the context of a request
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  callback: () => T,
+): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * ID of the request being handled, undefined outside of a request (such as
+ * in scheduled jobs)
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
@@ -0,0 +1,16 @@
+import { Request } from 'express';
+
+/**
+ * Route pattern a request matched, such as /api/polls/:pollId/votes, or
+ * undefined when no route matched
+ * Express leaves the route of the calling middleware on unmatched requests,
+ * so the middleware passes the route it saw when the request came in
+ */
+export function getMatchedRoute(
+  request: Request,
+  middlewareRoute: unknown,
+): string | undefined {
+  return request.route && request.route !== middlewareRoute
+    ? request.route.path
+    : undefined;
+}
@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generate a random URL-safe token to hand out to a client
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash a token before storing it so a database leak does not expose it
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,88 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import {
+  LeaderboardSort,
+  MAX_LEADERBOARD_LIMIT,
+  MAX_SEARCH_CODES,
+  RankingMode,
+  TieBreaker,
+} from '../dto/leaderboard-query.dto';
+
+/**
+ * Swagger docs for the query parameters of the search routes
+ * The query DTOs carry no Swagger metadata, so they are listed here
+ */
+export const ApiSearchQuery = () =>
+  applyDecorators(
+    ApiQuery({
+      name: 'q',
+      required: false,
+      description:
+        'Free text matched against name, capital, region and subregion, tolerates typos',
+    }),
+    ApiQuery({
+      name: 'region',
+      required: false,
+      description: 'Only countries in this region (case-insensitive)',
+    }),
+    ApiQuery({
+      name: 'subRegion',
+      required: false,
+      description: 'Only countries in this subregion (case-insensitive)',
+    }),
+    ApiQuery({
+      name: 'minVotes',
+      required: false,
+      type: Number,
+      description: 'Minimum number of votes, inclusive',
+    }),
+    ApiQuery({
+      name: 'maxVotes',
+      required: false,
+      type: Number,
+      description: 'Maximum number of votes, inclusive',
+    }),
+    ApiQuery({
+      name: 'codes',
+      required: false,
+      type: String,
+      description: `Comma separated country codes (cca3), at most ${MAX_SEARCH_CODES}`,
+      example: 'ARG,BRA,URY',
+    }),
+    ApiQuery({
+      name: 'from',
+      required: false,
+      description:
+        'Only count votes cast from this ISO 8601 date, inclusive. Countries without votes in the range are left out',
+    }),
+    ApiQuery({
+      name: 'to',
+      required: false,
+      description: 'Only count votes cast before this ISO 8601 date',
+    }),
+    ApiQuery({
+      name: 'limit',
+      required: false,
+      type: Number,
+      description: `Page size, 1 to ${MAX_LEADERBOARD_LIMIT}`,
+    }),
+    ApiQuery({ name: 'offset', required: false, type: Number }),
+    ApiQuery({
+      name: 'cursor',
+      required: false,
+      description: 'meta.nextCursor of the previous page, instead of offset',
+    }),
+    ApiQuery({
+      name: 'sort',
+      required: false,
+      enum: LeaderboardSort,
+      description: 'Replaces the relevance order',
+    }),
+    ApiQuery({ name: 'ranking', required: false, enum: RankingMode }),
+    ApiQuery({ name: 'tieBreak', required: false, enum: TieBreaker }),
+    ApiQuery({
+      name: 'lang',
+      required: false,
+      description: 'Language of the names, overrides Accept-Language',
+    }),
+  );
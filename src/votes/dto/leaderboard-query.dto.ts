@@ -0,0 +1,137 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsISO8601,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export enum LeaderboardSort {
+  VOTES_DESC = 'votes_desc',
+  VOTES_ASC = 'votes_asc',
+  NAME_ASC = 'name_asc',
+  NAME_DESC = 'name_desc',
+}
+
+export enum RankingMode {
+  // 1, 2, 2, 4
+  COMPETITION = 'competition',
+  // 1, 2, 2, 3
+  DENSE = 'dense',
+  // 1, 2, 3, 4 with ties broken by the tie-breaker
+  ORDINAL = 'ordinal',
+}
+
+export enum TieBreaker {
+  // Country that reached its vote count first
+  EARLIEST = 'earliest',
+  ALPHABETICAL = 'alphabetical',
+}
+
+export const DEFAULT_LEADERBOARD_LIMIT = 10;
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+export class LeaderboardQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_LEADERBOARD_LIMIT)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  // Opaque value taken from meta.nextCursor of the previous page
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsEnum(LeaderboardSort)
+  sort?: LeaderboardSort;
+
+  @IsOptional()
+  @IsEnum(RankingMode)
+  ranking?: RankingMode;
+
+  // Also orders countries with the same votes within a page
+  @IsOptional()
+  @IsEnum(TieBreaker)
+  tieBreak?: TieBreaker;
+
+  // Language of the country names, takes precedence over Accept-Language
+  @IsOptional()
+  @IsString()
+  lang?: string;
+}
+
+export class TopCountriesQueryDto extends LeaderboardQueryDto {
+  @IsOptional()
+  @IsString()
+  region?: string;
+}
+
+export const MAX_SEARCH_CODES = 50;
+
+export class SearchCountriesQueryDto extends LeaderboardQueryDto {
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  subRegion?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minVotes?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxVotes?: number;
+
+  // Country codes (cca3), comma separated or repeated
+  @IsOptional()
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value : String(value).split(','))
+      .map((code: string) => code.trim().toUpperCase())
+      .filter((code: string) => code.length > 0),
+  )
+  @IsArray()
+  @ArrayMaxSize(MAX_SEARCH_CODES)
+  @Matches(/^[A-Z]{3}$/, {
+    each: true,
+    message: 'each value in codes must be a cca3 country code',
+  })
+  codes?: string[];
+
+  // Inclusive start of the range the votes were cast in
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  // Exclusive end of the range the votes were cast in
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+}
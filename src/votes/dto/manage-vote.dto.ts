@@ -0,0 +1,27 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class ChangeVoteDto {
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @IsNotEmpty()
+  @IsString()
+  country: string;
+}
+
+export class VoteTokenDto {
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
+
+export class RequestManageTokenDto {
+  @IsNotEmpty()
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  pollId?: string;
+}
@@ -0,0 +1,60 @@
+import { IsEnum, IsISO8601, IsOptional, IsString } from 'class-validator';
+import { IsDateInRange } from '../../shared/decorators/is-date-in-range.decorator';
+
+// Bounds of from and to
+export const TIMESERIES_MIN_DATE = '2000-01-01T00:00:00.000Z';
+export const TIMESERIES_MAX_DATE = '2100-01-01T00:00:00.000Z';
+
+export enum TimeseriesInterval {
+  HOUR = 'hour',
+  DAY = 'day',
+  WEEK = 'week',
+}
+
+export class TimeseriesQueryDto {
+  @IsOptional()
+  @IsEnum(TimeseriesInterval)
+  interval?: TimeseriesInterval;
+
+  // Inclusive start of the range
+  @IsOptional()
+  @IsISO8601()
+  @IsDateInRange(TIMESERIES_MIN_DATE, TIMESERIES_MAX_DATE)
+  from?: string;
+
+  // Exclusive end of the range, defaults to now
+  @IsOptional()
+  @IsISO8601()
+  @IsDateInRange(TIMESERIES_MIN_DATE, TIMESERIES_MAX_DATE)
+  to?: string;
+
+  // Country code (cca3)
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+}
+
+export class TimeseriesPointDto {
+  // Start of the bucket (UTC)
+  bucket: string;
+  votes: number;
+  // Votes cast up to the end of the bucket, including those before the range
+  runningTotal: number;
+}
+
+export class TimeseriesMetaDto {
+  interval: TimeseriesInterval;
+  from: string;
+  to: string;
+  // Votes cast before the range
+  startingTotal: number;
+}
+
+export class TimeseriesDto {
+  data: TimeseriesPointDto[];
+  meta: TimeseriesMetaDto;
+}
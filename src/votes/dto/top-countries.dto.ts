@@ -1,3 +1,5 @@
+import { SearchField } from '../utils/search-score.util';
+
 export class TopCountryDto {
   country: string;
   capital: string;
@@ -5,4 +7,24 @@ export class TopCountryDto {
   subRegion: string;
   votes: number;
   rank: number;
+  // Whether other countries hold the same rank (never for ordinal ranking)
+  sharedRank: boolean;
+  // Search results only: relevance from 0 to 1 and the field that matched
+  score?: number;
+  matchedField?: SearchField;
+}
+
+export class LeaderboardPageMetaDto {
+  // Number of countries matching the query across all pages
+  total: number;
+  limit: number;
+  // null when the page was requested with a cursor
+  offset: number | null;
+  // Pass as cursor to fetch the next page, null on the last page
+  nextCursor: string | null;
+}
+
+export class TopCountriesPageDto {
+  data: TopCountryDto[];
+  meta: LeaderboardPageMetaDto;
 }
@@ -0,0 +1,6 @@
+export class VoteHistoryEntryDto {
+  action: 'CAST' | 'CHANGE' | 'WITHDRAW' | 'VOID' | 'RESTORE';
+  fromCountry: string | null;
+  toCountry: string | null;
+  createdAt: Date;
+}
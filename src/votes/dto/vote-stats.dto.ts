@@ -0,0 +1,19 @@
+export class GroupLeaderDto {
+  country: string;
+  code: string;
+  votes: number;
+}
+
+export class RegionStatsDto {
+  region: string;
+  totalVotes: number;
+  // Number of countries in the region with at least one vote
+  countries: number;
+  leader: GroupLeaderDto;
+  // Percentage of all the votes in the poll
+  voteShare: number;
+}
+
+export class SubRegionStatsDto extends RegionStatsDto {
+  subRegion: string;
+}
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { EmailPolicyService, EmailRejectionCode } from './email-policy.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { canonicalizeEmail } from '../shared/utils/email.util';
+
+type MockMetricsService = {
+  recordVoteRejected: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('EmailPolicyService', () => {
+  let metricsService: MockMetricsService;
+  let loggerService: MockLoggerService;
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  // The domain lists are read when the service is created
+  const createService = async (): Promise<EmailPolicyService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailPolicyService,
+        {
+          provide: MetricsService,
+          useValue: { recordVoteRejected: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    metricsService = module.get(MetricsService);
+    loggerService = module.get(LoggerService);
+    return module.get<EmailPolicyService>(EmailPolicyService);
+  };
+
+  afterEach(() => {
+    delete process.env.EMAIL_BLOCKED_DOMAINS;
+    delete process.env.EMAIL_ALLOWED_DOMAINS;
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', async () => {
+    expect(await createService()).toBeDefined();
+  });
+
+  describe('check', () => {
+    it('should accept regular addresses', async () => {
+      const service = await createService();
+
+      expect(service.check('john@example.com')).toBeNull();
+      expect(service.check('john@gmail.com')).toBeNull();
+    });
+
+    it('should block the built-in disposable domains and their subdomains', async () => {
+      const service = await createService();
+
+      expect(service.check('John@YOPmail.com')).toEqual({
+        code: EmailRejectionCode.DOMAIN_BLOCKED,
+        message: 'Votes from disposable email addresses are not accepted',
+      });
+      expect(service.check('john@eu.mailinator.com')?.code).toBe(
+        EmailRejectionCode.DOMAIN_BLOCKED,
+      );
+      expect(service.check('john@notmailinator.com')).toBeNull();
+    });
+
+    it('should replace the built-in list with EMAIL_BLOCKED_DOMAINS', async () => {
+      process.env.EMAIL_BLOCKED_DOMAINS = 'spam.test, Junk.test';
+      const service = await createService();
+
+      expect(service.check('john@junk.test')?.code).toBe(
+        EmailRejectionCode.DOMAIN_BLOCKED,
+      );
+      expect(service.check('john@yopmail.com')).toBeNull();
+    });
+
+    it('should keep the built-in list when EMAIL_BLOCKED_DOMAINS is blank', async () => {
+      process.env.EMAIL_BLOCKED_DOMAINS = ' ';
+      const service = await createService();
+
+      expect(service.check('john@yopmail.com')?.code).toBe(
+        EmailRejectionCode.DOMAIN_BLOCKED,
+      );
+    });
+
+    it('should only accept EMAIL_ALLOWED_DOMAINS when set', async () => {
+      process.env.EMAIL_ALLOWED_DOMAINS = 'example.com';
+      const service = await createService();
+
+      expect(service.check('john@example.com')).toBeNull();
+      expect(service.check('john@sales.example.com')).toBeNull();
+      expect(service.check('john@gmail.com')).toEqual({
+        code: EmailRejectionCode.DOMAIN_NOT_ALLOWED,
+        message: 'Votes are only accepted from approved email domains',
+      });
+    });
+
+    it('should check the canonical domain', async () => {
+      process.env.EMAIL_ALLOWED_DOMAINS = 'gmail.com';
+      const service = await createService();
+
+      expect(service.check('john@googlemail.com')).toBeNull();
+    });
+  });
+
+  describe('assertAllowed', () => {
+    it('should throw a BadRequestException carrying the rejection code', async () => {
+      const service = await createService();
+
+      const error = (() => {
+        try {
+          service.assertAllowed('john@yopmail.com');
+        } catch (e) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse()).toEqual({
+        statusCode: 400,
+        message: 'Votes from disposable email addresses are not accepted',
+        error: 'Bad Request',
+        code: EmailRejectionCode.DOMAIN_BLOCKED,
+      });
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Vote rejected - EMAIL_DOMAIN_BLOCKED: yopmail.com',
+      );
+      expect(metricsService.recordVoteRejected).toHaveBeenCalledWith(
+        'submitted',
+        'email_domain',
+      );
+    });
+
+    it('should not throw for accepted addresses', async () => {
+      const service = await createService();
+
+      expect(() => service.assertAllowed('john@example.com')).not.toThrow();
+    });
+  });
+
+  describe('canonicalizeEmail', () => {
+    it('should lowercase any address', () => {
+      expect(canonicalizeEmail(' Alice@Example.com ')).toBe(
+        'alice@example.com',
+      );
+    });
+
+    it('should drop dots and plus tags for Gmail', () => {
+      expect(canonicalizeEmail('A.l.i.c.e+polls@gmail.com')).toBe(
+        'alice@gmail.com',
+      );
+      expect(canonicalizeEmail('alice@googlemail.com')).toBe('alice@gmail.com');
+    });
+
+    it('should drop plus tags but keep dots for Outlook', () => {
+      expect(canonicalizeEmail('Alice.Smith+2@outlook.com')).toBe(
+        'alice.smith@outlook.com',
+      );
+    });
+
+    it('should keep plus tags and dots for unknown providers', () => {
+      expect(canonicalizeEmail('alice.smith+2@example.com')).toBe(
+        'alice.smith+2@example.com',
+      );
+    });
+
+    it('should leave an address made only of a tag as typed', () => {
+      expect(canonicalizeEmail('+polls@gmail.com')).toBe('+polls@gmail.com');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { BadRequestException, HttpStatus, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { canonicalizeEmail, getEmailDomain } from 'src/shared/utils/email.util';
+import { MetricsService } from '../metrics/metrics.service';
+
+export enum EmailRejectionCode {
+  ALREADY_VOTED = 'EMAIL_ALREADY_VOTED',
+  DOMAIN_BLOCKED = 'EMAIL_DOMAIN_BLOCKED',
+  DOMAIN_NOT_ALLOWED = 'EMAIL_DOMAIN_NOT_ALLOWED',
+}
+
+export interface EmailRejection {
+  code: EmailRejectionCode;
+  message: string;
+}
+
+// Blocked when EMAIL_BLOCKED_DOMAINS is not set or blank
+const DISPOSABLE_DOMAINS = [
+  '10minutemail.com',
+  'dispostable.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'sharklasers.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+];
+
+const parseDomains = (value: string): string[] =>
+  value
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase())
+    .filter((domain) => domain.length > 0);
+
+// A listed domain also covers its subdomains
+const matchesDomain = (domain: string, domains: string[]): boolean =>
+  domains.some((listed) => domain === listed || domain.endsWith(`.${listed}`));
+
+/**
+ * Decides which email addresses may vote
+ * EMAIL_BLOCKED_DOMAINS replaces the built-in list of disposable domains,
+ * and EMAIL_ALLOWED_DOMAINS, when set, only lets its domains vote
+ */
+@Injectable()
+export class EmailPolicyService {
+  private readonly blockedDomains = parseDomains(
+    process.env.EMAIL_BLOCKED_DOMAINS?.trim() || DISPOSABLE_DOMAINS.join(','),
+  );
+  private readonly allowedDomains = parseDomains(
+    process.env.EMAIL_ALLOWED_DOMAINS ?? '',
+  );
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Reason an address may not vote, or null when it may
+   */
+  check(email: string): EmailRejection | null {
+    const domain = getEmailDomain(canonicalizeEmail(email));
+
+    if (matchesDomain(domain, this.blockedDomains)) {
+      return {
+        code: EmailRejectionCode.DOMAIN_BLOCKED,
+        message: 'Votes from disposable email addresses are not accepted',
+      };
+    }
+
+    if (
+      this.allowedDomains.length > 0 &&
+      !matchesDomain(domain, this.allowedDomains)
+    ) {
+      return {
+        code: EmailRejectionCode.DOMAIN_NOT_ALLOWED,
+        message: 'Votes are only accepted from approved email domains',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Throw a BadRequestException carrying the rejection code when the
+   * address may not vote
+   */
+  assertAllowed(email: string): void {
+    const rejection = this.check(email);
+
+    if (rejection) {
+      this.logger.LogWarning(
+        `Vote rejected - ${rejection.code}: ${getEmailDomain(
+          canonicalizeEmail(email),
+        )}`,
+      );
+      this.metricsService.recordVoteRejected('submitted', 'email_domain');
+      throw new BadRequestException({
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: rejection.message,
+        error: 'Bad Request',
+        code: rejection.code,
+      });
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MessageEvent, NotFoundException } from '@nestjs/common';
+import { LeaderboardStreamService } from './leaderboard-stream.service';
+import { VotesService } from './votes.service';
+import { VoteEventsService } from './vote-events.service';
+import { LoggerService } from '../shared/services/logger.service';
+
+type MockVotesService = {
+  getTopCountries: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('LeaderboardStreamService', () => {
+  let service: LeaderboardStreamService;
+  let votesService: MockVotesService;
+  let voteEvents: VoteEventsService;
+  let loggerService: MockLoggerService;
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const argentinaFirst = [
+    {
+      country: 'Argentina',
+      capital: 'Buenos Aires',
+      region: 'Americas',
+      subRegion: 'South America',
+      votes: 2,
+      rank: 1,
+      sharedRank: false,
+    },
+  ];
+
+  const brazilFirst = [
+    {
+      country: 'Brazil',
+      capital: 'Brasília',
+      region: 'Americas',
+      subRegion: 'South America',
+      votes: 3,
+      rank: 1,
+      sharedRank: false,
+    },
+  ];
+
+  const page = (data: typeof argentinaFirst) => ({
+    data,
+    meta: { total: data.length, limit: 10, offset: 0, nextCursor: null },
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderboardStreamService,
+        VoteEventsService,
+        {
+          provide: VotesService,
+          useValue: { getTopCountries: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LeaderboardStreamService>(LeaderboardStreamService);
+    votesService = module.get(VotesService);
+    voteEvents = module.get(VoteEventsService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('streamTopCountries', () => {
+    it('should push the current standings on connect', async () => {
+      votesService.getTopCountries.mockResolvedValue(page(argentinaFirst));
+      const messages: MessageEvent[] = [];
+
+      const stream = await service.streamTopCountries('default', 'Americas');
+      const subscription = stream.subscribe((message) =>
+        messages.push(message),
+      );
+
+      expect(messages).toEqual([{ data: argentinaFirst }]);
+      expect(votesService.getTopCountries).toHaveBeenCalledWith('default', {
+        region: 'Americas',
+      });
+      subscription.unsubscribe();
+    });
+
+    it('should batch bursts of changes into a single refresh', async () => {
+      votesService.getTopCountries
+        .mockResolvedValueOnce(page(argentinaFirst))
+        .mockResolvedValue(page(brazilFirst));
+      const messages: MessageEvent[] = [];
+
+      const stream = await service.streamTopCountries('default');
+      const subscription = stream.subscribe((message) =>
+        messages.push(message),
+      );
+      voteEvents.notifyStandingsChanged('default');
+      voteEvents.notifyStandingsChanged('default');
+      voteEvents.notifyStandingsChanged('default');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(votesService.getTopCountries).toHaveBeenCalledTimes(2);
+      expect(messages).toEqual([
+        { data: argentinaFirst },
+        { data: brazilFirst },
+      ]);
+      subscription.unsubscribe();
+    });
+
+    it('should keep refreshing while changes arrive faster than the window', async () => {
+      votesService.getTopCountries
+        .mockResolvedValueOnce(page(argentinaFirst))
+        .mockResolvedValue(page(brazilFirst));
+      const messages: MessageEvent[] = [];
+
+      const stream = await service.streamTopCountries('default');
+      const subscription = stream.subscribe((message) =>
+        messages.push(message),
+      );
+      for (let elapsed = 0; elapsed < 3000; elapsed += 200) {
+        voteEvents.notifyStandingsChanged('default');
+        await jest.advanceTimersByTimeAsync(200);
+      }
+
+      expect(votesService.getTopCountries).toHaveBeenCalledTimes(4);
+      expect(messages).toEqual([
+        { data: argentinaFirst },
+        { data: brazilFirst },
+      ]);
+      subscription.unsubscribe();
+    });
+
+    it('should not push when the standings did not change', async () => {
+      votesService.getTopCountries.mockResolvedValue(page(argentinaFirst));
+      const messages: MessageEvent[] = [];
+
+      const stream = await service.streamTopCountries('default');
+      const subscription = stream.subscribe((message) =>
+        messages.push(message),
+      );
+      voteEvents.notifyStandingsChanged('default');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(votesService.getTopCountries).toHaveBeenCalledTimes(2);
+      expect(messages).toHaveLength(1);
+      subscription.unsubscribe();
+    });
+
+    it('should ignore changes to other polls', async () => {
+      votesService.getTopCountries.mockResolvedValue(page(argentinaFirst));
+
+      const stream = await service.streamTopCountries('default');
+      const subscription = stream.subscribe();
+      voteEvents.notifyStandingsChanged('poll-1');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(votesService.getTopCountries).toHaveBeenCalledTimes(1);
+      subscription.unsubscribe();
+    });
+
+    it('should stop refreshing once the client disconnects', async () => {
+      votesService.getTopCountries.mockResolvedValue(page(argentinaFirst));
+
+      const stream = await service.streamTopCountries('default');
+      stream.subscribe().unsubscribe();
+      voteEvents.notifyStandingsChanged('default');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(votesService.getTopCountries).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the stream open when a refresh fails', async () => {
+      votesService.getTopCountries
+        .mockResolvedValueOnce(page(argentinaFirst))
+        .mockRejectedValueOnce(new Error('Database error'))
+        .mockResolvedValue(page(brazilFirst));
+      const messages: MessageEvent[] = [];
+
+      const stream = await service.streamTopCountries('default');
+      const subscription = stream.subscribe((message) =>
+        messages.push(message),
+      );
+      voteEvents.notifyStandingsChanged('default');
+      await jest.advanceTimersByTimeAsync(1000);
+      voteEvents.notifyStandingsChanged('default');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to refresh leaderboard stream: Database error',
+        500,
+      );
+      expect(messages).toEqual([
+        { data: argentinaFirst },
+        { data: brazilFirst },
+      ]);
+      subscription.unsubscribe();
+    });
+
+    it('should reject before streaming if the poll does not exist', async () => {
+      votesService.getTopCountries.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(service.streamTopCountries('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
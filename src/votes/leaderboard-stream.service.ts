@@ -0,0 +1,77 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import {
+  auditTime,
+  catchError,
+  concat,
+  distinctUntilChanged,
+  EMPTY,
+  from,
+  map,
+  Observable,
+  of,
+  switchMap,
+} from 'rxjs';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { DEFAULT_POLL_ID } from '../polls/polls.service';
+import { VotesService } from './votes.service';
+import { VoteEventsService } from './vote-events.service';
+import { TopCountryDto } from './dto/top-countries.dto';
+
+@Injectable()
+export class LeaderboardStreamService {
+  private readonly debounceMs =
+    Number(process.env.LEADERBOARD_STREAM_DEBOUNCE_MS) || 1000;
+
+  constructor(
+    private readonly votesService: VotesService,
+    private readonly voteEvents: VoteEventsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Stream the top countries of a poll, starting with the current standings
+   * Changes are batched into at most one refresh per window, so sustained
+   * voting still gets through, and a message is only pushed when the
+   * (optionally region-filtered) standings actually changed
+   * The initial fetch happens before the stream opens so an unknown poll
+   * is reported as a regular 404
+   */
+  async streamTopCountries(
+    pollId: string = DEFAULT_POLL_ID,
+    region?: string,
+  ): Promise<Observable<MessageEvent>> {
+    const { data: initial } = await this.votesService.getTopCountries(pollId, {
+      region,
+    });
+    this.logger.LogInfo(
+      `Leaderboard stream opened for poll ${pollId}${
+        region ? ` (region=${region})` : ''
+      }`,
+    );
+
+    const updates = this.voteEvents.standingsChanged$(pollId).pipe(
+      // Not debounceTime: it would stay silent while votes keep arriving
+      auditTime(this.debounceMs),
+      switchMap(() =>
+        from(this.votesService.getTopCountries(pollId, { region })).pipe(
+          map((page) => page.data),
+          catchError((error) => {
+            this.logger.LogError(
+              `Failed to refresh leaderboard stream: ${error.message}`,
+              500,
+            );
+            return EMPTY;
+          }),
+        ),
+      ),
+    );
+
+    return concat(of(initial), updates).pipe(
+      distinctUntilChanged(
+        (previous: TopCountryDto[], current: TopCountryDto[]) =>
+          JSON.stringify(previous) === JSON.stringify(current),
+      ),
+      map((data) => ({ data })),
+    );
+  }
+}
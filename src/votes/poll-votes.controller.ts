@@ -0,0 +1,208 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { VotesService } from './votes.service';
+import { LeaderboardStreamService } from './leaderboard-stream.service';
+import { VoteStatsService } from './vote-stats.service';
+import { CreateVoteDto } from './dto/create-vote.dto';
+import { TopCountriesPageDto, TopCountryDto } from './dto/top-countries.dto';
+import {
+  LeaderboardQueryDto,
+  SearchCountriesQueryDto,
+  TopCountriesQueryDto,
+} from './dto/leaderboard-query.dto';
+import { ApiSearchQuery } from './decorators/api-search-query.decorator';
+import { RegionStatsDto, SubRegionStatsDto } from './dto/vote-stats.dto';
+import { TimeseriesDto, TimeseriesQueryDto } from './dto/timeseries.dto';
+import { LeaderboardStreamQueryDto } from './dto/leaderboard-stream-query.dto';
+import {
+  ReqMetadata,
+  RequestMetadata,
+} from '../shared/decorators/request-metadata.decorator';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RequireChallenge } from '../challenge/require-challenge.decorator';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { Language } from '../shared/decorators/language.decorator';
+import {
+  ApiAcceptedResponse,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+
+@Controller('polls/:pollId/votes')
+@ApiTags('polls')
+@ApiNotFoundResponse({ description: 'The poll does not exist.' })
+@RateLimit('read-ip')
+@ApiTooManyRequestsResponse({ description: 'Rate limit exceeded.' })
+export class PollVotesController {
+  constructor(
+    private readonly votesService: VotesService,
+    private readonly leaderboardStreamService: LeaderboardStreamService,
+    private readonly voteStatsService: VoteStatsService,
+  ) {}
+
+  @Post()
+  @RateLimit('vote-ip', 'vote-email-domain')
+  @RequireChallenge()
+  @Idempotent()
+  @ApiOperation({ summary: 'Submit a vote in a poll' })
+  @ApiAcceptedResponse({
+    description:
+      'The vote has been received and a confirmation email has been sent.',
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid vote, or the email domain is blocked (EMAIL_DOMAIN_BLOCKED) or not allowed (EMAIL_DOMAIN_NOT_ALLOWED).',
+  })
+  @ApiConflictResponse({
+    description:
+      'The email, or a variant of it, has already been used to vote in this poll (EMAIL_ALREADY_VOTED).',
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async submitVote(
+    @Param('pollId') pollId: string,
+    @Body(ValidationPipe) createVoteDto: CreateVoteDto,
+    @ReqMetadata() metadata: RequestMetadata,
+  ): Promise<{ message: string }> {
+    await this.votesService.submitVote(createVoteDto, pollId, metadata);
+    return {
+      message: 'Vote received. Check your email to confirm it.',
+    };
+  }
+
+  @Get('top')
+  @ApiOperation({ summary: 'Get a page of the country standings of a poll' })
+  @ApiOkResponse({
+    description: 'The standings have been successfully fetched.',
+    type: TopCountriesPageDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid pagination parameters.' })
+  async getTopCountries(
+    @Param('pollId') pollId: string,
+    @Query() query: TopCountriesQueryDto,
+    @Language() lang: string,
+  ): Promise<TopCountriesPageDto> {
+    return this.votesService.getTopCountries(pollId, { ...query, lang });
+  }
+
+  @Sse('top/stream')
+  @ApiOperation({
+    summary: 'Stream the top 10 countries of a poll as they change',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({
+    description:
+      'Server-Sent Events stream. Each message carries the current top 10 countries, starting with the standings at connection time.',
+    type: [TopCountryDto],
+  })
+  streamTopCountries(
+    @Param('pollId') pollId: string,
+    @Query() query: LeaderboardStreamQueryDto,
+  ): Promise<Observable<MessageEvent>> {
+    return this.leaderboardStreamService.streamTopCountries(
+      pollId,
+      query.region,
+    );
+  }
+
+  @Get('search')
+  @ApiOperation({ summary: 'Search countries of a poll' })
+  @ApiOkResponse({
+    description: 'The countries have been successfully fetched.',
+    type: TopCountriesPageDto,
+  })
+  @ApiSearchQuery()
+  @ApiBadRequestResponse({
+    description: 'Invalid search filters or pagination parameters.',
+  })
+  async searchCountries(
+    @Param('pollId') pollId: string,
+    @Query() query: SearchCountriesQueryDto,
+    @Language() lang: string,
+  ): Promise<TopCountriesPageDto> {
+    return this.votesService.searchCountries(query.q, pollId, {
+      ...query,
+      lang,
+    });
+  }
+
+  @Get('stats/regions')
+  @ApiOperation({ summary: 'Get vote totals per region of a poll' })
+  @ApiOkResponse({
+    description:
+      'Total votes, countries with votes, leading country and vote share of each region.',
+    type: [RegionStatsDto],
+  })
+  async getRegionStats(
+    @Param('pollId') pollId: string,
+  ): Promise<{ data: RegionStatsDto[] }> {
+    const data = await this.voteStatsService.getRegionStats(pollId);
+    return { data };
+  }
+
+  @Get('stats/regions/:region')
+  @ApiOperation({ summary: 'Get the standings inside a region of a poll' })
+  @ApiOkResponse({
+    description: 'The countries of the region ranked within the region.',
+    type: TopCountriesPageDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid pagination parameters.' })
+  async getRegionStandings(
+    @Param('pollId') pollId: string,
+    @Param('region') region: string,
+    @Query() query: LeaderboardQueryDto,
+    @Language() lang: string,
+  ): Promise<TopCountriesPageDto> {
+    return this.votesService.getTopCountries(pollId, {
+      ...query,
+      region,
+      lang,
+    });
+  }
+
+  @Get('stats/subregions')
+  @ApiOperation({ summary: 'Get vote totals per subregion of a poll' })
+  @ApiOkResponse({
+    description:
+      'Total votes, countries with votes, leading country and vote share of each subregion.',
+    type: [SubRegionStatsDto],
+  })
+  async getSubRegionStats(
+    @Param('pollId') pollId: string,
+  ): Promise<{ data: SubRegionStatsDto[] }> {
+    const data = await this.voteStatsService.getSubRegionStats(pollId);
+    return { data };
+  }
+
+  @Get('timeseries')
+  @ApiOperation({ summary: 'Get the votes of a poll per hour, day or week' })
+  @ApiOkResponse({
+    description:
+      'Votes per bucket with running totals, optionally for one country or region.',
+    type: TimeseriesDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range or interval.' })
+  async getTimeseries(
+    @Param('pollId') pollId: string,
+    @Query() query: TimeseriesQueryDto,
+  ): Promise<TimeseriesDto> {
+    return this.voteStatsService.getTimeseries(pollId, query);
+  }
+}
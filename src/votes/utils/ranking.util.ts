@@ -0,0 +1,43 @@
+import { RankingMode } from '../dto/leaderboard-query.dto';
+
+export interface StandingRank {
+  rank: number;
+  sharedRank: boolean;
+}
+
+/**
+ * Rank standings that are already ordered by votes (desc) and tie-breaker
+ * Returns the rank of each standing keyed by countryId
+ */
+export const rankStandings = (
+  standings: { countryId: string; votes: number }[],
+  mode: RankingMode,
+): Map<string, StandingRank> => {
+  const ranks = new Map<string, StandingRank>();
+  let rank = 0;
+
+  standings.forEach((standing, index) => {
+    const tiedWithPrevious = standings[index - 1]?.votes === standing.votes;
+    const tiedWithNext = standings[index + 1]?.votes === standing.votes;
+
+    switch (mode) {
+      case RankingMode.ORDINAL:
+        rank = index + 1;
+        break;
+      case RankingMode.DENSE:
+        rank = tiedWithPrevious ? rank : rank + 1;
+        break;
+      case RankingMode.COMPETITION:
+        rank = tiedWithPrevious ? rank : index + 1;
+        break;
+    }
+
+    ranks.set(standing.countryId, {
+      rank,
+      sharedRank:
+        mode !== RankingMode.ORDINAL && (tiedWithPrevious || tiedWithNext),
+    });
+  });
+
+  return ranks;
+};
@@ -0,0 +1,77 @@
+import { normalizeText, similarity } from 'src/shared/utils/text-match.util';
+
+export type SearchField = 'name' | 'capital' | 'region' | 'subRegion';
+
+export interface SearchMatch {
+  // Relevance from 0 to 1
+  score: number;
+  matchedField: SearchField;
+}
+
+// A match on the name outranks the same match on a broader field
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 1,
+  capital: 0.9,
+  subRegion: 0.8,
+  region: 0.8,
+};
+
+// Typo matches always score below substring matches
+const FUZZY_WEIGHT = 0.75;
+const MIN_FUZZY_QUERY_LENGTH = 3;
+export const MIN_SEARCH_SCORE = 0.5;
+
+/**
+ * Score how well a normalized query matches a single field value
+ * exact 1, prefix 0.9, substring 0.8, otherwise edit distance similarity
+ * against the whole value or any of its words
+ */
+const scoreValue = (query: string, value: string): number => {
+  if (!value) {
+    return 0;
+  }
+  if (value === query) {
+    return 1;
+  }
+  if (value.startsWith(query)) {
+    return 0.9;
+  }
+  if (value.includes(query)) {
+    return 0.8;
+  }
+  if (query.length < MIN_FUZZY_QUERY_LENGTH) {
+    return 0;
+  }
+
+  return (
+    FUZZY_WEIGHT *
+    Math.max(
+      similarity(query, value),
+      ...value.split(' ').map((word) => similarity(query, word)),
+    )
+  );
+};
+
+/**
+ * Best weighted match of a search query across the fields of a country
+ * Returns null when no field scores at least MIN_SEARCH_SCORE
+ */
+export const scoreCountryMatch = (
+  search: string,
+  country: Record<SearchField, string | null>,
+): SearchMatch | null => {
+  const query = normalizeText(search);
+  let best: SearchMatch | null = null;
+
+  (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach((field) => {
+    const score =
+      FIELD_WEIGHTS[field] *
+      scoreValue(query, normalizeText(country[field] ?? ''));
+
+    if (score >= MIN_SEARCH_SCORE && (!best || score > best.score)) {
+      best = { score: Math.round(score * 100) / 100, matchedField: field };
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,76 @@
+import { TimeseriesInterval } from '../dto/timeseries.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const BUCKET_MS: Record<TimeseriesInterval, number> = {
+  [TimeseriesInterval.HOUR]: HOUR_MS,
+  [TimeseriesInterval.DAY]: 24 * HOUR_MS,
+  [TimeseriesInterval.WEEK]: 7 * 24 * HOUR_MS,
+};
+
+/**
+ * Start of the UTC bucket holding date, matching Postgres date_trunc
+ * (weeks start on Monday)
+ */
+export const truncateToBucket = (
+  date: Date,
+  interval: TimeseriesInterval,
+): Date => {
+  const bucket = new Date(date);
+
+  switch (interval) {
+    case TimeseriesInterval.HOUR:
+      bucket.setUTCMinutes(0, 0, 0);
+      break;
+    case TimeseriesInterval.DAY:
+      bucket.setUTCHours(0, 0, 0, 0);
+      break;
+    case TimeseriesInterval.WEEK:
+      bucket.setUTCHours(0, 0, 0, 0);
+      bucket.setUTCDate(bucket.getUTCDate() - ((bucket.getUTCDay() + 6) % 7));
+      break;
+  }
+
+  return bucket;
+};
+
+/**
+ * Number of buckets overlapping [from, to), without listing them
+ */
+export const countBuckets = (
+  from: Date,
+  to: Date,
+  interval: TimeseriesInterval,
+): number =>
+  Math.max(
+    0,
+    Math.ceil(
+      (to.getTime() - truncateToBucket(from, interval).getTime()) /
+        BUCKET_MS[interval],
+    ),
+  );
+
+/**
+ * Start of every bucket overlapping [from, to)
+ * Check the size of the range with countBuckets first
+ */
+export const listBuckets = (
+  from: Date,
+  to: Date,
+  interval: TimeseriesInterval,
+): Date[] => {
+  const buckets: Date[] = [];
+
+  for (
+    let bucket = truncateToBucket(from, interval).getTime();
+    bucket < to.getTime();
+    bucket += BUCKET_MS[interval]
+  ) {
+    buckets.push(new Date(bucket));
+  }
+
+  return buckets;
+};
+
+export const bucketDurationMs = (interval: TimeseriesInterval): number =>
+  BUCKET_MS[interval];
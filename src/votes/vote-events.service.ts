@@ -0,0 +1,25 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { filter, map, Observable, Subject } from 'rxjs';
+
+/**
+ * In-process notifications about changes to the standings of a poll
+ */
+@Injectable()
+export class VoteEventsService implements OnModuleDestroy {
+  private readonly standingsChanged = new Subject<string>();
+
+  notifyStandingsChanged(pollId: string): void {
+    this.standingsChanged.next(pollId);
+  }
+
+  standingsChanged$(pollId: string): Observable<void> {
+    return this.standingsChanged.pipe(
+      filter((changedPollId) => changedPollId === pollId),
+      map(() => undefined),
+    );
+  }
+
+  onModuleDestroy() {
+    this.standingsChanged.complete();
+  }
+}
@@ -0,0 +1,422 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { VoteManagementService } from './vote-management.service';
+import { VotesService } from './votes.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { VoteEventsService } from './vote-events.service';
+import { MailService } from '../mail/mail.service';
+import { hashToken } from '../shared/utils/token.util';
+
+type MockDatabaseService = {
+  user: {
+    findUnique: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+    deleteMany: jest.Mock;
+  };
+  pollCountry: {
+    update: jest.Mock;
+    upsert: jest.Mock;
+  };
+  voteHistory: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+  };
+  $transaction: jest.Mock;
+};
+
+type MockVotesService = {
+  resolveCountry: jest.Mock;
+};
+
+type MockMailService = {
+  sendVoteManageToken: jest.Mock;
+};
+
+type MockVoteEventsService = {
+  notifyStandingsChanged: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('VoteManagementService', () => {
+  let service: VoteManagementService;
+  let databaseService: MockDatabaseService;
+  let votesService: MockVotesService;
+  let mailService: MockMailService;
+  let voteEvents: MockVoteEventsService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    pollCountry: {
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+    voteHistory: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  });
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const token = 'manage-token';
+
+  const mockUser = {
+    id: 'user-1',
+    name: 'John Doe',
+    email: 'john@example.com',
+    canonicalEmail: 'john@example.com',
+    pollId: 'default',
+    countryId: 'country-arg',
+    status: 'ACTIVE',
+    manageTokenHash: hashToken(token),
+  };
+
+  const mockBrazil = {
+    id: 'country-bra',
+    code: 'BRA',
+    name: 'Brazil',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoteManagementService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: VotesService,
+          useValue: { resolveCountry: jest.fn() },
+        },
+        {
+          provide: MailService,
+          useValue: { sendVoteManageToken: jest.fn() },
+        },
+        {
+          provide: VoteEventsService,
+          useValue: { notifyStandingsChanged: jest.fn() },
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<VoteManagementService>(VoteManagementService);
+    databaseService = module.get(DatabaseService);
+    databaseService.$transaction.mockImplementation((callback) =>
+      callback(databaseService),
+    );
+    votesService = module.get(VotesService);
+    mailService = module.get(MailService);
+    voteEvents = module.get(VoteEventsService);
+    loggerService = module.get(LoggerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('changeVote', () => {
+    it('should move the vote between countries and record it', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      votesService.resolveCountry.mockResolvedValue(mockBrazil);
+      databaseService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.changeVote(token, 'BRA');
+
+      expect(databaseService.user.findUnique).toHaveBeenCalledWith({
+        where: { manageTokenHash: hashToken(token) },
+      });
+      expect(votesService.resolveCountry).toHaveBeenCalledWith('BRA');
+      expect(databaseService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', countryId: 'country-arg', status: 'ACTIVE' },
+        data: { countryId: 'country-bra' },
+      });
+      expect(databaseService.pollCountry.update).toHaveBeenCalledWith({
+        where: {
+          pollId_countryId: { pollId: 'default', countryId: 'country-arg' },
+        },
+        data: { votes: { decrement: 1 } },
+      });
+      expect(databaseService.pollCountry.upsert).toHaveBeenCalledWith({
+        where: {
+          pollId_countryId: { pollId: 'default', countryId: 'country-bra' },
+        },
+        create: { pollId: 'default', countryId: 'country-bra', votes: 1 },
+        update: { votes: { increment: 1 } },
+      });
+      expect(databaseService.voteHistory.create).toHaveBeenCalledWith({
+        data: {
+          name: 'John Doe',
+          email: 'john@example.com',
+          canonicalEmail: 'john@example.com',
+          pollId: 'default',
+          action: 'CHANGE',
+          fromCountryId: 'country-arg',
+          toCountryId: 'country-bra',
+        },
+      });
+      expect(databaseService.$transaction).toHaveBeenCalledTimes(1);
+      expect(voteEvents.notifyStandingsChanged).toHaveBeenCalledWith('default');
+    });
+
+    it('should throw UnauthorizedException for an unknown token', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.changeVote(token, 'BRA')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(votesService.resolveCountry).not.toHaveBeenCalled();
+    });
+
+    it('should reject changing to the same country', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      votesService.resolveCountry.mockResolvedValue({
+        id: 'country-arg',
+        code: 'ARG',
+        name: 'Argentina',
+      });
+
+      await expect(service.changeVote(token, 'ARG')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should propagate invalid country codes', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      votesService.resolveCountry.mockRejectedValue(
+        new BadRequestException('Invalid country code'),
+      );
+
+      await expect(service.changeVote(token, 'XYZ')).rejects.toThrow(
+        'Invalid country code',
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the vote changed in the meantime', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      votesService.resolveCountry.mockResolvedValue(mockBrazil);
+      databaseService.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.changeVote(token, 'BRA')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(databaseService.pollCountry.update).not.toHaveBeenCalled();
+      expect(databaseService.pollCountry.upsert).not.toHaveBeenCalled();
+      expect(databaseService.voteHistory.create).not.toHaveBeenCalled();
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      votesService.resolveCountry.mockResolvedValue(mockBrazil);
+      databaseService.$transaction.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(service.changeVote(token, 'BRA')).rejects.toThrow(
+        'Database error',
+      );
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to change vote: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('withdrawVote', () => {
+    it('should delete the vote, decrement the counter and record it', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      databaseService.user.deleteMany.mockResolvedValue({ count: 1 });
+
+      await service.withdrawVote(token);
+
+      expect(databaseService.user.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', countryId: 'country-arg', status: 'ACTIVE' },
+      });
+      expect(databaseService.pollCountry.update).toHaveBeenCalledWith({
+        where: {
+          pollId_countryId: { pollId: 'default', countryId: 'country-arg' },
+        },
+        data: { votes: { decrement: 1 } },
+      });
+      expect(databaseService.voteHistory.create).toHaveBeenCalledWith({
+        data: {
+          name: 'John Doe',
+          email: 'john@example.com',
+          canonicalEmail: 'john@example.com',
+          pollId: 'default',
+          action: 'WITHDRAW',
+          fromCountryId: 'country-arg',
+        },
+      });
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Vote successfully withdrawn: vote user-1 (poll=default)',
+      );
+      expect(voteEvents.notifyStandingsChanged).toHaveBeenCalledWith('default');
+    });
+
+    it('should throw ConflictException when the vote changed in the meantime', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      databaseService.user.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.withdrawVote(token)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(databaseService.pollCountry.update).not.toHaveBeenCalled();
+      expect(databaseService.voteHistory.create).not.toHaveBeenCalled();
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for an unknown token', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.withdrawVote(token)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException for a voided vote', async () => {
+      databaseService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        status: 'VOIDED',
+      });
+
+      await expect(service.withdrawVote(token)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVoteHistory', () => {
+    it('should return the history of the voter as country codes', async () => {
+      const castAt = new Date('2025-12-01T10:00:00.000Z');
+      const changedAt = new Date('2025-12-01T11:00:00.000Z');
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+      databaseService.voteHistory.findMany.mockResolvedValue([
+        {
+          action: 'CAST',
+          fromCountry: null,
+          toCountry: { code: 'ARG' },
+          createdAt: castAt,
+        },
+        {
+          action: 'CHANGE',
+          fromCountry: { code: 'ARG' },
+          toCountry: { code: 'BRA' },
+          createdAt: changedAt,
+        },
+      ]);
+
+      const result = await service.getVoteHistory(token);
+
+      expect(result).toEqual([
+        {
+          action: 'CAST',
+          fromCountry: null,
+          toCountry: 'ARG',
+          createdAt: castAt,
+        },
+        {
+          action: 'CHANGE',
+          fromCountry: 'ARG',
+          toCountry: 'BRA',
+          createdAt: changedAt,
+        },
+      ]);
+      expect(databaseService.voteHistory.findMany).toHaveBeenCalledWith({
+        where: { pollId: 'default', canonicalEmail: 'john@example.com' },
+        orderBy: { createdAt: 'asc' },
+        include: { fromCountry: true, toCountry: true },
+      });
+    });
+
+    it('should include the votes cast from other aliases of the email', async () => {
+      databaseService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        email: 'John.Doe+poll@gmail.com',
+        canonicalEmail: 'johndoe@gmail.com',
+      });
+      databaseService.voteHistory.findMany.mockResolvedValue([]);
+
+      await service.getVoteHistory(token);
+
+      expect(databaseService.voteHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { pollId: 'default', canonicalEmail: 'johndoe@gmail.com' },
+        }),
+      );
+    });
+  });
+
+  describe('requestManageToken', () => {
+    it('should rotate and email the manage token', async () => {
+      databaseService.user.findUnique.mockResolvedValue(mockUser);
+
+      await service.requestManageToken('John@Example.com');
+
+      const newToken = mailService.sendVoteManageToken.mock.calls[0][2];
+      expect(databaseService.user.findUnique).toHaveBeenCalledWith({
+        where: {
+          pollId_canonicalEmail: {
+            pollId: 'default',
+            canonicalEmail: 'john@example.com',
+          },
+        },
+      });
+      expect(databaseService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { manageTokenHash: hashToken(newToken) },
+      });
+      expect(mailService.sendVoteManageToken).toHaveBeenCalledWith(
+        'john@example.com',
+        'John Doe',
+        newToken,
+      );
+    });
+
+    it('should do nothing when the email has not voted', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+
+      await service.requestManageToken('nobody@example.com', 'poll-1');
+
+      expect(databaseService.user.update).not.toHaveBeenCalled();
+      expect(mailService.sendVoteManageToken).not.toHaveBeenCalled();
+      expect(loggerService.LogWarning).toHaveBeenCalledWith(
+        'Manage token not sent - no vote found (poll=poll-1)',
+      );
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { VoteAction, VoteStatus } from '@prisma/client';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { generateToken, hashToken } from 'src/shared/utils/token.util';
+import { canonicalizeEmail } from 'src/shared/utils/email.util';
+import { RequestMetadata } from 'src/shared/decorators/request-metadata.decorator';
+import { DEFAULT_POLL_ID } from '../polls/polls.service';
+import { MailService } from '../mail/mail.service';
+import { VotesService } from './votes.service';
+import { VoteEventsService } from './vote-events.service';
+import { VoteHistoryEntryDto } from './dto/vote-history.dto';
+
+/**
+ * Lets voters change or withdraw a confirmed vote
+ * Every change is appended to VoteHistory in the same transaction that moves
+ * the PollCountry counters, which only move when the vote row was updated
+ */
+@Injectable()
+export class VoteManagementService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly votesService: VotesService,
+    private readonly mailService: MailService,
+    private readonly voteEvents: VoteEventsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Move a vote to another country
+   */
+  async changeVote(
+    token: string,
+    countryCode: string,
+    metadata: RequestMetadata = {},
+  ): Promise<void> {
+    const user = await this.findUserByToken(token);
+    this.assertNotVoided(user);
+    this.logger.LogInfo(
+      `Attempting to change vote: vote=${user.id}, poll=${user.pollId}, country=${countryCode}`,
+    );
+
+    try {
+      const country = await this.votesService.resolveCountry(countryCode);
+
+      if (country.id === user.countryId) {
+        throw new BadRequestException(
+          `Your vote is already for ${country.name}`,
+        );
+      }
+
+      // The vote only moves if it is still where it was read, so a
+      // concurrent change or moderation cannot move the counters twice
+      await this.db.$transaction(async (tx) => {
+        const { count } = await tx.user.updateMany({
+          where: {
+            id: user.id,
+            countryId: user.countryId,
+            status: user.status,
+          },
+          data: { countryId: country.id },
+        });
+
+        if (count !== 1) {
+          throw new ConflictException(
+            'Your vote was changed in the meantime, please try again',
+          );
+        }
+
+        await tx.pollCountry.update({
+          where: {
+            pollId_countryId: {
+              pollId: user.pollId,
+              countryId: user.countryId,
+            },
+          },
+          data: { votes: { decrement: 1 } },
+        });
+        await tx.pollCountry.upsert({
+          where: {
+            pollId_countryId: { pollId: user.pollId, countryId: country.id },
+          },
+          create: { pollId: user.pollId, countryId: country.id, votes: 1 },
+          update: { votes: { increment: 1 } },
+        });
+        await tx.voteHistory.create({
+          data: {
+            name: user.name,
+            email: user.email,
+            canonicalEmail: user.canonicalEmail,
+            pollId: user.pollId,
+            action: VoteAction.CHANGE,
+            fromCountryId: user.countryId,
+            toCountryId: country.id,
+            ipAddress: metadata.ipAddress,
+            userAgent: metadata.userAgent,
+          },
+        });
+      });
+
+      this.logger.LogInfo(
+        `Vote successfully changed: vote ${user.id} now for ${country.name} (${country.code}) in poll ${user.pollId}`,
+      );
+      this.voteEvents.notifyStandingsChanged(user.pollId);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      this.logger.LogError(`Failed to change vote: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a vote. The email can vote again in the same poll afterwards
+   */
+  async withdrawVote(
+    token: string,
+    metadata: RequestMetadata = {},
+  ): Promise<void> {
+    const user = await this.findUserByToken(token);
+    this.assertNotVoided(user);
+    this.logger.LogInfo(
+      `Attempting to withdraw vote: vote=${user.id}, poll=${user.pollId}`,
+    );
+
+    try {
+      await this.db.$transaction(async (tx) => {
+        const { count } = await tx.user.deleteMany({
+          where: {
+            id: user.id,
+            countryId: user.countryId,
+            status: user.status,
+          },
+        });
+
+        if (count !== 1) {
+          throw new ConflictException(
+            'Your vote was changed in the meantime, please try again',
+          );
+        }
+
+        await tx.pollCountry.update({
+          where: {
+            pollId_countryId: {
+              pollId: user.pollId,
+              countryId: user.countryId,
+            },
+          },
+          data: { votes: { decrement: 1 } },
+        });
+        await tx.voteHistory.create({
+          data: {
+            name: user.name,
+            email: user.email,
+            canonicalEmail: user.canonicalEmail,
+            pollId: user.pollId,
+            action: VoteAction.WITHDRAW,
+            fromCountryId: user.countryId,
+            ipAddress: metadata.ipAddress,
+            userAgent: metadata.userAgent,
+          },
+        });
+      });
+
+      this.logger.LogInfo(
+        `Vote successfully withdrawn: vote ${user.id} (poll=${user.pollId})`,
+      );
+      this.voteEvents.notifyStandingsChanged(user.pollId);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      this.logger.LogError(`Failed to withdraw vote: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every recorded change of the voter owning the token, oldest first
+   */
+  async getVoteHistory(token: string): Promise<VoteHistoryEntryDto[]> {
+    const user = await this.findUserByToken(token);
+    this.logger.LogInfo(
+      `Fetching vote history: vote=${user.id}, poll=${user.pollId}`,
+    );
+
+    try {
+      const entries = await this.db.voteHistory.findMany({
+        where: {
+          pollId: user.pollId,
+          canonicalEmail: user.canonicalEmail,
+        },
+        orderBy: {
+          createdAt: 'asc',
+        },
+        include: {
+          fromCountry: true,
+          toCountry: true,
+        },
+      });
+
+      return entries.map((entry) => ({
+        action: entry.action,
+        fromCountry: entry.fromCountry?.code ?? null,
+        toCountry: entry.toCountry?.code ?? null,
+        createdAt: entry.createdAt,
+      }));
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to fetch vote history: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Email a fresh manage token to a voter, invalidating the previous one
+   * Silently does nothing when the email has not voted, so callers cannot
+   * probe which addresses took part in a poll
+   */
+  async requestManageToken(
+    email: string,
+    pollId: string = DEFAULT_POLL_ID,
+  ): Promise<void> {
+    this.logger.LogInfo(`Manage token requested: poll=${pollId}`);
+
+    try {
+      const user = await this.db.user.findUnique({
+        where: {
+          pollId_canonicalEmail: {
+            pollId,
+            canonicalEmail: canonicalizeEmail(email),
+          },
+        },
+      });
+
+      if (!user) {
+        this.logger.LogWarning(
+          `Manage token not sent - no vote found (poll=${pollId})`,
+        );
+        return;
+      }
+
+      const manageToken = generateToken();
+      await this.db.user.update({
+        where: { id: user.id },
+        data: { manageTokenHash: hashToken(manageToken) },
+      });
+
+      await this.mailService.sendVoteManageToken(
+        user.email,
+        user.name,
+        manageToken,
+      );
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to send manage token: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  private async findUserByToken(token: string) {
+    const user = await this.db.user.findUnique({
+      where: { manageTokenHash: hashToken(token) },
+    });
+
+    if (!user) {
+      this.logger.LogWarning('Vote management rejected - unknown token');
+      throw new UnauthorizedException('Invalid vote management token');
+    }
+
+    return user;
+  }
+
+  /**
+   * A voided vote no longer counts, so it cannot be moved or withdrawn
+   */
+  private assertNotVoided(user: { id: string; status: VoteStatus }): void {
+    if (user.status === VoteStatus.VOIDED) {
+      this.logger.LogWarning(
+        `Vote management rejected - vote ${user.id} was voided`,
+      );
+      throw new ForbiddenException('This vote was voided by a moderator');
+    }
+  }
+}
@@ -0,0 +1,376 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { VoteStatsService } from './vote-stats.service';
+import { DatabaseService } from '../shared/services/database.service';
+import { LoggerService } from '../shared/services/logger.service';
+import { PollsService } from '../polls/polls.service';
+import { TimeseriesInterval } from './dto/timeseries.dto';
+
+type MockDatabaseService = {
+  pollCountry: {
+    findMany: jest.Mock;
+  };
+  user: {
+    count: jest.Mock;
+  };
+  $queryRaw: jest.Mock;
+};
+
+type MockPollsService = {
+  getPollById: jest.Mock;
+};
+
+type MockLoggerService = {
+  LogInfo: jest.Mock;
+  LogWarning: jest.Mock;
+  LogError: jest.Mock;
+};
+
+describe('VoteStatsService', () => {
+  let service: VoteStatsService;
+  let databaseService: MockDatabaseService;
+  let pollsService: MockPollsService;
+  let loggerService: MockLoggerService;
+
+  const mockDatabaseService = () => ({
+    pollCountry: {
+      findMany: jest.fn(),
+    },
+    user: {
+      count: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  });
+
+  const mockPollsService = {
+    getPollById: jest.fn(),
+  };
+
+  const mockLoggerService = {
+    LogInfo: jest.fn(),
+    LogWarning: jest.fn(),
+    LogError: jest.fn(),
+  };
+
+  const standing = (
+    code: string,
+    name: string,
+    region: string,
+    subRegion: string,
+    votes: number,
+  ) => ({ votes, country: { code, name, region, subRegion } });
+
+  // Ordered by votes, as returned by the database
+  const mockStandings = [
+    standing('ARG', 'Argentina', 'Americas', 'South America', 5),
+    standing('FRA', 'France', 'Europe', 'Western Europe', 4),
+    standing('BRA', 'Brazil', 'Americas', 'South America', 3),
+    standing('DEU', 'Germany', 'Europe', 'Western Europe', 3),
+    standing('USA', 'United States', 'Americas', 'North America', 2),
+    standing('JPN', 'Japan', 'Asia', 'Eastern Asia', 1),
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoteStatsService,
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService(),
+        },
+        {
+          provide: PollsService,
+          useValue: mockPollsService,
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<VoteStatsService>(VoteStatsService);
+    databaseService = module.get(DatabaseService);
+    pollsService = module.get(PollsService);
+    loggerService = module.get(LoggerService);
+
+    pollsService.getPollById.mockResolvedValue({
+      id: 'default',
+      title: 'Favorite country',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getRegionStats', () => {
+    it('should aggregate the standings by region', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue(mockStandings);
+
+      const result = await service.getRegionStats();
+
+      expect(result).toEqual([
+        {
+          region: 'Americas',
+          totalVotes: 10,
+          countries: 3,
+          leader: { country: 'Argentina', code: 'ARG', votes: 5 },
+          voteShare: 55.56,
+        },
+        {
+          region: 'Europe',
+          totalVotes: 7,
+          countries: 2,
+          leader: { country: 'France', code: 'FRA', votes: 4 },
+          voteShare: 38.89,
+        },
+        {
+          region: 'Asia',
+          totalVotes: 1,
+          countries: 1,
+          leader: { country: 'Japan', code: 'JPN', votes: 1 },
+          voteShare: 5.56,
+        },
+      ]);
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Fetching region stats for poll default',
+      );
+    });
+
+    it('should only read standings with votes, leaders first on ties', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([]);
+
+      await service.getRegionStats('poll-1');
+
+      expect(pollsService.getPollById).toHaveBeenCalledWith('poll-1');
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { pollId: 'poll-1', votes: { gt: 0 } },
+          orderBy: [{ votes: 'desc' }, { updatedAt: 'asc' }],
+        }),
+      );
+    });
+
+    it('should return an empty array when the poll has no votes', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue([]);
+
+      const result = await service.getRegionStats();
+
+      expect(result).toEqual([]);
+    });
+
+    it('should rethrow NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(service.getRegionStats('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.pollCountry.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(service.getRegionStats()).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to fetch region stats: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('getSubRegionStats', () => {
+    it('should aggregate the standings by subregion with their region', async () => {
+      databaseService.pollCountry.findMany.mockResolvedValue(mockStandings);
+
+      const result = await service.getSubRegionStats();
+
+      expect(result.map(({ subRegion }) => subRegion)).toEqual([
+        'South America',
+        'Western Europe',
+        'North America',
+        'Eastern Asia',
+      ]);
+      expect(result[0]).toEqual({
+        subRegion: 'South America',
+        region: 'Americas',
+        totalVotes: 8,
+        countries: 2,
+        leader: { country: 'Argentina', code: 'ARG', votes: 5 },
+        voteShare: 44.44,
+      });
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.pollCountry.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(service.getSubRegionStats()).rejects.toThrow(
+        'Database error',
+      );
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to fetch subregion stats: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('getTimeseries', () => {
+    it('should count votes per bucket with running totals', async () => {
+      databaseService.$queryRaw.mockResolvedValue([
+        { bucket: new Date('2025-12-01T00:00:00.000Z'), votes: 3 },
+        { bucket: new Date('2025-12-03T00:00:00.000Z'), votes: 2 },
+      ]);
+      databaseService.user.count.mockResolvedValue(10);
+
+      const result = await service.getTimeseries('default', {
+        from: '2025-12-01T00:00:00.000Z',
+        to: '2025-12-04T00:00:00.000Z',
+      });
+
+      expect(result).toEqual({
+        data: [
+          { bucket: '2025-12-01T00:00:00.000Z', votes: 3, runningTotal: 13 },
+          { bucket: '2025-12-02T00:00:00.000Z', votes: 0, runningTotal: 13 },
+          { bucket: '2025-12-03T00:00:00.000Z', votes: 2, runningTotal: 15 },
+        ],
+        meta: {
+          interval: 'day',
+          from: '2025-12-01T00:00:00.000Z',
+          to: '2025-12-04T00:00:00.000Z',
+          startingTotal: 10,
+        },
+      });
+      expect(databaseService.user.count).toHaveBeenCalledWith({
+        where: {
+          pollId: 'default',
+          status: { not: 'VOIDED' },
+          createdAt: { lt: new Date('2025-12-01T00:00:00.000Z') },
+          country: {},
+        },
+      });
+    });
+
+    it('should default to the last 30 days', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-12-10T12:00:00Z'));
+      databaseService.$queryRaw.mockResolvedValue([]);
+      databaseService.user.count.mockResolvedValue(0);
+
+      const result = await service.getTimeseries();
+      jest.useRealTimers();
+
+      expect(result.meta).toEqual({
+        interval: 'day',
+        from: '2025-11-10T12:00:00.000Z',
+        to: '2025-12-10T12:00:00.000Z',
+        startingTotal: 0,
+      });
+      expect(result.data).toHaveLength(31);
+      expect(result.data[0].bucket).toBe('2025-11-10T00:00:00.000Z');
+    });
+
+    it('should start weekly buckets on Monday', async () => {
+      databaseService.$queryRaw.mockResolvedValue([]);
+      databaseService.user.count.mockResolvedValue(0);
+
+      const result = await service.getTimeseries('default', {
+        interval: TimeseriesInterval.WEEK,
+        from: '2025-12-03T08:00:00.000Z',
+        to: '2025-12-16T00:00:00.000Z',
+      });
+
+      expect(result.data.map(({ bucket }) => bucket)).toEqual([
+        '2025-12-01T00:00:00.000Z',
+        '2025-12-08T00:00:00.000Z',
+        '2025-12-15T00:00:00.000Z',
+      ]);
+    });
+
+    it('should filter the votes by country and region', async () => {
+      databaseService.$queryRaw.mockResolvedValue([]);
+      databaseService.user.count.mockResolvedValue(0);
+
+      await service.getTimeseries('poll-1', {
+        from: '2025-12-01T00:00:00.000Z',
+        to: '2025-12-02T00:00:00.000Z',
+        country: 'arg',
+        region: 'americas',
+      });
+
+      expect(pollsService.getPollById).toHaveBeenCalledWith('poll-1');
+      expect(databaseService.user.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          pollId: 'poll-1',
+          country: {
+            code: 'ARG',
+            region: { equals: 'americas', mode: 'insensitive' },
+          },
+        }),
+      });
+    });
+
+    it('should throw BadRequestException when from is not before to', async () => {
+      await expect(
+        service.getTimeseries('default', {
+          from: '2025-12-02T00:00:00.000Z',
+          to: '2025-12-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when the range has too many buckets', async () => {
+      await expect(
+        service.getTimeseries('default', {
+          interval: TimeseriesInterval.HOUR,
+          from: '2025-01-01T00:00:00.000Z',
+          to: '2025-12-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should reject a huge range without listing its buckets', async () => {
+      await expect(
+        service.getTimeseries('default', {
+          interval: TimeseriesInterval.HOUR,
+          from: '0001-01-01T00:00:00.000Z',
+          to: '9999-12-31T00:00:00.000Z',
+        }),
+      ).rejects.toThrow('the maximum is 1000');
+      expect(pollsService.getPollById).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(service.getTimeseries('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.$queryRaw.mockRejectedValue(new Error('Database error'));
+      databaseService.user.count.mockResolvedValue(0);
+
+      await expect(service.getTimeseries()).rejects.toThrow('Database error');
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to fetch vote timeseries: Database error',
+        500,
+      );
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, VoteStatus } from '@prisma/client';
+import { DatabaseService } from 'src/shared/services/database.service';
+import { LoggerService } from 'src/shared/services/logger.service';
+import { DEFAULT_POLL_ID, PollsService } from '../polls/polls.service';
+import {
+  GroupLeaderDto,
+  RegionStatsDto,
+  SubRegionStatsDto,
+} from './dto/vote-stats.dto';
+import {
+  TimeseriesDto,
+  TimeseriesInterval,
+  TimeseriesQueryDto,
+} from './dto/timeseries.dto';
+import {
+  bucketDurationMs,
+  countBuckets,
+  listBuckets,
+} from './utils/time-bucket.util';
+
+// Range covered when no start date is given
+const DEFAULT_TIMESERIES_BUCKETS: Record<TimeseriesInterval, number> = {
+  [TimeseriesInterval.HOUR]: 48,
+  [TimeseriesInterval.DAY]: 30,
+  [TimeseriesInterval.WEEK]: 26,
+};
+
+const MAX_TIMESERIES_BUCKETS = 1000;
+
+type StandingWithCountry = {
+  votes: number;
+  country: {
+    code: string;
+    name: string;
+    region: string;
+    subRegion: string;
+  };
+};
+
+type GroupStats = {
+  // Region of the group, a subregion always belongs to a single region
+  region: string;
+  totalVotes: number;
+  countries: number;
+  leader: GroupLeaderDto;
+  voteShare: number;
+};
+
+/**
+ * Aggregates the standings of a poll by region and subregion
+ * A poll has at most a few hundred standings, so they are grouped in memory
+ */
+@Injectable()
+export class VoteStatsService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly pollsService: PollsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Get vote totals, leader and vote share of every region with votes
+   */
+  async getRegionStats(
+    pollId: string = DEFAULT_POLL_ID,
+  ): Promise<RegionStatsDto[]> {
+    this.logger.LogInfo(`Fetching region stats for poll ${pollId}`);
+
+    try {
+      const standings = await this.findStandings(pollId);
+      const groups = this.groupStandings(
+        standings,
+        (standing) => standing.country.region,
+      );
+
+      return Array.from(groups, ([, stats]) => stats);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(
+        `Failed to fetch region stats: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get vote totals, leader and vote share of every subregion with votes
+   */
+  async getSubRegionStats(
+    pollId: string = DEFAULT_POLL_ID,
+  ): Promise<SubRegionStatsDto[]> {
+    this.logger.LogInfo(`Fetching subregion stats for poll ${pollId}`);
+
+    try {
+      const standings = await this.findStandings(pollId);
+      const groups = this.groupStandings(
+        standings,
+        (standing) => standing.country.subRegion,
+      );
+
+      return Array.from(groups, ([subRegion, stats]) => ({
+        subRegion,
+        ...stats,
+      }));
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(
+        `Failed to fetch subregion stats: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Count the votes of a poll per hour, day or week with running totals
+   * Votes are bucketed by the time they were confirmed and counted for the
+   * country they are currently for, withdrawn votes are not counted
+   */
+  async getTimeseries(
+    pollId: string = DEFAULT_POLL_ID,
+    query: TimeseriesQueryDto = {},
+  ): Promise<TimeseriesDto> {
+    const interval = query.interval ?? TimeseriesInterval.DAY;
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(
+          to.getTime() -
+            DEFAULT_TIMESERIES_BUCKETS[interval] * bucketDurationMs(interval),
+        );
+
+    this.logger.LogInfo(
+      `Fetching ${interval} vote timeseries for poll ${pollId} from ${from.toISOString()} to ${to.toISOString()}`,
+    );
+
+    if (from >= to) {
+      throw new BadRequestException('from must be earlier than to');
+    }
+
+    // Counted before listing, so a huge range is rejected without
+    // allocating its buckets
+    const bucketCount = countBuckets(from, to, interval);
+    if (bucketCount > MAX_TIMESERIES_BUCKETS) {
+      throw new BadRequestException(
+        `The range spans ${bucketCount} buckets, the maximum is ${MAX_TIMESERIES_BUCKETS}`,
+      );
+    }
+    const buckets = listBuckets(from, to, interval);
+
+    try {
+      await this.pollsService.getPollById(pollId);
+
+      const [counts, startingTotal] = await Promise.all([
+        this.db.$queryRaw<{ bucket: Date; votes: number }[]>`
+          SELECT date_trunc(${interval}, u."createdAt") AS bucket,
+                 COUNT(*)::int AS votes
+          FROM "User" u
+          JOIN "Country" c ON c."id" = u."countryId"
+          WHERE u."pollId" = ${pollId}
+            AND u."status" <> 'VOIDED'
+            AND u."createdAt" >= ${from}
+            AND u."createdAt" < ${to}
+            ${
+              query.country
+                ? Prisma.sql`AND c."code" = ${query.country.toUpperCase()}`
+                : Prisma.empty
+            }
+            ${
+              query.region
+                ? Prisma.sql`AND lower(c."region") = lower(${query.region})`
+                : Prisma.empty
+            }
+          GROUP BY 1
+          ORDER BY 1
+        `,
+        this.db.user.count({
+          where: {
+            pollId,
+            status: { not: VoteStatus.VOIDED },
+            createdAt: {
+              lt: from,
+            },
+            country: {
+              ...(query.country && { code: query.country.toUpperCase() }),
+              ...(query.region && {
+                region: {
+                  equals: query.region,
+                  mode: 'insensitive' as const,
+                },
+              }),
+            },
+          },
+        }),
+      ]);
+
+      const votesByBucket = new Map(
+        counts.map(({ bucket, votes }) => [bucket.getTime(), votes]),
+      );
+      let runningTotal = startingTotal;
+
+      return {
+        data: buckets.map((bucket) => {
+          const votes = votesByBucket.get(bucket.getTime()) ?? 0;
+          runningTotal += votes;
+          return { bucket: bucket.toISOString(), votes, runningTotal };
+        }),
+        meta: {
+          interval,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          startingTotal,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.LogError(
+        `Failed to fetch vote timeseries: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the standings of a poll with votes, the earliest to reach a vote
+   * count first so it leads its group on ties
+   */
+  private async findStandings(pollId: string): Promise<StandingWithCountry[]> {
+    await this.pollsService.getPollById(pollId);
+
+    return this.db.pollCountry.findMany({
+      where: {
+        pollId,
+        votes: {
+          gt: 0,
+        },
+      },
+      orderBy: [{ votes: 'desc' }, { updatedAt: 'asc' }],
+      select: {
+        votes: true,
+        country: {
+          select: {
+            code: true,
+            name: true,
+            region: true,
+            subRegion: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Group standings by key, ordered by total votes (desc)
+   */
+  private groupStandings(
+    standings: StandingWithCountry[],
+    keyOf: (standing: StandingWithCountry) => string,
+  ): Map<string, GroupStats> {
+    const pollVotes = standings.reduce((sum, { votes }) => sum + votes, 0);
+    const groups = new Map<string, GroupStats>();
+
+    standings.forEach((standing) => {
+      const key = keyOf(standing);
+      const group = groups.get(key);
+
+      if (group) {
+        group.totalVotes += standing.votes;
+        group.countries += 1;
+        return;
+      }
+
+      // Standings are ordered by votes, so the first one of a group leads it
+      groups.set(key, {
+        region: standing.country.region,
+        totalVotes: standing.votes,
+        countries: 1,
+        leader: {
+          country: standing.country.name,
+          code: standing.country.code,
+          votes: standing.votes,
+        },
+        voteShare: 0,
+      });
+    });
+
+    groups.forEach((group) => {
+      group.voteShare =
+        Math.round((group.totalVotes / pollVotes) * 100 * 100) / 100;
+    });
+
+    return new Map(
+      [...groups].sort(([, a], [, b]) => b.totalVotes - a.totalVotes),
+    );
+  }
+}
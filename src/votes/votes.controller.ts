@@ -3,31 +3,87 @@ import {
   Post,
   Get,
   Body,
+  Param,
   Query,
   HttpCode,
   HttpStatus,
   ValidationPipe,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { VotesService } from './votes.service';
+import { LeaderboardStreamService } from './leaderboard-stream.service';
+import { VoteManagementService } from './vote-management.service';
+import { VoteStatsService } from './vote-stats.service';
 import { CreateVoteDto } from './dto/create-vote.dto';
-import { TopCountryDto } from './dto/top-countries.dto';
+import { ConfirmVoteDto } from './dto/confirm-vote.dto';
 import {
+  ChangeVoteDto,
+  RequestManageTokenDto,
+  VoteTokenDto,
+} from './dto/manage-vote.dto';
+import { VoteHistoryEntryDto } from './dto/vote-history.dto';
+import { DEFAULT_POLL_ID } from '../polls/polls.service';
+import {
+  ReqMetadata,
+  RequestMetadata,
+} from '../shared/decorators/request-metadata.decorator';
+import { TopCountriesPageDto, TopCountryDto } from './dto/top-countries.dto';
+import {
+  LeaderboardQueryDto,
+  SearchCountriesQueryDto,
+  TopCountriesQueryDto,
+} from './dto/leaderboard-query.dto';
+import { ApiSearchQuery } from './decorators/api-search-query.decorator';
+import { RegionStatsDto, SubRegionStatsDto } from './dto/vote-stats.dto';
+import { TimeseriesDto, TimeseriesQueryDto } from './dto/timeseries.dto';
+import { LeaderboardStreamQueryDto } from './dto/leaderboard-stream-query.dto';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RequireChallenge } from '../challenge/require-challenge.decorator';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { Language } from '../shared/decorators/language.decorator';
+import {
+  ApiAcceptedResponse,
+  ApiBadRequestResponse,
   ApiBody,
-  ApiCreatedResponse,
+  ApiConflictResponse,
   ApiOkResponse,
   ApiOperation,
+  ApiProduces,
   ApiTags,
+  ApiTooManyRequestsResponse,
+  ApiUnauthorizedResponse,
 } from '@nestjs/swagger';
 
 @Controller('votes')
 @ApiTags('votes')
+@RateLimit('read-ip')
+@ApiTooManyRequestsResponse({ description: 'Rate limit exceeded.' })
 export class VotesController {
-  constructor(private readonly votesService: VotesService) {}
+  constructor(
+    private readonly votesService: VotesService,
+    private readonly voteManagementService: VoteManagementService,
+    private readonly leaderboardStreamService: LeaderboardStreamService,
+    private readonly voteStatsService: VoteStatsService,
+  ) {}
 
   @Post()
+  @RateLimit('vote-ip', 'vote-email-domain')
+  @RequireChallenge()
+  @Idempotent()
   @ApiOperation({ summary: 'Submit a vote' })
-  @ApiCreatedResponse({
-    description: 'The vote has been successfully submitted.',
+  @ApiAcceptedResponse({
+    description:
+      'The vote has been received and a confirmation email has been sent.',
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid vote, or the email domain is blocked (EMAIL_DOMAIN_BLOCKED) or not allowed (EMAIL_DOMAIN_NOT_ALLOWED).',
+  })
+  @ApiConflictResponse({
+    description:
+      'The email, or a variant of it, has already been used to vote in this poll (EMAIL_ALREADY_VOTED).',
   })
   // add body example
   @ApiBody({
@@ -36,7 +92,11 @@ export class VotesController {
       properties: {
         name: { type: 'string' },
         email: { type: 'string' },
-        country: { type: 'string' },
+        country: {
+          type: 'string',
+          description:
+            'cca3, cca2 or numeric code, or the common, official or alternate name',
+        },
       },
     },
     examples: {
@@ -49,35 +109,224 @@ export class VotesController {
       },
     },
   })
-  @HttpCode(HttpStatus.CREATED)
+  @HttpCode(HttpStatus.ACCEPTED)
   async submitVote(
     @Body(ValidationPipe) createVoteDto: CreateVoteDto,
+    @ReqMetadata() metadata: RequestMetadata,
   ): Promise<{ message: string }> {
-    await this.votesService.submitVote(createVoteDto);
-    return { message: 'Vote submitted successfully' };
+    await this.votesService.submitVote(
+      createVoteDto,
+      DEFAULT_POLL_ID,
+      metadata,
+    );
+    return {
+      message: 'Vote received. Check your email to confirm it.',
+    };
+  }
+
+  @Get('confirm')
+  @ApiOperation({ summary: 'Confirm a pending vote' })
+  @ApiOkResponse({
+    description:
+      'The vote has been confirmed and now counts. The response carries the token needed to change or withdraw it.',
+  })
+  @ApiBadRequestResponse({
+    description: 'The token is invalid, already used or expired.',
+  })
+  @ApiConflictResponse({
+    description: 'The email has already been used to vote in this poll.',
+  })
+  async confirmVote(
+    @Query() confirmVoteDto: ConfirmVoteDto,
+  ): Promise<{ message: string; data: { manageToken: string } }> {
+    const data = await this.votesService.confirmVote(confirmVoteDto.token);
+    return { message: 'Vote confirmed successfully', data };
+  }
+
+  @Post('change')
+  @RateLimit('vote-ip')
+  @ApiOperation({ summary: 'Change a confirmed vote to another country' })
+  @ApiOkResponse({ description: 'The vote has been moved.' })
+  @ApiBadRequestResponse({
+    description: 'The country code is invalid or already the voted one.',
+  })
+  @ApiUnauthorizedResponse({ description: 'The manage token is invalid.' })
+  @ApiConflictResponse({
+    description: 'The vote was changed by another request in the meantime.',
+  })
+  @HttpCode(HttpStatus.OK)
+  async changeVote(
+    @Body() changeVoteDto: ChangeVoteDto,
+    @ReqMetadata() metadata: RequestMetadata,
+  ): Promise<{ message: string }> {
+    await this.voteManagementService.changeVote(
+      changeVoteDto.token,
+      changeVoteDto.country,
+      metadata,
+    );
+    return { message: 'Vote changed successfully' };
+  }
+
+  @Post('withdraw')
+  @RateLimit('vote-ip')
+  @ApiOperation({ summary: 'Withdraw a confirmed vote' })
+  @ApiOkResponse({ description: 'The vote has been withdrawn.' })
+  @ApiUnauthorizedResponse({ description: 'The manage token is invalid.' })
+  @ApiConflictResponse({
+    description: 'The vote was changed by another request in the meantime.',
+  })
+  @HttpCode(HttpStatus.OK)
+  async withdrawVote(
+    @Body() voteTokenDto: VoteTokenDto,
+    @ReqMetadata() metadata: RequestMetadata,
+  ): Promise<{ message: string }> {
+    await this.voteManagementService.withdrawVote(voteTokenDto.token, metadata);
+    return { message: 'Vote withdrawn successfully' };
+  }
+
+  @Post('manage-token')
+  @RateLimit('vote-ip', 'vote-email-domain')
+  @ApiOperation({ summary: 'Email a new manage token to a voter' })
+  @ApiAcceptedResponse({
+    description: 'If the email has voted, a new manage token has been sent.',
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestManageToken(
+    @Body() requestManageTokenDto: RequestManageTokenDto,
+  ): Promise<{ message: string }> {
+    await this.voteManagementService.requestManageToken(
+      requestManageTokenDto.email,
+      requestManageTokenDto.pollId,
+    );
+    return {
+      message: 'If this email has voted, a manage token has been sent to it.',
+    };
+  }
+
+  @Get('history')
+  @ApiOperation({ summary: 'Get the vote history of a voter' })
+  @ApiOkResponse({
+    description: 'The vote history has been successfully fetched.',
+    type: [VoteHistoryEntryDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'The manage token is invalid.' })
+  async getVoteHistory(
+    @Query() voteTokenDto: VoteTokenDto,
+  ): Promise<{ data: VoteHistoryEntryDto[] }> {
+    const data = await this.voteManagementService.getVoteHistory(
+      voteTokenDto.token,
+    );
+    return { data };
   }
 
   @Get('top')
-  @ApiOperation({ summary: 'Get top 10 countries' })
+  @ApiOperation({ summary: 'Get a page of the country standings' })
+  @ApiOkResponse({
+    description: 'The standings have been successfully fetched.',
+    type: TopCountriesPageDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid pagination parameters.' })
+  async getTopCountries(
+    @Query() query: TopCountriesQueryDto,
+    @Language() lang: string,
+  ): Promise<TopCountriesPageDto> {
+    return this.votesService.getTopCountries(DEFAULT_POLL_ID, {
+      ...query,
+      lang,
+    });
+  }
+
+  @Sse('top/stream')
+  @ApiOperation({ summary: 'Stream the top 10 countries as they change' })
+  @ApiProduces('text/event-stream')
   @ApiOkResponse({
-    description: 'The top 10 countries have been successfully fetched.',
+    description:
+      'Server-Sent Events stream. Each message carries the current top 10 countries, starting with the standings at connection time.',
     type: [TopCountryDto],
   })
-  async getTopCountries(): Promise<{ data: TopCountryDto[] }> {
-    const data = await this.votesService.getTopCountries();
-    return { data };
+  streamTopCountries(
+    @Query() query: LeaderboardStreamQueryDto,
+  ): Promise<Observable<MessageEvent>> {
+    return this.leaderboardStreamService.streamTopCountries(
+      DEFAULT_POLL_ID,
+      query.region,
+    );
   }
 
   @Get('search')
   @ApiOperation({ summary: 'Search countries' })
   @ApiOkResponse({
     description: 'The countries have been successfully fetched.',
-    type: [TopCountryDto],
+    type: TopCountriesPageDto,
+  })
+  @ApiSearchQuery()
+  @ApiBadRequestResponse({
+    description: 'Invalid search filters or pagination parameters.',
   })
   async searchCountries(
-    @Query('q') query: string,
-  ): Promise<{ data: TopCountryDto[] }> {
-    const data = await this.votesService.searchCountries(query);
+    @Query() query: SearchCountriesQueryDto,
+    @Language() lang: string,
+  ): Promise<TopCountriesPageDto> {
+    return this.votesService.searchCountries(query.q, DEFAULT_POLL_ID, {
+      ...query,
+      lang,
+    });
+  }
+
+  @Get('stats/regions')
+  @ApiOperation({ summary: 'Get vote totals per region' })
+  @ApiOkResponse({
+    description:
+      'Total votes, countries with votes, leading country and vote share of each region.',
+    type: [RegionStatsDto],
+  })
+  async getRegionStats(): Promise<{ data: RegionStatsDto[] }> {
+    const data = await this.voteStatsService.getRegionStats(DEFAULT_POLL_ID);
     return { data };
   }
+
+  @Get('stats/regions/:region')
+  @ApiOperation({ summary: 'Get the standings inside a region' })
+  @ApiOkResponse({
+    description: 'The countries of the region ranked within the region.',
+    type: TopCountriesPageDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid pagination parameters.' })
+  async getRegionStandings(
+    @Param('region') region: string,
+    @Query() query: LeaderboardQueryDto,
+    @Language() lang: string,
+  ): Promise<TopCountriesPageDto> {
+    return this.votesService.getTopCountries(DEFAULT_POLL_ID, {
+      ...query,
+      region,
+      lang,
+    });
+  }
+
+  @Get('stats/subregions')
+  @ApiOperation({ summary: 'Get vote totals per subregion' })
+  @ApiOkResponse({
+    description:
+      'Total votes, countries with votes, leading country and vote share of each subregion.',
+    type: [SubRegionStatsDto],
+  })
+  async getSubRegionStats(): Promise<{ data: SubRegionStatsDto[] }> {
+    const data = await this.voteStatsService.getSubRegionStats(DEFAULT_POLL_ID);
+    return { data };
+  }
+
+  @Get('timeseries')
+  @ApiOperation({ summary: 'Get the votes per hour, day or week' })
+  @ApiOkResponse({
+    description:
+      'Votes per bucket with running totals, optionally for one country or region.',
+    type: TimeseriesDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range or interval.' })
+  async getTimeseries(
+    @Query() query: TimeseriesQueryDto,
+  ): Promise<TimeseriesDto> {
+    return this.voteStatsService.getTimeseries(DEFAULT_POLL_ID, query);
+  }
 }
@@ -1,11 +1,27 @@
 import { Module } from '@nestjs/common';
 import { VotesController } from './votes.controller';
+import { PollVotesController } from './poll-votes.controller';
 import { VotesService } from './votes.service';
+import { VoteManagementService } from './vote-management.service';
+import { VoteEventsService } from './vote-events.service';
+import { LeaderboardStreamService } from './leaderboard-stream.service';
+import { VoteStatsService } from './vote-stats.service';
+import { EmailPolicyService } from './email-policy.service';
 import { CountriesModule } from '../countries/countries.module';
+import { PollsModule } from '../polls/polls.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
-  imports: [CountriesModule],
-  controllers: [VotesController],
-  providers: [VotesService],
+  imports: [CountriesModule, PollsModule, MailModule],
+  controllers: [VotesController, PollVotesController],
+  providers: [
+    VotesService,
+    VoteManagementService,
+    VoteEventsService,
+    LeaderboardStreamService,
+    VoteStatsService,
+    EmailPolicyService,
+  ],
+  exports: [VotesService, VoteEventsService, EmailPolicyService],
 })
 export class VotesModule {}
@@ -1,27 +1,80 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ConflictException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  ConflictException,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { VotesService } from './votes.service';
 import { DatabaseService } from '../shared/services/database.service';
 import { LoggerService } from '../shared/services/logger.service';
+import { VoteEventsService } from './vote-events.service';
+import { EmailPolicyService, EmailRejectionCode } from './email-policy.service';
 import { CountriesService } from '../countries/countries.service';
+import { PollsService } from '../polls/polls.service';
+import { MailService } from '../mail/mail.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { hashToken } from '../shared/utils/token.util';
 import { CreateVoteDto } from './dto/create-vote.dto';
+import {
+  LeaderboardSort,
+  RankingMode,
+  TieBreaker,
+} from './dto/leaderboard-query.dto';
+import { TopCountryDto } from './dto/top-countries.dto';
 
 type MockDatabaseService = {
   user: {
     findUnique: jest.Mock;
     create: jest.Mock;
+    groupBy: jest.Mock;
   };
   country: {
     findUnique: jest.Mock;
     create: jest.Mock;
-    update: jest.Mock;
+  };
+  pollCountry: {
+    upsert: jest.Mock;
     findMany: jest.Mock;
+    count: jest.Mock;
+  };
+  pendingVote: {
+    upsert: jest.Mock;
+    findUnique: jest.Mock;
+    deleteMany: jest.Mock;
+  };
+  voteHistory: {
+    create: jest.Mock;
   };
   $transaction: jest.Mock;
 };
 
 type MockCountriesService = {
-  getCountryByCode: jest.Mock;
+  findCountry: jest.Mock;
+  suggestCountries: jest.Mock;
+  getCountriesByCodes: jest.Mock;
+};
+
+type MockPollsService = {
+  getPollById: jest.Mock;
+};
+
+type MockMailService = {
+  sendVoteConfirmation: jest.Mock;
+};
+
+type MockVoteEventsService = {
+  notifyStandingsChanged: jest.Mock;
+};
+
+type MockEmailPolicyService = {
+  assertAllowed: jest.Mock;
+};
+
+type MockMetricsService = {
+  recordVoteAccepted: jest.Mock;
+  recordVoteRejected: jest.Mock;
+  startLeaderboardQuery: jest.Mock;
 };
 
 type MockLoggerService = {
@@ -34,26 +87,59 @@ describe('VotesService', () => {
   let service: VotesService;
   let databaseService: MockDatabaseService;
   let countriesService: MockCountriesService;
+  let pollsService: MockPollsService;
+  let mailService: MockMailService;
+  let voteEvents: MockVoteEventsService;
+  let emailPolicy: MockEmailPolicyService;
+  let metricsService: MockMetricsService;
   let loggerService: MockLoggerService;
 
   const mockDatabaseService = () => ({
     user: {
       findUnique: jest.fn(),
       create: jest.fn(),
+      groupBy: jest.fn(),
     },
     country: {
       findUnique: jest.fn(),
       create: jest.fn(),
-      update: jest.fn(),
+    },
+    pollCountry: {
+      upsert: jest.fn(),
       findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    pendingVote: {
+      upsert: jest.fn(),
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    voteHistory: {
+      create: jest.fn(),
     },
     $transaction: jest.fn(),
   });
 
   const mockCountriesService = {
-    getCountryByCode: jest.fn(),
+    findCountry: jest.fn(),
+    suggestCountries: jest.fn(),
+    getCountriesByCodes: jest.fn(),
   };
 
+  const mockPollsService = {
+    getPollById: jest.fn(),
+  };
+
+  const mockMailService = {
+    sendVoteConfirmation: jest.fn(),
+  };
+
+  const mockMetricsService = () => ({
+    recordVoteAccepted: jest.fn(),
+    recordVoteRejected: jest.fn(),
+    startLeaderboardQuery: jest.fn(() => jest.fn()),
+  });
+
   const mockLoggerService = {
     LogInfo: jest.fn(),
     LogWarning: jest.fn(),
@@ -72,6 +158,26 @@ describe('VotesService', () => {
           provide: CountriesService,
           useValue: mockCountriesService,
         },
+        {
+          provide: PollsService,
+          useValue: mockPollsService,
+        },
+        {
+          provide: MailService,
+          useValue: mockMailService,
+        },
+        {
+          provide: VoteEventsService,
+          useValue: { notifyStandingsChanged: jest.fn() },
+        },
+        {
+          provide: EmailPolicyService,
+          useValue: { assertAllowed: jest.fn() },
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService(),
+        },
         {
           provide: LoggerService,
           useValue: mockLoggerService,
@@ -82,13 +188,43 @@ describe('VotesService', () => {
     service = module.get<VotesService>(VotesService);
     databaseService = module.get(DatabaseService);
     countriesService = module.get(CountriesService);
+    pollsService = module.get(PollsService);
+    mailService = module.get(MailService);
+    voteEvents = module.get(VoteEventsService);
+    emailPolicy = module.get(EmailPolicyService);
+    metricsService = module.get(MetricsService);
     loggerService = module.get(LoggerService);
+
+    pollsService.getPollById.mockResolvedValue({
+      id: 'default',
+      title: 'Favorite country',
+    });
+    countriesService.suggestCountries.mockResolvedValue([]);
   });
 
   afterEach(() => {
     jest.clearAllMocks();
   });
 
+  /**
+   * Answer the page query with standings and the ranking query with
+   * ranking, in votes order
+   */
+  const mockStandingsQuery = (
+    standings: { countryId: string; votes: number }[],
+    ranking: { countryId: string; votes: number }[] = standings,
+  ) => {
+    databaseService.pollCountry.count.mockResolvedValue(ranking.length);
+    databaseService.pollCountry.findMany.mockImplementation(
+      (args: { select?: object }) =>
+        Promise.resolve(
+          args.select
+            ? ranking.map(({ countryId, votes }) => ({ countryId, votes }))
+            : standings,
+        ),
+    );
+  };
+
   describe('submitVote', () => {
     const createVoteDto: CreateVoteDto = {
       name: 'John Doe',
@@ -114,33 +250,122 @@ describe('VotesService', () => {
       votes: 5,
     };
 
-    it('should successfully submit a vote for a new user and existing country', async () => {
+    it('should store a pending vote and email a confirmation token', async () => {
       databaseService.user.findUnique.mockResolvedValue(null);
-      countriesService.getCountryByCode.mockResolvedValue(mockCountryData);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
       databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
-      databaseService.$transaction.mockResolvedValue([{}, {}]);
+      databaseService.pendingVote.upsert.mockResolvedValue({ id: 'pending-1' });
 
       await service.submitVote(createVoteDto);
 
+      expect(metricsService.recordVoteAccepted).toHaveBeenCalledWith(
+        'submitted',
+      );
+      expect(pollsService.getPollById).toHaveBeenCalledWith('default');
       expect(databaseService.user.findUnique).toHaveBeenCalledWith({
-        where: { email: createVoteDto.email },
+        where: {
+          pollId_canonicalEmail: {
+            pollId: 'default',
+            canonicalEmail: 'john@example.com',
+          },
+        },
       });
-      expect(countriesService.getCountryByCode).toHaveBeenCalledWith('ARG');
+      expect(countriesService.findCountry).toHaveBeenCalledWith('ARG');
       expect(databaseService.country.findUnique).toHaveBeenCalledWith({
         where: { code: 'ARG' },
       });
-      expect(databaseService.$transaction).toHaveBeenCalled();
+      expect(databaseService.pendingVote.upsert).toHaveBeenCalledWith({
+        where: {
+          pollId_canonicalEmail: {
+            pollId: 'default',
+            canonicalEmail: 'john@example.com',
+          },
+        },
+        create: expect.objectContaining({
+          name: 'John Doe',
+          email: 'john@example.com',
+          canonicalEmail: 'john@example.com',
+          pollId: 'default',
+          countryId: mockCountryDb.id,
+          tokenHash: expect.any(String),
+          expiresAt: expect.any(Date),
+        }),
+        update: expect.objectContaining({
+          countryId: mockCountryDb.id,
+          tokenHash: expect.any(String),
+        }),
+      });
+      expect(mailService.sendVoteConfirmation).toHaveBeenCalledWith(
+        'john@example.com',
+        'John Doe',
+        expect.any(String),
+        expect.any(Date),
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+      expect(databaseService.pollCountry.upsert).not.toHaveBeenCalled();
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
-        expect.stringContaining('Vote successfully submitted'),
+        expect.stringContaining('Vote pending confirmation'),
+      );
+    });
+
+    it('should log the pending vote id instead of the email', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
+      databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
+      databaseService.pendingVote.upsert.mockResolvedValue({ id: 'pending-1' });
+
+      await service.submitVote(createVoteDto);
+
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        expect.stringContaining('(pending vote pending-1)'),
+      );
+      const messages = loggerService.LogInfo.mock.calls.map(
+        ([message]) => message,
+      );
+      expect(messages.join('\n')).not.toContain('john@example.com');
+    });
+
+    it('should only store the hash of the emailed token', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
+      databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
+
+      await service.submitVote(createVoteDto);
+
+      const token = mailService.sendVoteConfirmation.mock.calls[0][2];
+      const { create } = databaseService.pendingVote.upsert.mock.calls[0][0];
+      expect(create.tokenHash).toBe(hashToken(token));
+      expect(create.tokenHash).not.toBe(token);
+    });
+
+    it('should keep the request metadata for the vote ledger', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
+      databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
+
+      await service.submitVote(createVoteDto, 'default', {
+        ipAddress: '203.0.113.7',
+        userAgent: 'jest',
+      });
+
+      expect(databaseService.pendingVote.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            ipAddress: '203.0.113.7',
+            userAgent: 'jest',
+          }),
+        }),
       );
     });
 
     it('should successfully submit a vote and create a new country', async () => {
       databaseService.user.findUnique.mockResolvedValue(null);
-      countriesService.getCountryByCode.mockResolvedValue(mockCountryData);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
       databaseService.country.findUnique.mockResolvedValue(null);
       databaseService.country.create.mockResolvedValue(mockCountryDb);
-      databaseService.$transaction.mockResolvedValue([{}, {}]);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
 
       await service.submitVote(createVoteDto);
 
@@ -151,7 +376,6 @@ describe('VotesService', () => {
           capital: 'Buenos Aires',
           region: 'Americas',
           subRegion: 'South America',
-          votes: 0,
         },
       });
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
@@ -168,18 +392,82 @@ describe('VotesService', () => {
       };
       databaseService.user.findUnique.mockResolvedValue(existingUser);
 
-      await expect(service.submitVote(createVoteDto)).rejects.toThrow(
-        ConflictException,
+      const error = await service.submitVote(createVoteDto).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({ code: EmailRejectionCode.ALREADY_VOTED }),
       );
       expect(loggerService.LogWarning).toHaveBeenCalledWith(
-        expect.stringContaining('Vote rejected - duplicate email'),
+        'Vote rejected - duplicate email of vote 1 (poll=default)',
+      );
+      expect(metricsService.recordVoteRejected).toHaveBeenCalledWith(
+        'submitted',
+        'duplicate',
+      );
+      expect(countriesService.findCountry).not.toHaveBeenCalled();
+      expect(mailService.sendVoteConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('should treat variants of an address as the same voter', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
+      databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
+
+      await service.submitVote({
+        ...createVoteDto,
+        email: 'John.Doe+polls@GoogleMail.com',
+      });
+
+      expect(databaseService.user.findUnique).toHaveBeenCalledWith({
+        where: {
+          pollId_canonicalEmail: {
+            pollId: 'default',
+            canonicalEmail: 'johndoe@gmail.com',
+          },
+        },
+      });
+      expect(databaseService.pendingVote.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            email: 'John.Doe+polls@GoogleMail.com',
+            canonicalEmail: 'johndoe@gmail.com',
+          }),
+          update: expect.objectContaining({
+            email: 'John.Doe+polls@GoogleMail.com',
+          }),
+        }),
+      );
+      expect(mailService.sendVoteConfirmation).toHaveBeenCalledWith(
+        'John.Doe+polls@GoogleMail.com',
+        'John Doe',
+        expect.any(String),
+        expect.any(Date),
       );
-      expect(countriesService.getCountryByCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject emails the domain policy does not accept', async () => {
+      emailPolicy.assertAllowed.mockImplementation(() => {
+        throw new BadRequestException({
+          message: 'Votes from disposable email addresses are not accepted',
+          code: EmailRejectionCode.DOMAIN_BLOCKED,
+        });
+      });
+
+      await expect(
+        service.submitVote({ ...createVoteDto, email: 'john@yopmail.com' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(emailPolicy.assertAllowed).toHaveBeenCalledWith(
+        'john@yopmail.com',
+      );
+      expect(databaseService.user.findUnique).not.toHaveBeenCalled();
+      expect(loggerService.LogError).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException if country code is invalid', async () => {
       databaseService.user.findUnique.mockResolvedValue(null);
-      countriesService.getCountryByCode.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(null);
 
       await expect(service.submitVote(createVoteDto)).rejects.toThrow(
         BadRequestException,
@@ -188,14 +476,54 @@ describe('VotesService', () => {
         expect.stringContaining('Invalid country code provided'),
         400,
       );
+      expect(metricsService.recordVoteRejected).toHaveBeenCalledWith(
+        'submitted',
+        'invalid_country',
+      );
       expect(databaseService.country.findUnique).not.toHaveBeenCalled();
     });
 
+    it('should suggest the closest countries for an unknown identifier', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(null);
+      countriesService.suggestCountries.mockResolvedValue([mockCountryData]);
+
+      const error = await service
+        .submitVote({ ...createVoteDto, country: 'Argentna' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse()).toEqual({
+        statusCode: 400,
+        message: 'Invalid country code, did you mean Argentina?',
+        error: 'Bad Request',
+        suggestions: [{ name: 'Argentina', code: 'ARG' }],
+      });
+      expect(countriesService.suggestCountries).toHaveBeenCalledWith(
+        'Argentna',
+      );
+    });
+
+    it('should store the canonical cca3 for any country identifier', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
+      databaseService.country.findUnique.mockResolvedValue(null);
+      databaseService.country.create.mockResolvedValue(mockCountryDb);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
+
+      await service.submitVote({ ...createVoteDto, country: 'ar' });
+
+      expect(countriesService.findCountry).toHaveBeenCalledWith('ar');
+      expect(databaseService.country.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ code: 'ARG' }),
+      });
+    });
+
     it('should handle database errors', async () => {
       databaseService.user.findUnique.mockResolvedValue(null);
-      countriesService.getCountryByCode.mockResolvedValue(mockCountryData);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
       databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
-      databaseService.$transaction.mockRejectedValue(
+      databaseService.pendingVote.upsert.mockRejectedValue(
         new Error('Database error'),
       );
 
@@ -206,6 +534,7 @@ describe('VotesService', () => {
         expect.stringContaining('Failed to submit vote'),
         500,
       );
+      expect(mailService.sendVoteConfirmation).not.toHaveBeenCalled();
     });
 
     it('should handle country with no capital', async () => {
@@ -214,10 +543,10 @@ describe('VotesService', () => {
         capital: undefined,
       };
       databaseService.user.findUnique.mockResolvedValue(null);
-      countriesService.getCountryByCode.mockResolvedValue(countryDataNoCapital);
+      countriesService.findCountry.mockResolvedValue(countryDataNoCapital);
       databaseService.country.findUnique.mockResolvedValue(null);
       databaseService.country.create.mockResolvedValue(mockCountryDb);
-      databaseService.$transaction.mockResolvedValue([{}, {}]);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
 
       await service.submitVote(createVoteDto);
 
@@ -227,98 +556,676 @@ describe('VotesService', () => {
         }),
       });
     });
+
+    it('should scope the duplicate check and pending vote to the given poll', async () => {
+      databaseService.user.findUnique.mockResolvedValue(null);
+      countriesService.findCountry.mockResolvedValue(mockCountryData);
+      databaseService.country.findUnique.mockResolvedValue(mockCountryDb);
+      databaseService.pendingVote.upsert.mockResolvedValue({});
+
+      await service.submitVote(createVoteDto, 'poll-1');
+
+      expect(pollsService.getPollById).toHaveBeenCalledWith('poll-1');
+      expect(databaseService.user.findUnique).toHaveBeenCalledWith({
+        where: {
+          pollId_canonicalEmail: {
+            pollId: 'poll-1',
+            canonicalEmail: 'john@example.com',
+          },
+        },
+      });
+      expect(databaseService.pendingVote.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            pollId_canonicalEmail: {
+              pollId: 'poll-1',
+              canonicalEmail: 'john@example.com',
+            },
+          },
+          create: expect.objectContaining({ pollId: 'poll-1' }),
+        }),
+      );
+    });
+
+    it('should throw NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(
+        service.submitVote(createVoteDto, 'missing'),
+      ).rejects.toThrow(NotFoundException);
+      expect(databaseService.user.findUnique).not.toHaveBeenCalled();
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
   });
 
-  describe('getTopCountries', () => {
-    const mockCountries = [
-      {
-        id: 1,
+  describe('confirmVote', () => {
+    const token = 'confirmation-token';
+
+    const mockPendingVote = {
+      id: 'pending-1',
+      name: 'John Doe',
+      email: 'John@example.com',
+      canonicalEmail: 'john@example.com',
+      pollId: 'default',
+      countryId: 'country-1',
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      ipAddress: '203.0.113.7',
+      userAgent: 'jest',
+      country: {
+        id: 'country-1',
         code: 'ARG',
         name: 'Argentina',
-        capital: 'Buenos Aires',
-        region: 'Americas',
-        subRegion: 'South America',
+      },
+    };
+
+    it('should count the vote and consume the pending vote', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue(mockPendingVote);
+      databaseService.user.findUnique.mockResolvedValue(null);
+      databaseService.pendingVote.deleteMany.mockResolvedValue({ count: 1 });
+      databaseService.$transaction.mockImplementation((callback) =>
+        callback(databaseService),
+      );
+
+      const result = await service.confirmVote(token);
+
+      expect(databaseService.pendingVote.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken(token) },
+        include: { country: true },
+      });
+      expect(databaseService.user.create).toHaveBeenCalledWith({
+        data: {
+          name: 'John Doe',
+          email: 'John@example.com',
+          canonicalEmail: 'john@example.com',
+          pollId: 'default',
+          countryId: 'country-1',
+          manageTokenHash: hashToken(result.manageToken),
+        },
+      });
+      expect(databaseService.voteHistory.create).toHaveBeenCalledWith({
+        data: {
+          name: 'John Doe',
+          email: 'John@example.com',
+          canonicalEmail: 'john@example.com',
+          pollId: 'default',
+          action: 'CAST',
+          toCountryId: 'country-1',
+          ipAddress: '203.0.113.7',
+          userAgent: 'jest',
+        },
+      });
+      expect(databaseService.pollCountry.upsert).toHaveBeenCalledWith({
+        where: {
+          pollId_countryId: { pollId: 'default', countryId: 'country-1' },
+        },
+        create: { pollId: 'default', countryId: 'country-1', votes: 1 },
+        update: { votes: { increment: 1 } },
+      });
+      expect(databaseService.pendingVote.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'pending-1' },
+      });
+      expect(databaseService.$transaction).toHaveBeenCalled();
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        expect.stringContaining('Vote successfully confirmed'),
+      );
+      expect(metricsService.recordVoteAccepted).toHaveBeenCalledWith(
+        'confirmed',
+      );
+      expect(voteEvents.notifyStandingsChanged).toHaveBeenCalledWith('default');
+    });
+
+    it('should throw BadRequestException for an unknown token', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue(null);
+
+      await expect(service.confirmVote(token)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+    });
+
+    it('should reject and discard an expired pending vote', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue({
+        ...mockPendingVote,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.confirmVote(token)).rejects.toThrow(
+        'Confirmation token has expired',
+      );
+      expect(databaseService.pendingVote.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'pending-1' },
+      });
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if the email already voted', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue(mockPendingVote);
+      databaseService.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+      await expect(service.confirmVote(token)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(databaseService.user.findUnique).toHaveBeenCalledWith({
+        where: {
+          pollId_canonicalEmail: {
+            pollId: 'default',
+            canonicalEmail: 'john@example.com',
+          },
+        },
+      });
+      expect(databaseService.pendingVote.deleteMany).toHaveBeenCalled();
+      expect(databaseService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second confirmation of the same token', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue(mockPendingVote);
+      databaseService.user.findUnique.mockResolvedValue(null);
+      // A concurrent confirmation consumed the pending vote first
+      databaseService.pendingVote.deleteMany.mockResolvedValue({ count: 0 });
+      databaseService.$transaction.mockImplementation((callback) =>
+        callback(databaseService),
+      );
+
+      await expect(service.confirmVote(token)).rejects.toThrow(
+        'Invalid or already used confirmation token',
+      );
+      expect(databaseService.user.create).not.toHaveBeenCalled();
+      expect(databaseService.pollCountry.upsert).not.toHaveBeenCalled();
+      expect(metricsService.recordVoteRejected).toHaveBeenCalledWith(
+        'confirmed',
+        'invalid_token',
+      );
+      expect(voteEvents.notifyStandingsChanged).not.toHaveBeenCalled();
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if the email voted in the meantime', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue(mockPendingVote);
+      databaseService.user.findUnique.mockResolvedValue(null);
+      databaseService.pendingVote.deleteMany.mockResolvedValue({ count: 1 });
+      databaseService.user.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+      databaseService.$transaction.mockImplementation((callback) =>
+        callback(databaseService),
+      );
+
+      await expect(service.confirmVote(token)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(metricsService.recordVoteRejected).toHaveBeenCalledWith(
+        'confirmed',
+        'duplicate',
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      databaseService.pendingVote.findUnique.mockResolvedValue(mockPendingVote);
+      databaseService.user.findUnique.mockResolvedValue(null);
+      databaseService.$transaction.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(service.confirmVote(token)).rejects.toThrow(
+        'Database error',
+      );
+      expect(loggerService.LogError).toHaveBeenCalledWith(
+        'Failed to confirm vote: Database error',
+        500,
+      );
+    });
+  });
+
+  describe('purgeExpiredPendingVotes', () => {
+    it('should delete pending votes past their expiry', async () => {
+      databaseService.pendingVote.deleteMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.purgeExpiredPendingVotes();
+
+      expect(result).toBe(2);
+      expect(databaseService.pendingVote.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) } },
+      });
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Purged 2 expired pending votes',
+      );
+    });
+  });
+
+  describe('getTopCountries', () => {
+    const mockStandings = [
+      {
         votes: 100,
+        countryId: 'country-1',
+        country: {
+          id: 1,
+          code: 'ARG',
+          name: 'Argentina',
+          capital: 'Buenos Aires',
+          region: 'Americas',
+          subRegion: 'South America',
+        },
       },
       {
-        id: 2,
-        code: 'BRA',
-        name: 'Brazil',
-        capital: 'Brasília',
-        region: 'Americas',
-        subRegion: 'South America',
         votes: 95,
+        countryId: 'country-2',
+        country: {
+          id: 2,
+          code: 'BRA',
+          name: 'Brazil',
+          capital: 'Brasília',
+          region: 'Americas',
+          subRegion: 'South America',
+        },
       },
       {
-        id: 3,
-        code: 'USA',
-        name: 'United States',
-        capital: 'Washington, D.C.',
-        region: 'Americas',
-        subRegion: 'North America',
         votes: 90,
+        countryId: 'country-3',
+        country: {
+          id: 3,
+          code: 'USA',
+          name: 'United States',
+          capital: 'Washington, D.C.',
+          region: 'Americas',
+          subRegion: 'North America',
+        },
       },
     ];
 
-    it('should return top countries with votes', async () => {
-      databaseService.country.findMany.mockResolvedValue(mockCountries);
+    it('should return country names in the requested language', async () => {
+      mockStandingsQuery(mockStandings);
+      countriesService.getCountriesByCodes.mockResolvedValue(
+        new Map([
+          [
+            'BRA',
+            {
+              name: {
+                common: 'Brazil',
+                official: 'Federative Republic of Brazil',
+              },
+              cca3: 'BRA',
+              region: 'Americas',
+              translations: {
+                spa: {
+                  official: 'República Federativa del Brasil',
+                  common: 'Brasil',
+                },
+              },
+            },
+          ],
+          [
+            'USA',
+            {
+              name: {
+                common: 'United States',
+                official: 'United States of America',
+              },
+              cca3: 'USA',
+              region: 'Americas',
+              translations: {
+                spa: {
+                  official: 'Estados Unidos de América',
+                  common: 'Estados Unidos',
+                },
+              },
+            },
+          ],
+        ]),
+      );
+
+      const result = await service.getTopCountries('default', { lang: 'es' });
+
+      expect(countriesService.getCountriesByCodes).toHaveBeenCalledWith([
+        'ARG',
+        'BRA',
+        'USA',
+      ]);
+      // Argentina is missing from the catalog and keeps its stored name
+      expect(result.data.map(({ country }) => country)).toEqual([
+        'Argentina',
+        'Brasil',
+        'Estados Unidos',
+      ]);
+    });
+
+    it('should not look up translations for English', async () => {
+      mockStandingsQuery(mockStandings);
+
+      await service.getTopCountries('default', { lang: 'en' });
+
+      expect(countriesService.getCountriesByCodes).not.toHaveBeenCalled();
+    });
+
+    it('should return the first page of the standings', async () => {
+      mockStandingsQuery(mockStandings);
 
       const result = await service.getTopCountries();
 
-      expect(result).toHaveLength(3);
-      expect(result[0]).toEqual({
+      expect(result.data).toHaveLength(3);
+      expect(result.data[0]).toEqual({
         country: 'Argentina',
         capital: 'Buenos Aires',
         region: 'Americas',
         subRegion: 'South America',
         votes: 100,
         rank: 1,
+        sharedRank: false,
+      });
+      expect(result.data[1].rank).toBe(2);
+      expect(result.data[2].rank).toBe(3);
+      expect(result.meta).toEqual({
+        total: 3,
+        limit: 10,
+        offset: 0,
+        nextCursor: null,
       });
-      expect(result[1].rank).toBe(2);
-      expect(result[2].rank).toBe(3);
-      expect(databaseService.country.findMany).toHaveBeenCalledWith({
-        where: { votes: { gt: 0 } },
-        orderBy: { votes: 'desc' },
-        take: 10,
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith({
+        where: { pollId: 'default', votes: { gt: 0 } },
+        orderBy: [
+          { votes: 'desc' },
+          { updatedAt: 'asc' },
+          { countryId: 'asc' },
+        ],
+        include: { country: true },
+        take: 11,
+        skip: 0,
+      });
+      expect(loggerService.LogInfo).toHaveBeenCalledWith(
+        'Fetching top countries for poll default',
+      );
+    });
+
+    it('should return top countries of the given poll', async () => {
+      mockStandingsQuery(mockStandings);
+
+      await service.getTopCountries('poll-1');
+
+      expect(pollsService.getPollById).toHaveBeenCalledWith('poll-1');
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { pollId: 'poll-1', votes: { gt: 0 } },
+        }),
+      );
+    });
+
+    it('should restrict the standings to a region', async () => {
+      mockStandingsQuery(mockStandings);
+
+      await service.getTopCountries('default', { region: 'americas' });
+
+      const regionWhere = {
+        pollId: 'default',
+        votes: { gt: 0 },
+        country: {
+          region: { equals: 'americas', mode: 'insensitive' },
+        },
+      };
+      expect(databaseService.pollCountry.count).toHaveBeenCalledWith({
+        where: regionWhere,
       });
+      // Ranks are counted within the region
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: regionWhere,
+          select: { countryId: true, votes: true },
+        }),
+      );
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
-        'Fetching top 10 countries',
+        'Fetching top countries for poll default in region americas',
+      );
+    });
+
+    it('should keep ranks across offset pages', async () => {
+      mockStandingsQuery(mockStandings.slice(2), mockStandings);
+
+      const result = await service.getTopCountries('default', {
+        limit: 2,
+        offset: 2,
+      });
+
+      expect(result.data).toEqual([
+        expect.objectContaining({ country: 'United States', rank: 3 }),
+      ]);
+      expect(result.meta).toEqual({
+        total: 3,
+        limit: 2,
+        offset: 2,
+        nextCursor: null,
+      });
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 3, skip: 2 }),
+      );
+    });
+
+    it('should return a cursor to the next page', async () => {
+      mockStandingsQuery(mockStandings);
+
+      const result = await service.getTopCountries('default', { limit: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.meta.nextCursor).toEqual(expect.any(String));
+
+      mockStandingsQuery(mockStandings.slice(2), mockStandings);
+
+      const nextPage = await service.getTopCountries('default', {
+        limit: 2,
+        cursor: result.meta.nextCursor as string,
+      });
+
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          take: 3,
+          cursor: {
+            pollId_countryId: { pollId: 'default', countryId: 'country-2' },
+          },
+          skip: 1,
+        }),
       );
+      expect(nextPage.data).toEqual([
+        expect.objectContaining({ country: 'United States', rank: 3 }),
+      ]);
+      expect(nextPage.meta).toEqual({
+        total: 3,
+        limit: 2,
+        offset: null,
+        nextCursor: null,
+      });
+    });
+
+    it('should keep vote ranks when sorting by name', async () => {
+      const byNameDesc = [...mockStandings].reverse();
+      mockStandingsQuery(byNameDesc, mockStandings);
+
+      const result = await service.getTopCountries('default', {
+        sort: LeaderboardSort.NAME_DESC,
+      });
+
+      expect(result.data.map(({ rank }) => rank)).toEqual([3, 2, 1]);
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ country: { name: 'desc' } }, { countryId: 'asc' }],
+        }),
+      );
+    });
+
+    describe('ranking', () => {
+      const tiedStandings = [
+        { ...mockStandings[0], votes: 100 },
+        { ...mockStandings[1], votes: 95 },
+        { ...mockStandings[2], votes: 95 },
+        {
+          ...mockStandings[2],
+          countryId: 'country-4',
+          country: { ...mockStandings[2].country, name: 'Uruguay' },
+          votes: 90,
+        },
+      ];
+
+      const ranksOf = (result: { data: TopCountryDto[] }) =>
+        result.data.map(({ rank, sharedRank }) => [rank, sharedRank]);
+
+      it('should share competition ranks between tied countries by default', async () => {
+        mockStandingsQuery(tiedStandings);
+
+        const result = await service.getTopCountries();
+
+        expect(ranksOf(result)).toEqual([
+          [1, false],
+          [2, true],
+          [2, true],
+          [4, false],
+        ]);
+      });
+
+      it('should not skip ranks after a tie in dense mode', async () => {
+        mockStandingsQuery(tiedStandings);
+
+        const result = await service.getTopCountries('default', {
+          ranking: RankingMode.DENSE,
+        });
+
+        expect(ranksOf(result)).toEqual([
+          [1, false],
+          [2, true],
+          [2, true],
+          [3, false],
+        ]);
+      });
+
+      it('should give unique ranks in ordinal mode', async () => {
+        mockStandingsQuery(tiedStandings);
+
+        const result = await service.getTopCountries('default', {
+          ranking: RankingMode.ORDINAL,
+        });
+
+        expect(ranksOf(result)).toEqual([
+          [1, false],
+          [2, false],
+          [3, false],
+          [4, false],
+        ]);
+      });
+
+      it('should break ties by the country that reached the count first', async () => {
+        mockStandingsQuery(tiedStandings);
+
+        await service.getTopCountries('default', {
+          ranking: RankingMode.ORDINAL,
+        });
+
+        expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            select: { countryId: true, votes: true },
+            orderBy: [
+              { votes: 'desc' },
+              { updatedAt: 'asc' },
+              { countryId: 'asc' },
+            ],
+          }),
+        );
+      });
+
+      it('should break ties alphabetically when asked to', async () => {
+        mockStandingsQuery(tiedStandings);
+
+        await service.getTopCountries('default', {
+          ranking: RankingMode.ORDINAL,
+          tieBreak: TieBreaker.ALPHABETICAL,
+        });
+
+        const alphabeticalOrder = [
+          { votes: 'desc' },
+          { country: { name: 'asc' } },
+          { countryId: 'asc' },
+        ];
+        expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            include: { country: true },
+            orderBy: alphabeticalOrder,
+          }),
+        );
+        expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            select: { countryId: true, votes: true },
+            orderBy: alphabeticalOrder,
+          }),
+        );
+      });
+    });
+
+    it('should throw BadRequestException for an invalid cursor', async () => {
+      await expect(
+        service.getTopCountries('default', { cursor: 'not-a-cursor' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.pollCountry.findMany).not.toHaveBeenCalled();
+      expect(loggerService.LogError).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when both offset and cursor are given', async () => {
+      await expect(
+        service.getTopCountries('default', { offset: 10, cursor: 'abc' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.pollCountry.findMany).not.toHaveBeenCalled();
     });
 
-    it('should return empty array if no countries have votes', async () => {
-      databaseService.country.findMany.mockResolvedValue([]);
+    it('should return an empty page if no countries have votes', async () => {
+      mockStandingsQuery([]);
 
       const result = await service.getTopCountries();
 
-      expect(result).toEqual([]);
+      expect(result.data).toEqual([]);
+      expect(result.meta.total).toBe(0);
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
-        'Retrieved 0 countries with votes',
+        'Retrieved 0 of 0 countries with votes',
       );
     });
 
     it('should handle countries with null capital', async () => {
-      const countriesWithNullCapital = [
+      const standingsWithNullCapital = [
         {
-          ...mockCountries[0],
-          capital: null,
+          ...mockStandings[0],
+          country: { ...mockStandings[0].country, capital: null },
         },
       ];
-      databaseService.country.findMany.mockResolvedValue(
-        countriesWithNullCapital,
-      );
+      mockStandingsQuery(standingsWithNullCapital);
 
       const result = await service.getTopCountries();
 
-      expect(result[0].capital).toBe('N/A');
+      expect(result.data[0].capital).toBe('N/A');
+    });
+
+    it('should rethrow NotFoundException if poll does not exist', async () => {
+      pollsService.getPollById.mockRejectedValue(
+        new NotFoundException('Poll missing not found'),
+      );
+
+      await expect(service.getTopCountries('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(loggerService.LogError).not.toHaveBeenCalled();
     });
 
     it('should handle database errors', async () => {
-      databaseService.country.findMany.mockRejectedValue(
+      databaseService.pollCountry.count.mockResolvedValue(0);
+      databaseService.pollCountry.findMany.mockRejectedValue(
         new Error('Database error'),
       );
 
       await expect(service.getTopCountries()).rejects.toThrow('Database error');
+      // Failed queries are timed too
+      const recordQuery =
+        metricsService.startLeaderboardQuery.mock.results[0].value;
+      expect(metricsService.startLeaderboardQuery).toHaveBeenCalledWith('top');
+      expect(recordQuery).toHaveBeenCalledTimes(1);
       expect(loggerService.LogError).toHaveBeenCalledWith(
         expect.stringContaining('Failed to fetch top countries'),
         500,
@@ -327,85 +1234,339 @@ describe('VotesService', () => {
   });
 
   describe('searchCountries', () => {
-    const mockCountries = [
-      {
-        id: 1,
-        code: 'ARG',
-        name: 'Argentina',
-        capital: 'Buenos Aires',
+    const searchStanding = (
+      countryId: string,
+      code: string,
+      name: string,
+      votes: number,
+      capital = 'Capital',
+    ) => ({
+      votes,
+      countryId,
+      country: {
+        id: countryId,
+        code,
+        name,
+        capital,
         region: 'Americas',
         subRegion: 'South America',
+      },
+    });
+
+    const mockStandings = [
+      {
         votes: 100,
+        countryId: 'country-1',
+        country: {
+          id: 1,
+          code: 'ARG',
+          name: 'Argentina',
+          capital: 'Buenos Aires',
+          region: 'Americas',
+          subRegion: 'South America',
+        },
       },
     ];
 
     it('should search countries by name', async () => {
-      databaseService.country.findMany.mockResolvedValue(mockCountries);
+      mockStandingsQuery(mockStandings);
 
       const result = await service.searchCountries('Arg');
 
-      expect(result).toHaveLength(1);
-      expect(result[0].country).toBe('Argentina');
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].country).toBe('Argentina');
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
-        'Searching countries with query: "Arg"',
+        'Searching countries with query: "Arg" (poll=default)',
       );
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
         'Search for "Arg" returned 1 results',
       );
     });
 
+    it('should rank results by their position in the full standings', async () => {
+      mockStandingsQuery([
+        searchStanding('country-7', 'BRA', 'Brazil', 120),
+        ...mockStandings,
+      ]);
+
+      const result = await service.searchCountries('Arg');
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].rank).toBe(2);
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { pollId: 'default', votes: { gt: 0 } },
+          include: { country: true },
+        }),
+      );
+    });
+
+    it('should tolerate typos in the query', async () => {
+      mockStandingsQuery([
+        ...mockStandings,
+        searchStanding('country-2', 'BRA', 'Brazil', 50),
+        searchStanding('country-3', 'DEU', 'Germany', 40),
+      ]);
+
+      const brazil = await service.searchCountries('Brazl');
+      const germany = await service.searchCountries('germny');
+
+      expect(brazil.data.map(({ country }) => country)).toEqual(['Brazil']);
+      expect(brazil.data[0].matchedField).toBe('name');
+      expect(germany.data.map(({ country }) => country)).toEqual(['Germany']);
+    });
+
+    it('should order results by relevance, then by votes', async () => {
+      mockStandingsQuery([
+        ...mockStandings,
+        searchStanding('country-4', 'PNG', 'Papua New Guinea', 80),
+        searchStanding('country-5', 'GNQ', 'Equatorial Guinea', 60),
+        searchStanding('country-6', 'GIN', 'Guinea', 5),
+      ]);
+
+      const result = await service.searchCountries('guinea');
+
+      expect(result.data.map(({ country }) => country)).toEqual([
+        'Guinea',
+        'Papua New Guinea',
+        'Equatorial Guinea',
+      ]);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({ score: 1, matchedField: 'name', rank: 4 }),
+      );
+      expect(result.data[1]).toEqual(
+        expect.objectContaining({ score: 0.8, rank: 2 }),
+      );
+    });
+
+    it('should replace relevance with an explicit sort', async () => {
+      mockStandingsQuery([
+        ...mockStandings,
+        searchStanding('country-8', 'ARM', 'Armenia', 30),
+        searchStanding('country-9', 'ABW', 'Aruba', 20),
+      ]);
+
+      const result = await service.searchCountries('ar', 'default', {
+        sort: LeaderboardSort.NAME_DESC,
+      });
+
+      expect(result.data.map(({ country }) => country)).toEqual([
+        'Aruba',
+        'Armenia',
+        'Argentina',
+      ]);
+    });
+
+    it('should paginate search results', async () => {
+      mockStandingsQuery([
+        ...mockStandings,
+        searchStanding('country-8', 'ARM', 'Armenia', 30),
+        searchStanding('country-9', 'ABW', 'Aruba', 20),
+      ]);
+
+      const first = await service.searchCountries('ar', 'default', {
+        limit: 1,
+      });
+      const second = await service.searchCountries('ar', 'default', {
+        limit: 1,
+        cursor: first.meta.nextCursor ?? undefined,
+      });
+      const last = await service.searchCountries('ar', 'default', {
+        limit: 2,
+        offset: 2,
+      });
+
+      expect(first.data.map(({ country }) => country)).toEqual(['Argentina']);
+      expect(first.meta).toEqual({
+        total: 3,
+        limit: 1,
+        offset: 0,
+        nextCursor: expect.any(String),
+      });
+      expect(second.data.map(({ country }) => country)).toEqual(['Armenia']);
+      expect(second.meta.offset).toBeNull();
+      expect(last.data.map(({ country }) => country)).toEqual(['Aruba']);
+      expect(last.meta.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor that is not in the results', async () => {
+      mockStandingsQuery(mockStandings);
+      const cursor = Buffer.from(
+        JSON.stringify({ countryId: 'country-404' }),
+      ).toString('base64url');
+
+      await expect(
+        service.searchCountries('arg', 'default', { cursor }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    describe('with filters', () => {
+      const filterStandings = [
+        ...mockStandings,
+        {
+          ...searchStanding('country-2', 'FRA', 'France', 60),
+          country: {
+            id: 'country-2',
+            code: 'FRA',
+            name: 'France',
+            capital: 'Paris',
+            region: 'Europe',
+            subRegion: 'Western Europe',
+          },
+        },
+        {
+          ...searchStanding('country-3', 'DEU', 'Germany', 4),
+          country: {
+            id: 'country-3',
+            code: 'DEU',
+            name: 'Germany',
+            capital: 'Berlin',
+            region: 'Europe',
+            subRegion: 'Western Europe',
+          },
+        },
+        searchStanding('country-4', 'URY', 'Uruguay', 2),
+      ];
+
+      it('should filter by region and votes without a text query', async () => {
+        mockStandingsQuery(filterStandings);
+
+        const result = await service.searchCountries(undefined, 'default', {
+          region: 'europe',
+          minVotes: 5,
+        });
+
+        expect(result.data).toEqual([
+          expect.objectContaining({ country: 'France', votes: 60, rank: 2 }),
+        ]);
+        expect(result.data[0].score).toBeUndefined();
+        expect(loggerService.LogInfo).toHaveBeenCalledWith(
+          'Searching countries with query: "" and filters (poll=default)',
+        );
+      });
+
+      it('should combine the filters with the text query', async () => {
+        mockStandingsQuery(filterStandings);
+
+        const result = await service.searchCountries('a', 'default', {
+          subRegion: 'South America',
+          maxVotes: 50,
+          codes: ['URY', 'FRA'],
+        });
+
+        expect(result.data.map(({ country }) => country)).toEqual(['Uruguay']);
+      });
+
+      it('should only count the votes cast in the date range', async () => {
+        mockStandingsQuery(filterStandings);
+        databaseService.user.groupBy.mockResolvedValue([
+          { countryId: 'country-3', _count: { _all: 3 } },
+          { countryId: 'country-1', _count: { _all: 1 } },
+        ]);
+
+        const result = await service.searchCountries(undefined, 'default', {
+          from: '2025-12-01T00:00:00.000Z',
+          to: '2025-12-02T00:00:00.000Z',
+        });
+
+        expect(
+          result.data.map(({ country, votes }) => [country, votes]),
+        ).toEqual([
+          ['Germany', 3],
+          ['Argentina', 1],
+        ]);
+        expect(result.meta.total).toBe(2);
+        expect(databaseService.user.groupBy).toHaveBeenCalledWith({
+          by: ['countryId'],
+          where: {
+            pollId: 'default',
+            status: { not: 'VOIDED' },
+            createdAt: {
+              gte: new Date('2025-12-01T00:00:00.000Z'),
+              lt: new Date('2025-12-02T00:00:00.000Z'),
+            },
+          },
+          _count: { _all: true },
+        });
+      });
+
+      it('should reject minVotes greater than maxVotes', async () => {
+        await expect(
+          service.searchCountries('arg', 'default', {
+            minVotes: 10,
+            maxVotes: 5,
+          }),
+        ).rejects.toThrow('minVotes must not be greater than maxVotes');
+        expect(pollsService.getPollById).not.toHaveBeenCalled();
+      });
+
+      it('should reject an empty date range', async () => {
+        await expect(
+          service.searchCountries(undefined, 'default', {
+            from: '2025-12-02T00:00:00.000Z',
+            to: '2025-12-01T00:00:00.000Z',
+          }),
+        ).rejects.toThrow(BadRequestException);
+      });
+    });
+
     it('should return top countries if query is empty', async () => {
-      databaseService.country.findMany.mockResolvedValue(mockCountries);
+      mockStandingsQuery(mockStandings);
 
       const result = await service.searchCountries('');
 
-      expect(result).toHaveLength(1);
+      expect(result.data).toHaveLength(1);
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
         'Empty search query, returning top countries',
       );
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
-        'Fetching top 10 countries',
+        'Fetching top countries for poll default',
       );
     });
 
     it('should return top countries if query is whitespace', async () => {
-      databaseService.country.findMany.mockResolvedValue(mockCountries);
+      mockStandingsQuery(mockStandings);
 
       const result = await service.searchCountries('   ');
 
-      expect(result).toHaveLength(1);
+      expect(result.data).toHaveLength(1);
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
         'Empty search query, returning top countries',
       );
     });
 
-    it('should search countries case-insensitively', async () => {
-      databaseService.country.findMany.mockResolvedValue(mockCountries);
+    it('should search countries ignoring case and accents', async () => {
+      mockStandingsQuery(mockStandings);
+
+      const result = await service.searchCountries('BUENOS AÍRES');
+
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          country: 'Argentina',
+          score: 0.9,
+          matchedField: 'capital',
+        }),
+      );
+    });
+
+    it('should only search within the given poll', async () => {
+      mockStandingsQuery(mockStandings);
 
-      await service.searchCountries('argentina');
+      await service.searchCountries('arg', 'poll-1');
 
-      expect(databaseService.country.findMany).toHaveBeenCalledWith(
+      expect(databaseService.pollCountry.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
-            AND: expect.arrayContaining([
-              expect.objectContaining({
-                OR: expect.arrayContaining([
-                  expect.objectContaining({
-                    name: {
-                      contains: 'argentina',
-                      mode: 'insensitive',
-                    },
-                  }),
-                ]),
-              }),
-            ]),
+            pollId: 'poll-1',
+            votes: { gt: 0 },
           }),
         }),
       );
     });
 
     it('should handle database errors', async () => {
-      databaseService.country.findMany.mockRejectedValue(
+      databaseService.pollCountry.count.mockResolvedValue(0);
+      databaseService.pollCountry.findMany.mockRejectedValue(
         new Error('Database error'),
       );
 
@@ -418,12 +1579,12 @@ describe('VotesService', () => {
       );
     });
 
-    it('should return empty array if no matches found', async () => {
-      databaseService.country.findMany.mockResolvedValue([]);
+    it('should return an empty page if no matches found', async () => {
+      mockStandingsQuery([]);
 
       const result = await service.searchCountries('xyz');
 
-      expect(result).toEqual([]);
+      expect(result.data).toEqual([]);
       expect(loggerService.LogInfo).toHaveBeenCalledWith(
         'Search for "xyz" returned 0 results',
       );
@@ -2,94 +2,383 @@ import {
   Injectable,
   ConflictException,
   BadRequestException,
+  HttpStatus,
+  NotFoundException,
 } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Country, Prisma, VoteAction, VoteStatus } from '@prisma/client';
 import { DatabaseService } from 'src/shared/services/database.service';
 import { LoggerService } from 'src/shared/services/logger.service';
+import { generateToken, hashToken } from 'src/shared/utils/token.util';
+import { DEFAULT_LANGUAGE } from 'src/shared/utils/language.util';
+import { normalizeText } from 'src/shared/utils/text-match.util';
+import { canonicalizeEmail } from 'src/shared/utils/email.util';
+import { sensitive } from 'src/shared/utils/redact.util';
+import { RequestMetadata } from 'src/shared/decorators/request-metadata.decorator';
 import { CountriesService } from '../countries/countries.service';
+import { toCountryRecord } from '../countries/utils/country-record.util';
+import { localizeCountryName } from '../countries/utils/country-name.util';
+import { DEFAULT_POLL_ID, PollsService } from '../polls/polls.service';
+import { MailService } from '../mail/mail.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { VoteEventsService } from './vote-events.service';
+import { EmailPolicyService, EmailRejectionCode } from './email-policy.service';
 import { CreateVoteDto } from './dto/create-vote.dto';
-import { TopCountryDto } from './dto/top-countries.dto';
+import { TopCountriesPageDto, TopCountryDto } from './dto/top-countries.dto';
+import {
+  DEFAULT_LEADERBOARD_LIMIT,
+  LeaderboardQueryDto,
+  LeaderboardSort,
+  RankingMode,
+  SearchCountriesQueryDto,
+  TieBreaker,
+  TopCountriesQueryDto,
+} from './dto/leaderboard-query.dto';
+import { rankStandings, StandingRank } from './utils/ranking.util';
+import { scoreCountryMatch } from './utils/search-score.util';
+
+const TIE_BREAK_ORDER: Record<
+  TieBreaker,
+  Prisma.PollCountryOrderByWithRelationInput
+> = {
+  // A standing is only updated when its vote count changes
+  [TieBreaker.EARLIEST]: { updatedAt: 'asc' },
+  [TieBreaker.ALPHABETICAL]: { country: { name: 'asc' } },
+};
+
+/**
+ * Standings order for a sort option, countryId keeps pages stable on ties
+ */
+const leaderboardOrder = (
+  sort: LeaderboardSort,
+  tieBreak: TieBreaker,
+): Prisma.PollCountryOrderByWithRelationInput[] => {
+  switch (sort) {
+    case LeaderboardSort.VOTES_DESC:
+      return [
+        { votes: 'desc' },
+        TIE_BREAK_ORDER[tieBreak],
+        { countryId: 'asc' },
+      ];
+    case LeaderboardSort.VOTES_ASC:
+      return [
+        { votes: 'asc' },
+        TIE_BREAK_ORDER[tieBreak],
+        { countryId: 'asc' },
+      ];
+    case LeaderboardSort.NAME_ASC:
+      return [{ country: { name: 'asc' } }, { countryId: 'asc' }];
+    case LeaderboardSort.NAME_DESC:
+      return [{ country: { name: 'desc' } }, { countryId: 'asc' }];
+  }
+};
+
+const alreadyVoted = () =>
+  new ConflictException({
+    statusCode: HttpStatus.CONFLICT,
+    message:
+      'This email has already been used to vote in this poll. Only one vote per email is allowed.',
+    error: 'Conflict',
+    code: EmailRejectionCode.ALREADY_VOTED,
+  });
+
+// Search parameters that narrow the results on their own, without q
+const SEARCH_FILTERS = [
+  'region',
+  'subRegion',
+  'minVotes',
+  'maxVotes',
+  'codes',
+  'from',
+  'to',
+] as const;
+
+/**
+ * In-memory counterpart of leaderboardOrder for standings already in
+ * votes order, ties keep their current order
+ */
+const compareStandings = (
+  a: { votes: number; country: { name: string } },
+  b: { votes: number; country: { name: string } },
+  sort: LeaderboardSort,
+): number => {
+  switch (sort) {
+    case LeaderboardSort.VOTES_DESC:
+      return b.votes - a.votes;
+    case LeaderboardSort.VOTES_ASC:
+      return a.votes - b.votes;
+    case LeaderboardSort.NAME_ASC:
+      return a.country.name.localeCompare(b.country.name);
+    case LeaderboardSort.NAME_DESC:
+      return b.country.name.localeCompare(a.country.name);
+  }
+};
 
 @Injectable()
 export class VotesService {
+  private readonly confirmationTtlMinutes =
+    Number(process.env.VOTE_CONFIRMATION_TTL_MINUTES) || 60;
+
   constructor(
     private readonly db: DatabaseService,
     private readonly countriesService: CountriesService,
+    private readonly pollsService: PollsService,
+    private readonly mailService: MailService,
+    private readonly voteEvents: VoteEventsService,
+    private readonly emailPolicy: EmailPolicyService,
+    private readonly metricsService: MetricsService,
     private readonly logger: LoggerService,
   ) {}
 
   /**
-   * Submit a vote for a country
-   * Requirement: Only one vote per email
+   * Submit a vote for a country in a poll
+   * The vote stays pending until the voter confirms it through the emailed link
+   * Requirement: Only one vote per email per poll, variants of an address
+   * that reach the same inbox count as the same email
    */
-  async submitVote(createVoteDto: CreateVoteDto): Promise<void> {
+  async submitVote(
+    createVoteDto: CreateVoteDto,
+    pollId: string = DEFAULT_POLL_ID,
+    metadata: RequestMetadata = {},
+  ): Promise<void> {
     const { name, email, country: countryCode } = createVoteDto;
+    const canonicalEmail = canonicalizeEmail(email);
     this.logger.LogInfo(
-      `Attempting to submit vote: email=${email}, country=${countryCode}`,
+      `Attempting to submit vote: poll=${pollId}, country=${countryCode}`,
     );
 
     try {
+      await this.pollsService.getPollById(pollId);
+
+      this.emailPolicy.assertAllowed(email);
+
       const existingUser = await this.db.user.findUnique({
-        where: { email },
+        where: { pollId_canonicalEmail: { pollId, canonicalEmail } },
       });
 
       if (existingUser) {
-        this.logger.LogWarning(`Vote rejected - duplicate email: ${email}`);
-        throw new ConflictException(
-          'This email has already been used to vote. Only one vote per email is allowed.',
+        this.logger.LogWarning(
+          `Vote rejected - duplicate email of vote ${existingUser.id} (poll=${pollId})`,
         );
+        this.metricsService.recordVoteRejected('submitted', 'duplicate');
+        throw alreadyVoted();
+      }
+
+      const country = await this.resolveCountry(countryCode).catch((error) => {
+        if (error instanceof BadRequestException) {
+          this.metricsService.recordVoteRejected(
+            'submitted',
+            'invalid_country',
+          );
+        }
+        throw error;
+      });
+
+      // Submitting again before confirming replaces the pending vote and token
+      const token = generateToken();
+      const expiresAt = new Date(
+        Date.now() + this.confirmationTtlMinutes * 60 * 1000,
+      );
+      const pendingVote = await this.db.pendingVote.upsert({
+        where: { pollId_canonicalEmail: { pollId, canonicalEmail } },
+        create: {
+          name,
+          email,
+          canonicalEmail,
+          pollId,
+          countryId: country.id,
+          tokenHash: hashToken(token),
+          expiresAt,
+          ipAddress: metadata.ipAddress,
+          userAgent: metadata.userAgent,
+        },
+        update: {
+          name,
+          email,
+          countryId: country.id,
+          tokenHash: hashToken(token),
+          expiresAt,
+          ipAddress: metadata.ipAddress,
+          userAgent: metadata.userAgent,
+        },
+      });
+
+      await this.mailService.sendVoteConfirmation(
+        email,
+        name,
+        token,
+        expiresAt,
+      );
+
+      this.metricsService.recordVoteAccepted('submitted');
+      this.logger.LogInfo(
+        `Vote pending confirmation: ${sensitive(name)} voted for ${
+          country.name
+        } (${country.code}) in poll ${pollId} (pending vote ${pendingVote.id})`,
+      );
+    } catch (error) {
+      if (
+        error instanceof ConflictException ||
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
       }
+      this.logger.LogError(`Failed to submit vote: ${error.message}`, 500);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a country identifier (code, name or alternate spelling) against
+   * the country catalog and return its database row, creating the row the
+   * first time the country is voted for
+   */
+  async resolveCountry(identifier: string): Promise<Country> {
+    this.logger.LogInfo(`Validating country code: ${identifier}`);
+    const countryData = await this.countriesService.findCountry(identifier);
+
+    if (!countryData) {
+      this.logger.LogError(`Invalid country code provided: ${identifier}`, 400);
+      const suggestions = (
+        await this.countriesService.suggestCountries(identifier)
+      ).map((country) => ({ name: country.name.common, code: country.cca3 }));
 
-      // Validate country code exists in REST Countries API
-      this.logger.LogInfo(`Validating country code: ${countryCode}`);
-      const countryData = await this.countriesService.getCountryByCode(
-        countryCode,
+      throw new BadRequestException({
+        statusCode: HttpStatus.BAD_REQUEST,
+        message:
+          suggestions.length > 0
+            ? `Invalid country code, did you mean ${suggestions
+                .map(({ name }) => name)
+                .join(', ')}?`
+            : 'Invalid country code',
+        error: 'Bad Request',
+        suggestions,
+      });
+    }
+
+    const countryCode = countryData.cca3;
+    let country = await this.db.country.findUnique({
+      where: { code: countryCode },
+    });
+
+    if (!country) {
+      this.logger.LogInfo(
+        `Creating new country in database: ${countryData.name.common} (${countryCode})`,
       );
+      country = await this.db.country.create({
+        data: {
+          code: countryCode,
+          ...toCountryRecord(countryData),
+        },
+      });
+    }
+
+    return country;
+  }
+
+  /**
+   * Confirm a pending vote so it starts counting
+   * Tokens are single use: the pending vote is deleted once confirmed
+   * Returns the token the voter needs to change or withdraw the vote later
+   */
+  async confirmVote(token: string): Promise<{ manageToken: string }> {
+    this.logger.LogInfo('Attempting to confirm vote');
+
+    try {
+      const pendingVote = await this.db.pendingVote.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { country: true },
+      });
 
-      if (!countryData) {
-        this.logger.LogError(
-          `Invalid country code provided: ${countryCode}`,
-          400,
+      if (!pendingVote) {
+        this.logger.LogWarning('Vote confirmation rejected - unknown token');
+        this.metricsService.recordVoteRejected('confirmed', 'invalid_token');
+        throw new BadRequestException(
+          'Invalid or already used confirmation token',
         );
-        throw new BadRequestException('Invalid country code');
       }
 
-      let country = await this.db.country.findUnique({
-        where: { code: countryCode },
+      const { id, name, email, canonicalEmail, pollId, country } = pendingVote;
+
+      if (pendingVote.expiresAt.getTime() < Date.now()) {
+        this.logger.LogWarning(
+          `Vote confirmation rejected - expired token of pending vote ${id} (poll=${pollId})`,
+        );
+        await this.db.pendingVote.deleteMany({ where: { id } });
+        this.metricsService.recordVoteRejected('confirmed', 'expired_token');
+        throw new BadRequestException(
+          'Confirmation token has expired. Please vote again.',
+        );
+      }
+
+      const existingUser = await this.db.user.findUnique({
+        where: { pollId_canonicalEmail: { pollId, canonicalEmail } },
       });
 
-      if (!country) {
-        this.logger.LogInfo(
-          `Creating new country in database: ${countryData.name.common} (${countryCode})`,
+      if (existingUser) {
+        this.logger.LogWarning(
+          `Vote confirmation rejected - pending vote ${id} duplicates vote ${existingUser.id} (poll=${pollId})`,
         );
-        country = await this.db.country.create({
-          data: {
-            code: countryCode,
-            name: countryData.name.common,
-            capital: countryData.capital?.[0] || 'N/A',
-            region: countryData.region,
-            subRegion: countryData.subregion || 'N/A',
-            votes: 0,
-          },
-        });
+        await this.db.pendingVote.deleteMany({ where: { id } });
+        this.metricsService.recordVoteRejected('confirmed', 'duplicate');
+        throw alreadyVoted();
       }
 
-      await this.db.$transaction([
-        this.db.user.create({
+      const manageToken = generateToken();
+      // The pending vote is consumed first, so a second confirmation of the
+      // same token running concurrently finds nothing left to count
+      await this.db.$transaction(async (tx) => {
+        const { count } = await tx.pendingVote.deleteMany({ where: { id } });
+
+        if (count !== 1) {
+          this.logger.LogWarning(
+            `Vote confirmation rejected - pending vote ${id} was already used (poll=${pollId})`,
+          );
+          this.metricsService.recordVoteRejected('confirmed', 'invalid_token');
+          throw new BadRequestException(
+            'Invalid or already used confirmation token',
+          );
+        }
+
+        await tx.user.create({
           data: {
             name,
             email,
+            canonicalEmail,
+            pollId,
             countryId: country.id,
+            manageTokenHash: hashToken(manageToken),
           },
-        }),
-        this.db.country.update({
-          where: { id: country.id },
-          data: { votes: { increment: 1 } },
-        }),
-      ]);
+        });
+        await tx.pollCountry.upsert({
+          where: { pollId_countryId: { pollId, countryId: country.id } },
+          create: { pollId, countryId: country.id, votes: 1 },
+          update: { votes: { increment: 1 } },
+        });
+        await tx.voteHistory.create({
+          data: {
+            name,
+            email,
+            canonicalEmail,
+            pollId,
+            action: VoteAction.CAST,
+            toCountryId: country.id,
+            ipAddress: pendingVote.ipAddress,
+            userAgent: pendingVote.userAgent,
+          },
+        });
+      });
 
+      this.metricsService.recordVoteAccepted('confirmed');
       this.logger.LogInfo(
-        `Vote successfully submitted: ${name} voted for ${country.name} (${countryCode})`,
+        `Vote successfully confirmed: ${sensitive(name)} voted for ${
+          country.name
+        } (${country.code}) in poll ${pollId}`,
       );
+      this.voteEvents.notifyStandingsChanged(pollId);
+
+      return { manageToken };
     } catch (error) {
       if (
         error instanceof ConflictException ||
@@ -97,123 +386,472 @@ export class VotesService {
       ) {
         throw error;
       }
-      this.logger.LogError(`Failed to submit vote: ${error.message}`, 500);
+      // The email was counted by a concurrent confirmation or import
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.LogWarning(
+          'Vote confirmation rejected - the email voted in the meantime',
+        );
+        this.metricsService.recordVoteRejected('confirmed', 'duplicate');
+        throw alreadyVoted();
+      }
+      this.logger.LogError(`Failed to confirm vote: ${error.message}`, 500);
       throw error;
     }
   }
 
   /**
-   * Get top 10 countries by votes with full details
+   * Remove pending votes whose confirmation token has expired
    */
-  async getTopCountries(): Promise<TopCountryDto[]> {
-    this.logger.LogInfo('Fetching top 10 countries');
-
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredPendingVotes(): Promise<number> {
     try {
-      const countries = await this.db.country.findMany({
+      const { count } = await this.db.pendingVote.deleteMany({
         where: {
-          votes: {
-            gt: 0,
+          expiresAt: {
+            lt: new Date(),
           },
         },
-        orderBy: {
-          votes: 'desc',
-        },
-        take: 10,
       });
 
-      this.logger.LogInfo(`Retrieved ${countries.length} countries with votes`);
-
-      // Transform to DTO with rank
-      return countries.map((country, index) => ({
-        country: country.name,
-        capital: country.capital || 'N/A',
-        region: country.region,
-        subRegion: country.subRegion,
-        votes: country.votes,
-        rank: index + 1,
-      }));
+      this.logger.LogInfo(`Purged ${count} expired pending votes`);
+      return count;
+    } catch (error) {
+      this.logger.LogError(
+        `Failed to purge expired pending votes: ${error.message}`,
+        500,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the standings of a poll with full country details
+   * Optionally restricted to a single region, in which case ranks are
+   * counted within that region
+   */
+  async getTopCountries(
+    pollId: string = DEFAULT_POLL_ID,
+    query: TopCountriesQueryDto = {},
+  ): Promise<TopCountriesPageDto> {
+    const { region } = query;
+    this.logger.LogInfo(
+      `Fetching top countries for poll ${pollId}${
+        region ? ` in region ${region}` : ''
+      }`,
+    );
+    const recordQuery = this.metricsService.startLeaderboardQuery('top');
+
+    try {
+      await this.pollsService.getPollById(pollId);
+
+      const where: Prisma.PollCountryWhereInput = {
+        pollId,
+        votes: {
+          gt: 0,
+        },
+        ...(region && {
+          country: {
+            region: {
+              equals: region,
+              mode: 'insensitive' as const,
+            },
+          },
+        }),
+      };
+
+      const page = await this.findStandingsPage(pollId, where, where, query);
+
+      this.logger.LogInfo(
+        `Retrieved ${page.data.length} of ${page.meta.total} countries with votes`,
+      );
+
+      return page;
     } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
       this.logger.LogError(
         `Failed to fetch top countries: ${error.message}`,
         500,
       );
       throw error;
+    } finally {
+      recordQuery();
     }
   }
 
   /**
-   * Search countries by name (case-insensitive)
-   * Only returns countries that have votes
+   * Search countries of a poll by name, capital, region or subregion,
+   * narrowed by the structured filters of the query
+   * Tolerates typos and ranks results by relevance, then by votes. Only
+   * returns countries that have votes in the poll, ranked by their position
+   * in the full standings of the poll. An explicit sort replaces relevance.
    */
-  async searchCountries(query: string): Promise<TopCountryDto[]> {
-    if (!query || query.trim().length === 0) {
+  async searchCountries(
+    search: string | undefined,
+    pollId: string = DEFAULT_POLL_ID,
+    query: SearchCountriesQueryDto = {},
+  ): Promise<TopCountriesPageDto> {
+    const text = search?.trim() ?? '';
+    const hasFilters = SEARCH_FILTERS.some(
+      (filter) => query[filter] !== undefined,
+    );
+
+    if (text.length === 0 && !hasFilters) {
       this.logger.LogInfo('Empty search query, returning top countries');
-      return this.getTopCountries();
+      return this.getTopCountries(pollId, query);
     }
 
-    this.logger.LogInfo(`Searching countries with query: "${query}"`);
+    this.logger.LogInfo(
+      `Searching countries with query: "${text}"${
+        hasFilters ? ' and filters' : ''
+      } (poll=${pollId})`,
+    );
+    const recordQuery = this.metricsService.startLeaderboardQuery('search');
 
     try {
-      const countries = await this.db.country.findMany({
+      if (query.cursor !== undefined && query.offset !== undefined) {
+        throw new BadRequestException(
+          'Use either offset or cursor to paginate, not both',
+        );
+      }
+      if (
+        query.minVotes !== undefined &&
+        query.maxVotes !== undefined &&
+        query.minVotes > query.maxVotes
+      ) {
+        throw new BadRequestException(
+          'minVotes must not be greater than maxVotes',
+        );
+      }
+
+      const from = query.from ? new Date(query.from) : undefined;
+      const to = query.to ? new Date(query.to) : undefined;
+      if (from && to && from >= to) {
+        throw new BadRequestException('from must be earlier than to');
+      }
+
+      await this.pollsService.getPollById(pollId);
+
+      const limit = query.limit ?? DEFAULT_LEADERBOARD_LIMIT;
+      const tieBreak = query.tieBreak ?? TieBreaker.EARLIEST;
+      const cursorCountryId =
+        query.cursor !== undefined
+          ? this.decodeCursor(query.cursor)
+          : undefined;
+
+      // Standings are bounded by the country catalog, so matching is done
+      // in memory against the full standings in votes order
+      const standings = await this.db.pollCountry.findMany({
         where: {
-          AND: [
-            {
-              votes: {
-                gt: 0,
-              },
-            },
-            {
-              OR: [
-                {
-                  name: {
-                    contains: query,
-                    mode: 'insensitive',
-                  },
-                },
-                {
-                  capital: {
-                    contains: query,
-                    mode: 'insensitive',
-                  },
-                },
-                {
-                  region: {
-                    contains: query,
-                    mode: 'insensitive',
-                  },
-                },
-                {
-                  subRegion: {
-                    contains: query,
-                    mode: 'insensitive',
-                  },
-                },
-              ],
-            },
-          ],
+          pollId,
+          votes: {
+            gt: 0,
+          },
         },
-        orderBy: {
-          votes: 'desc',
+        orderBy: leaderboardOrder(LeaderboardSort.VOTES_DESC, tieBreak),
+        include: {
+          country: true,
         },
-        take: 10,
       });
 
+      const rankByCountryId = rankStandings(
+        standings,
+        query.ranking ?? RankingMode.COMPETITION,
+      );
+      const votesInRange =
+        from || to
+          ? await this.countVotesInRange(pollId, { from, to })
+          : undefined;
+
+      const matches = standings
+        // Within a date range a country only counts the votes cast in it
+        .map((standing) => ({
+          ...standing,
+          votes: votesInRange
+            ? votesInRange.get(standing.countryId) ?? 0
+            : standing.votes,
+        }))
+        .filter((standing) => this.matchesSearchFilters(standing, query))
+        .map((standing) => ({
+          standing,
+          match: text ? scoreCountryMatch(text, standing.country) : undefined,
+        }))
+        .filter(({ match }) => match !== null)
+        // Array sort is stable, so full ties keep the standings order
+        .sort((a, b) =>
+          query.sort
+            ? compareStandings(a.standing, b.standing, query.sort)
+            : (b.match?.score ?? 0) - (a.match?.score ?? 0) ||
+              b.standing.votes - a.standing.votes,
+        );
+
+      let start = query.offset ?? 0;
+      if (cursorCountryId !== undefined) {
+        start =
+          matches.findIndex(
+            ({ standing }) => standing.countryId === cursorCountryId,
+          ) + 1;
+
+        if (start === 0) {
+          this.logger.LogWarning(`Invalid leaderboard cursor: ${query.cursor}`);
+          throw new BadRequestException('Invalid cursor');
+        }
+      }
+
+      const page = matches.slice(start, start + limit);
+      const names = await this.getLocalizedNames(
+        page.map(({ standing }) => standing.country.code),
+        query.lang,
+      );
+
       this.logger.LogInfo(
-        `Search for "${query}" returned ${countries.length} results`,
+        `Search for "${text}" returned ${matches.length} results`,
       );
 
-      // Transform to DTO with rank
-      return countries.map((country, index) => ({
-        country: country.name,
-        capital: country.capital || 'N/A',
-        region: country.region,
-        subRegion: country.subRegion,
-        votes: country.votes,
-        rank: index + 1,
-      }));
+      return {
+        data: page.map(({ standing, match }) => ({
+          ...this.toTopCountryDto(
+            standing,
+            rankByCountryId.get(standing.countryId) ?? {
+              rank: 0,
+              sharedRank: false,
+            },
+            names.get(standing.country.code),
+          ),
+          ...match,
+        })),
+        meta: {
+          total: matches.length,
+          limit,
+          offset: cursorCountryId === undefined ? start : null,
+          nextCursor:
+            start + limit < matches.length
+              ? this.encodeCursor(page[page.length - 1].standing.countryId)
+              : null,
+        },
+      };
     } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
       this.logger.LogError(`Failed to search countries: ${error.message}`, 500);
       throw error;
+    } finally {
+      recordQuery();
+    }
+  }
+
+  /**
+   * Whether a standing passes the structured filters of a search
+   * Region and subregion are compared ignoring case and accents
+   */
+  private matchesSearchFilters(
+    standing: {
+      votes: number;
+      country: { code: string; region: string; subRegion: string };
+    },
+    query: SearchCountriesQueryDto,
+  ): boolean {
+    const { region, subRegion, minVotes, maxVotes, codes } = query;
+
+    return (
+      (region === undefined ||
+        normalizeText(standing.country.region) === normalizeText(region)) &&
+      (subRegion === undefined ||
+        normalizeText(standing.country.subRegion) ===
+          normalizeText(subRegion)) &&
+      (minVotes === undefined || standing.votes >= minVotes) &&
+      (maxVotes === undefined || standing.votes <= maxVotes) &&
+      // Countries without votes in a date range are not results
+      standing.votes > 0 &&
+      (codes === undefined || codes.includes(standing.country.code))
+    );
+  }
+
+  /**
+   * Votes cast in a date range per country of a poll, keyed by countryId
+   */
+  private async countVotesInRange(
+    pollId: string,
+    { from, to }: { from?: Date; to?: Date },
+  ): Promise<Map<string, number>> {
+    const counts = await this.db.user.groupBy({
+      by: ['countryId'],
+      where: {
+        pollId,
+        status: { not: VoteStatus.VOIDED },
+        createdAt: {
+          ...(from && { gte: from }),
+          ...(to && { lt: to }),
+        },
+      },
+      _count: { _all: true },
+    });
+
+    return new Map(counts.map((row) => [row.countryId, row._count._all]));
+  }
+
+  /**
+   * Fetch one page of standings matching where, sorted and paginated by
+   * offset or cursor. Ranks come from the votes order of the standings
+   * matching rankingWhere, so they do not restart on every page.
+   */
+  private async findStandingsPage(
+    pollId: string,
+    where: Prisma.PollCountryWhereInput,
+    rankingWhere: Prisma.PollCountryWhereInput,
+    query: LeaderboardQueryDto,
+  ): Promise<TopCountriesPageDto> {
+    if (query.cursor !== undefined && query.offset !== undefined) {
+      throw new BadRequestException(
+        'Use either offset or cursor to paginate, not both',
+      );
+    }
+
+    const limit = query.limit ?? DEFAULT_LEADERBOARD_LIMIT;
+    const sort = query.sort ?? LeaderboardSort.VOTES_DESC;
+    const ranking = query.ranking ?? RankingMode.COMPETITION;
+    const tieBreak = query.tieBreak ?? TieBreaker.EARLIEST;
+    const cursorCountryId =
+      query.cursor !== undefined ? this.decodeCursor(query.cursor) : undefined;
+    const offset = cursorCountryId === undefined ? query.offset ?? 0 : null;
+
+    const [total, standings, rankedStandings] = await Promise.all([
+      this.db.pollCountry.count({ where }),
+      this.db.pollCountry.findMany({
+        where,
+        orderBy: leaderboardOrder(sort, tieBreak),
+        include: {
+          country: true,
+        },
+        // One extra row tells whether there is a next page
+        take: limit + 1,
+        ...(cursorCountryId === undefined
+          ? { skip: offset }
+          : {
+              cursor: {
+                pollId_countryId: { pollId, countryId: cursorCountryId },
+              },
+              skip: 1,
+            }),
+      }),
+      this.db.pollCountry.findMany({
+        where: rankingWhere,
+        orderBy: leaderboardOrder(LeaderboardSort.VOTES_DESC, tieBreak),
+        select: {
+          countryId: true,
+          votes: true,
+        },
+      }),
+    ]);
+
+    const rankByCountryId = rankStandings(rankedStandings, ranking);
+    const page = standings.slice(0, limit);
+    const hasNextPage = standings.length > limit;
+    const names = await this.getLocalizedNames(
+      page.map((standing) => standing.country.code),
+      query.lang,
+    );
+
+    return {
+      data: page.map((standing) =>
+        this.toTopCountryDto(
+          standing,
+          rankByCountryId.get(standing.countryId) ?? {
+            rank: 0,
+            sharedRank: false,
+          },
+          names.get(standing.country.code),
+        ),
+      ),
+      meta: {
+        total,
+        limit,
+        offset,
+        nextCursor: hasNextPage
+          ? this.encodeCursor(page[page.length - 1].countryId)
+          : null,
+      },
+    };
+  }
+
+  private encodeCursor(countryId: string): string {
+    return Buffer.from(JSON.stringify({ countryId })).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): string {
+    try {
+      const { countryId } = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString(),
+      );
+
+      if (typeof countryId === 'string' && countryId.length > 0) {
+        return countryId;
+      }
+    } catch {
+      // Reported as an invalid cursor below
     }
+
+    this.logger.LogWarning(`Invalid leaderboard cursor: ${cursor}`);
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  /**
+   * Country names in the requested language, keyed by code
+   * Empty for English, the language names are stored in
+   */
+  private async getLocalizedNames(
+    codes: string[],
+    language: string = DEFAULT_LANGUAGE,
+  ): Promise<Map<string, string>> {
+    if (language === DEFAULT_LANGUAGE || codes.length === 0) {
+      return new Map();
+    }
+
+    const countries = await this.countriesService.getCountriesByCodes(codes);
+    return new Map(
+      Array.from(countries, ([code, country]) => [
+        code,
+        localizeCountryName(country, language),
+      ]),
+    );
+  }
+
+  /**
+   * Transform a poll standing to DTO with its rank in the standings
+   */
+  private toTopCountryDto(
+    standing: {
+      votes: number;
+      country: {
+        code: string;
+        name: string;
+        capital: string | null;
+        region: string;
+        subRegion: string;
+      };
+    },
+    { rank, sharedRank }: StandingRank,
+    localizedName?: string,
+  ): TopCountryDto {
+    return {
+      country: localizedName ?? standing.country.name,
+      capital: standing.country.capital || 'N/A',
+      region: standing.country.region,
+      subRegion: standing.country.subRegion,
+      votes: standing.votes,
+      rank,
+      sharedRank,
+    };
   }
 }